@@ -1,19 +1,33 @@
 // Background service worker for Chrome Markdownify extension
+import type { ChunkedCopy } from '@utils/chunking';
+import type { TokenCount, TokenEncoding } from '@utils/token-count';
+import {
+  CHUNKED_COPY_KEY,
+  DEFAULT_CHUNK_SIZE,
+  markdownChunker,
+} from '@utils/chunking';
+import { dialectRegistry } from '@utils/dialects';
+import { markdownRenderer } from '@utils/markdown-renderer';
+import { formatSize } from '@utils/report';
+import { DEFAULT_TOKEN_BUDGET, formatTokenCount } from '@utils/token-count';
+import { tokenCounter } from '@utils/tokens';
 
 // Message types for communication between background script and content scripts
 interface MessageRequest {
-  action: 'get-full-page' | 'get-selection';
+  action: 'get-full-page' | 'get-selection' | 'convert-clipboard';
   tabId?: number;
 }
 
 interface ContentResponse {
   success: boolean;
   markdown?: string;
+  html?: string;
   error?: string;
   metadata?: {
     title: string;
     url: string;
     timestamp: string;
+    fileExtension?: string;
   };
   contentSize?: number;
 }
@@ -24,8 +38,16 @@ const CONTEXT_MENU_IDS = {
   COPY_SELECTION: 'copy-selection',
   DOWNLOAD_PAGE: 'download-full-page',
   DOWNLOAD_SELECTION: 'download-selection',
+  COPY_RICH_TEXT: 'copy-rich-text',
+  OUTPUT_FORMAT: 'output-format',
 } as const;
 
+// Prefix of the per-dialect radio items under the output format menu
+const DIALECT_MENU_PREFIX = 'dialect-';
+
+// Notification offering the next part of a chunked copy, replaced per part
+const PART_NOTIFICATION_ID = 'chunked-copy';
+
 /**
  * Set up context menu items when extension is installed
  */
@@ -70,6 +92,37 @@ async function updateContextMenus(
         documentUrlPatterns: ['http://*/*', 'https://*/*'],
       });
     }
+
+    // Reverse direction: Markdown from the selection or clipboard to HTML
+    chrome.contextMenus.create({
+      id: CONTEXT_MENU_IDS.COPY_RICH_TEXT,
+      title: 'Copy Markdown as Rich Text',
+      contexts: ['page', 'selection', 'editable'],
+      documentUrlPatterns: ['http://*/*', 'https://*/*'],
+    });
+
+    // Output format picker, checked on the dialect currently in use
+    const { dialect } = await chrome.storage.sync.get('dialect');
+    const current = dialectRegistry.get(dialect).id;
+
+    chrome.contextMenus.create({
+      id: CONTEXT_MENU_IDS.OUTPUT_FORMAT,
+      title: 'Output Format',
+      contexts: ['page', 'selection'],
+      documentUrlPatterns: ['http://*/*', 'https://*/*'],
+    });
+
+    dialectRegistry.list().forEach(({ id, label }) => {
+      chrome.contextMenus.create({
+        id: `${DIALECT_MENU_PREFIX}${id}`,
+        parentId: CONTEXT_MENU_IDS.OUTPUT_FORMAT,
+        title: label,
+        type: 'radio',
+        checked: id === current,
+        contexts: ['page', 'selection'],
+        documentUrlPatterns: ['http://*/*', 'https://*/*'],
+      });
+    });
   } catch (error) {
     console.error('Chrome Markdownify: Error updating context menus:', error);
   }
@@ -113,6 +166,22 @@ chrome.action.onClicked.addListener(
   }
 );
 
+/**
+ * Handle keyboard shortcuts
+ */
+chrome.commands.onCommand.addListener(
+  async (command: string, tab?: chrome.tabs.Tab): Promise<void> => {
+    if (command !== 'convert-clipboard') return;
+
+    if (!tab?.id) {
+      console.error('Chrome Markdownify: No active tab found');
+      return;
+    }
+
+    await handleConvertClipboard(tab.id);
+  }
+);
+
 /**
  * Handle context menu clicks
  */
@@ -121,6 +190,16 @@ chrome.contextMenus.onClicked.addListener(
     info: chrome.contextMenus.OnClickData,
     tab?: chrome.tabs.Tab
   ): Promise<void> => {
+    // Picking an output format only updates the stored preference
+    const menuItemId = String(info.menuItemId);
+    if (menuItemId.startsWith(DIALECT_MENU_PREFIX)) {
+      const dialect = menuItemId.slice(DIALECT_MENU_PREFIX.length);
+      if (dialectRegistry.isDialect(dialect)) {
+        await chrome.storage.sync.set({ dialect });
+      }
+      return;
+    }
+
     if (!tab?.id) {
       console.error('Chrome Markdownify: No active tab found');
       return;
@@ -139,6 +218,9 @@ chrome.contextMenus.onClicked.addListener(
       case CONTEXT_MENU_IDS.DOWNLOAD_SELECTION:
         await handleDownloadAction('get-selection', tab.id);
         break;
+      case CONTEXT_MENU_IDS.COPY_RICH_TEXT:
+        await handleCopyRichText(tab.id);
+        break;
       default:
         console.warn(
           'Chrome Markdownify: Unknown context menu item:',
@@ -163,12 +245,21 @@ async function handleCopyAction(
 
     if (response.success && response.markdown) {
       // Copy to clipboard
-      await copyToClipboard(response.markdown, tabId, response.metadata);
+      const parts = await copyToClipboard(
+        response.markdown,
+        tabId,
+        response.metadata,
+        response.html
+      );
+
+      // Chunked copies show their own notification with a next part button
+      if (parts > 1) return;
 
       // Show success notification
+      const tokens = await countTokens(response.markdown);
       await showNotification(
         'Success!',
-        `Content copied as Markdown (${formatSize(response.contentSize || 0)})`
+        `Content copied as Markdown (${formatSize(response.contentSize || 0)}, ${formatTokenCount(tokens)})`
       );
     } else {
       // Show error notification
@@ -189,82 +280,158 @@ async function handleCopyAction(
 }
 
 /**
- * Copy markdown content to clipboard using script injection
+ * Convert the HTML on the clipboard to Markdown in place. The content script
+ * does the work, since the page has focus when the shortcut is pressed
  */
-async function copyToClipboard(
-  markdown: string,
-  tabId: number,
-  metadata?: { title: string; url: string; timestamp: string }
-): Promise<void> {
+async function handleConvertClipboard(tabId: number): Promise<void> {
   try {
-    // For very large content (>50KB), we might want to truncate or warn
-    const contentSize = new Blob([markdown]).size;
-    let contentToCopy = markdown;
-
-    if (contentSize > 50000) {
-      // 50KB threshold
-      // Truncate very large content
-      contentToCopy = `${markdown.substring(0, 50000)}\n\n... (content truncated due to size)`;
-      console.warn(
-        `Chrome Markdownify: Content truncated from ${formatSize(contentSize)} to 50KB`
+    const response = (await chrome.tabs.sendMessage(tabId, {
+      action: 'convert-clipboard',
+    } as MessageRequest)) as ContentResponse;
+
+    if (response.success) {
+      await showNotification(
+        'Success!',
+        `Clipboard converted to Markdown (${formatSize(response.contentSize || 0)})`
+      );
+    } else {
+      await showNotification(
+        'Error',
+        response.error || 'Failed to convert clipboard'
       );
     }
+  } catch (error) {
+    console.error('Chrome Markdownify: Error converting clipboard:', error);
+
+    await showNotification(
+      'Error',
+      'Failed to communicate with page. Please refresh and try again.'
+    );
+  }
+}
 
-    // Inject script into the active tab to perform clipboard write
-    const results = await chrome.scripting.executeScript({
+/**
+ * Render the Markdown selected on the page, or on the clipboard when nothing
+ * is selected, and copy it as HTML for pasting into rich-text editors
+ */
+async function handleCopyRichText(tabId: number): Promise<void> {
+  try {
+    const [injection] = await chrome.scripting.executeScript({
       target: { tabId },
-      func: async (text: string) => {
-        // Try modern clipboard API first
-        try {
-          if (navigator.clipboard && navigator.clipboard.writeText) {
-            await navigator.clipboard.writeText(text);
-            return { success: true, method: 'clipboard' };
+      func: async () => {
+        // Selections inside text fields aren't part of the page selection
+        const field = document.activeElement;
+        if (
+          field instanceof HTMLTextAreaElement ||
+          field instanceof HTMLInputElement
+        ) {
+          const { selectionStart, selectionEnd, value } = field;
+          if (selectionStart !== null && selectionEnd !== selectionStart) {
+            return value.slice(selectionStart, selectionEnd ?? value.length);
           }
-        } catch (e) {
-          // Expected when popup is open - document not focused. Fallback will work.
-          // Don't log this error as it's expected behavior and the fallback handles it.
         }
 
-        // Fallback to document.execCommand
+        const selected = window.getSelection()?.toString() || '';
+        if (selected.trim()) return selected;
+
         try {
-          const textarea = document.createElement('textarea');
-          textarea.value = text;
-          textarea.style.position = 'fixed';
-          textarea.style.opacity = '0';
-          textarea.style.pointerEvents = 'none';
-          document.body.appendChild(textarea);
-          textarea.select();
-          const success = document.execCommand('copy');
-          document.body.removeChild(textarea);
-
-          if (success) {
-            return { success: true, method: 'execCommand' };
-          }
-        } catch (error) {
-          // Only log if we're in a context where neither method works
-          // This is very rare and would indicate a real problem
+          return await navigator.clipboard.readText();
+        } catch (e) {
+          // Clipboard reads need the page to be focused
+          return '';
         }
-
-        return { success: false, method: 'none' };
       },
-      args: [contentToCopy],
     });
 
-    // Check if clipboard write was successful
-    const result = results[0]?.result;
-    if (!result?.success) {
-      throw new Error('Failed to write to clipboard');
+    const markdown = injection?.result || '';
+    if (!markdown.trim()) {
+      await showNotification(
+        'Error',
+        'Select Markdown on the page or copy it to the clipboard first'
+      );
+      return;
+    }
+
+    const html = markdownRenderer.render(markdown);
+    const method = await writeClipboard(tabId, markdown, html);
+    console.log(
+      `Chrome Markdownify: Copied rendered Markdown as HTML using ${method}`
+    );
+
+    await showNotification(
+      'Success!',
+      `Markdown copied as rich text (${formatSize(new Blob([html]).size)})`
+    );
+  } catch (error) {
+    console.error('Chrome Markdownify: Error copying as rich text:', error);
+
+    await showNotification(
+      'Error',
+      'Failed to copy as rich text. Please refresh and try again.'
+    );
+  }
+}
+
+/**
+ * Copy markdown content to clipboard using script injection, along with the
+ * cleaned source HTML so rich editors keep the formatting. Content over the
+ * chunk size is split into numbered parts, the first copied and the rest kept
+ * for copyNextPart. Resolves to the number of parts
+ */
+async function copyToClipboard(
+  markdown: string,
+  tabId: number,
+  metadata?: {
+    title: string;
+    url: string;
+    timestamp: string;
+    fileExtension?: string;
+  },
+  html?: string
+): Promise<number> {
+  try {
+    // The custom web format only suits Markdown output
+    const { webMarkdownFormat, dialect } = await chrome.storage.sync.get([
+      'webMarkdownFormat',
+      'dialect',
+    ]);
+    const parts = await splitForCopy(markdown, metadata?.title);
+
+    if (parts.length > 1) {
+      console.log(
+        `Chrome Markdownify: Splitting ${formatSize(new Blob([markdown]).size)} into ${parts.length} parts`
+      );
+
+      // The source HTML can't be split with the Markdown, so parts are plain
+      const method = await writeClipboard(tabId, parts[0]);
+      await chrome.storage.session.set({
+        [CHUNKED_COPY_KEY]: { parts, next: 1, tabId } as ChunkedCopy,
+      });
+      await showPartNotification(1, parts.length);
+
+      console.log(`Chrome Markdownify: Copied part 1 using ${method}`);
+      return parts.length;
     }
 
+    // A new copy drops the rest of any earlier chunked copy
+    await chrome.storage.session.remove(CHUNKED_COPY_KEY);
+
+    const method = await writeClipboard(
+      tabId,
+      markdown,
+      html || null,
+      !!webMarkdownFormat && dialectRegistry.get(dialect).markdown
+    );
+
     console.log(
-      `Chrome Markdownify: Successfully copied to clipboard using ${result.method}`
+      `Chrome Markdownify: Successfully copied to clipboard using ${method}`
     );
   } catch (error) {
     console.error('Chrome Markdownify: Error copying to clipboard:', error);
 
     // Fallback: try to offer file download
     if (metadata) {
-      const filename = generateFilename(metadata.title);
+      const filename = generateFilename(metadata.title, metadata.fileExtension);
       await offerFileDownload(markdown, filename);
     } else {
       throw new Error(
@@ -272,6 +439,184 @@ async function copyToClipboard(
       );
     }
   }
+
+  return 1;
+}
+
+/**
+ * Split Markdown too long to copy in one go by size, or by tokens to fit an
+ * LLM context window, as set in the options
+ */
+async function splitForCopy(
+  markdown: string,
+  title?: string
+): Promise<string[]> {
+  const {
+    chunkBy,
+    chunkSize,
+    tokenBudget,
+    chunkOverlap,
+    chunkHeaders,
+    tokenizer,
+  } = await chrome.storage.sync.get([
+    'chunkBy',
+    'chunkSize',
+    'tokenBudget',
+    'chunkOverlap',
+    'chunkHeaders',
+    'tokenizer',
+  ]);
+  const headers = chunkHeaders !== false;
+
+  if (chunkBy === 'tokens') {
+    return tokenCounter.split(markdown, tokenBudget || DEFAULT_TOKEN_BUDGET, {
+      encoding: tokenizer as TokenEncoding,
+      overlap: chunkOverlap || 0,
+      headers,
+      title,
+    });
+  }
+
+  return markdownChunker.split(markdown, chunkSize || DEFAULT_CHUNK_SIZE, {
+    headers,
+  });
+}
+
+/**
+ * Count the tokens in Markdown with the tokenizer chosen in the options
+ */
+async function countTokens(markdown: string): Promise<TokenCount> {
+  const { tokenizer } = await chrome.storage.sync.get('tokenizer');
+  return tokenCounter.count(markdown, tokenizer as TokenEncoding);
+}
+
+/**
+ * Copy the next part of a chunked copy, resolving to the part copied and the
+ * total number of parts
+ */
+async function copyNextPart(): Promise<{ part: number; total: number }> {
+  const { [CHUNKED_COPY_KEY]: chunked } =
+    await chrome.storage.session.get(CHUNKED_COPY_KEY);
+  const { parts, next, tabId } = (chunked || {}) as Partial<ChunkedCopy>;
+
+  if (!parts || next === undefined || tabId === undefined) {
+    throw new Error('No more parts to copy');
+  }
+
+  const method = await writeClipboard(tabId, parts[next]);
+  console.log(`Chrome Markdownify: Copied part ${next + 1} using ${method}`);
+
+  if (next + 1 < parts.length) {
+    await chrome.storage.session.set({
+      [CHUNKED_COPY_KEY]: { parts, next: next + 1, tabId } as ChunkedCopy,
+    });
+  } else {
+    await chrome.storage.session.remove(CHUNKED_COPY_KEY);
+  }
+
+  await showPartNotification(next + 1, parts.length);
+  return { part: next + 1, total: parts.length };
+}
+
+/**
+ * Write text, and optionally HTML and a web text/markdown copy of the text,
+ * to the clipboard from inside a tab, returning the method that worked
+ */
+async function writeClipboard(
+  tabId: number,
+  text: string,
+  html: string | null = null,
+  webMarkdown: boolean = false
+): Promise<string> {
+  const results = await chrome.scripting.executeScript({
+    target: { tabId },
+    func: async (plain: string, rich: string | null, markdownType: boolean) => {
+      // Write several formats as one clipboard item; false when the page
+      // isn't permitted to or the browser rejects one of the types
+      const writeItem = async (formats: Record<string, string>) => {
+        try {
+          const blobs = Object.entries(formats).map(([type, content]) => [
+            type,
+            new Blob([content], { type: type.replace(/^web /, '') }),
+          ]);
+          await navigator.clipboard.write([
+            new ClipboardItem(Object.fromEntries(blobs)),
+          ]);
+          return true;
+        } catch (e) {
+          // Expected when popup is open - document not focused. Fallbacks will work.
+          return false;
+        }
+      };
+
+      const formats: Record<string, string> = { 'text/plain': plain };
+      if (rich) formats['text/html'] = rich;
+
+      // Try modern clipboard API first, retrying without the custom web
+      // format, which older browsers don't support
+      if (navigator.clipboard && typeof ClipboardItem !== 'undefined') {
+        if (
+          markdownType &&
+          (await writeItem({ ...formats, 'web text/markdown': plain }))
+        ) {
+          return { success: true, method: 'clipboard with text/markdown' };
+        }
+        if (rich && (await writeItem(formats))) {
+          return { success: true, method: 'clipboard' };
+        }
+      }
+
+      try {
+        if (!rich && navigator.clipboard && navigator.clipboard.writeText) {
+          await navigator.clipboard.writeText(plain);
+          return { success: true, method: 'clipboard' };
+        }
+      } catch (e) {
+        // Expected when popup is open - document not focused. Fallback will work.
+        // Don't log this error as it's expected behavior and the fallback handles it.
+      }
+
+      // Fallback to document.execCommand, filling in the HTML flavor from
+      // the copy event when there is one
+      const onCopy = (event: ClipboardEvent) => {
+        if (!rich || !event.clipboardData) return;
+        event.preventDefault();
+        event.clipboardData.setData('text/html', rich);
+        event.clipboardData.setData('text/plain', plain);
+      };
+      try {
+        const textarea = document.createElement('textarea');
+        textarea.value = plain;
+        textarea.style.position = 'fixed';
+        textarea.style.opacity = '0';
+        textarea.style.pointerEvents = 'none';
+        document.body.appendChild(textarea);
+        textarea.select();
+        document.addEventListener('copy', onCopy);
+        const success = document.execCommand('copy');
+        document.removeEventListener('copy', onCopy);
+        document.body.removeChild(textarea);
+
+        if (success) {
+          return { success: true, method: 'execCommand' };
+        }
+      } catch (error) {
+        // Only log if we're in a context where neither method works
+        // This is very rare and would indicate a real problem
+      }
+
+      return { success: false, method: 'none' };
+    },
+    args: [text, html, webMarkdown],
+  });
+
+  // Check if clipboard write was successful
+  const result = results[0]?.result;
+  if (!result?.success) {
+    throw new Error('Failed to write to clipboard');
+  }
+
+  return result.method;
 }
 
 /**
@@ -289,7 +634,10 @@ async function handleDownloadAction(
 
     if (response.success && response.markdown && response.metadata) {
       // Download the file
-      const filename = generateFilename(response.metadata.title);
+      const filename = generateFilename(
+        response.metadata.title,
+        response.metadata.fileExtension
+      );
       await offerFileDownload(response.markdown, filename);
 
       // Show success notification
@@ -371,7 +719,7 @@ async function offerFileDownload(
 /**
  * Generate filename from page title
  */
-function generateFilename(title: string): string {
+function generateFilename(title: string, extension: string = 'md'): string {
   // Sanitize title for filename
   const sanitized = title
     .replace(/[<>:"/\\|?*]/g, '-') // Replace invalid filename characters
@@ -380,7 +728,7 @@ function generateFilename(title: string): string {
     .substring(0, 100); // Limit length
 
   const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
-  return `${sanitized}_${timestamp}.md`;
+  return `${sanitized}_${timestamp}.${extension}`;
 }
 
 /**
@@ -400,18 +748,46 @@ async function showNotification(title: string, message: string): Promise<void> {
 }
 
 /**
- * Format file size for display
+ * Show which part of a chunked copy is on the clipboard, with a button to
+ * copy the next one while any remain
  */
-function formatSize(bytes: number): string {
-  if (bytes === 0) return '0 B';
-
-  const k = 1024;
-  const sizes = ['B', 'KB', 'MB', 'GB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
+async function showPartNotification(
+  part: number,
+  total: number
+): Promise<void> {
+  const remaining = part < total;
 
-  return `${parseFloat((bytes / k ** i).toFixed(1))} ${sizes[i]}`;
+  try {
+    await chrome.notifications.clear(PART_NOTIFICATION_ID);
+    await chrome.notifications.create(PART_NOTIFICATION_ID, {
+      type: 'basic',
+      iconUrl: 'icon48.png',
+      title: `Chrome Markdownify - Copied part ${part}/${total}`,
+      message: remaining
+        ? 'Paste it, then copy the next part from here or the popup'
+        : 'All parts copied',
+      buttons: remaining ? [{ title: `Copy part ${part + 1}/${total}` }] : [],
+      requireInteraction: remaining,
+    });
+  } catch (error) {
+    console.error('Chrome Markdownify: Error showing notification:', error);
+  }
 }
 
+// Copy the next part of a chunked copy from its notification
+chrome.notifications.onButtonClicked.addListener(
+  async (notificationId: string): Promise<void> => {
+    if (notificationId !== PART_NOTIFICATION_ID) return;
+
+    try {
+      await copyNextPart();
+    } catch (error) {
+      console.error('Chrome Markdownify: Error copying next part:', error);
+      await showNotification('Error', 'Failed to copy the next part');
+    }
+  }
+);
+
 /**
  * Handle messages from popup and content scripts
  */
@@ -436,7 +812,10 @@ chrome.runtime.onMessage.addListener(
       request.markdown &&
       request.metadata
     ) {
-      const filename = generateFilename(request.metadata.title || 'page');
+      const filename = generateFilename(
+        request.metadata.title || 'page',
+        request.metadata.fileExtension
+      );
       offerFileDownload(request.markdown, filename)
         .then(() => {
           showNotification('Success!', 'Download started');
@@ -460,7 +839,10 @@ chrome.runtime.onMessage.addListener(
       request.markdown &&
       request.metadata
     ) {
-      const filename = generateFilename(request.metadata.title || 'selection');
+      const filename = generateFilename(
+        request.metadata.title || 'selection',
+        request.metadata.fileExtension
+      );
       offerFileDownload(request.markdown, filename)
         .then(() => {
           showNotification('Success!', 'Download started');
@@ -484,9 +866,15 @@ chrome.runtime.onMessage.addListener(
       request.tabId &&
       request.markdown
     ) {
-      copyToClipboard(request.markdown, request.tabId, request.metadata)
-        .then(() => {
-          sendResponse({ success: true });
+      copyToClipboard(
+        request.markdown,
+        request.tabId,
+        request.metadata,
+        request.html
+      )
+        .then(async (parts) => {
+          const tokens = await countTokens(request.markdown);
+          sendResponse({ success: true, parts, tokens });
         })
         .catch((error) => {
           console.error('Chrome Markdownify: Copy full page error:', error);
@@ -506,9 +894,15 @@ chrome.runtime.onMessage.addListener(
       request.tabId &&
       request.markdown
     ) {
-      copyToClipboard(request.markdown, request.tabId, request.metadata)
-        .then(() => {
-          sendResponse({ success: true });
+      copyToClipboard(
+        request.markdown,
+        request.tabId,
+        request.metadata,
+        request.html
+      )
+        .then(async (parts) => {
+          const tokens = await countTokens(request.markdown);
+          sendResponse({ success: true, parts, tokens });
         })
         .catch((error) => {
           console.error('Chrome Markdownify: Copy selection error:', error);
@@ -522,11 +916,41 @@ chrome.runtime.onMessage.addListener(
       return true;
     }
 
+    // Handle copy-next-part message from popup
+    if (request.action === 'copy-next-part') {
+      copyNextPart()
+        .then(({ part, total }) => {
+          sendResponse({ success: true, part, total });
+        })
+        .catch((error) => {
+          console.error('Chrome Markdownify: Copy next part error:', error);
+          sendResponse({
+            success: false,
+            error: error.message || 'Failed to copy next part',
+          });
+        });
+
+      // Return true to indicate we'll send response asynchronously
+      return true;
+    }
+
     // Return false for other message types (no response needed)
     return false;
   }
 );
 
+// Keep the output format radio items in sync with changes from the popup
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== 'sync' || !changes.dialect) return;
+
+  const { id } = dialectRegistry.get(changes.dialect.newValue);
+  chrome.contextMenus
+    .update(`${DIALECT_MENU_PREFIX}${id}`, { checked: true })
+    .catch(() => {
+      // Menus are rebuilt on the next selection change anyway
+    });
+});
+
 // Add listener for when tabs are updated (e.g., navigation)
 chrome.tabs.onUpdated.addListener(
   (_tabId: number, changeInfo: any, tab: chrome.tabs.Tab): void => {
@@ -9,8 +9,15 @@
  * @module index.dev
  */
 
-import { converter } from '@utils/converter';
+import { clipboardHtmlConverter } from '@utils/clipboard-html';
+import {
+  CONVERSION_SETTING_KEYS,
+  ConversionOptions,
+  converter,
+} from '@utils/converter';
+import { dialectRegistry } from '@utils/dialects';
 import { domExtractor } from '@utils/dom-extractor';
+import { CaptureReport, captureReporter } from '@utils/report';
 import { createRoot } from 'react-dom/client';
 
 import Content from './Content';
@@ -19,21 +26,29 @@ import '@assets/styles/index.css';
 
 // Message types for communication with background script
 interface MessageRequest {
-  action: 'get-full-page' | 'get-selection' | 'check-selection';
+  action:
+    | 'get-full-page'
+    | 'get-selection'
+    | 'check-selection'
+    | 'convert-clipboard';
   tabId?: number;
 }
 
 interface MessageResponse {
   success: boolean;
   markdown?: string;
+  // Cleaned source HTML, copied alongside the Markdown for rich editors
+  html?: string;
   error?: string;
   hasSelection?: boolean;
   metadata?: {
     title: string;
     url: string;
     timestamp: string;
+    fileExtension?: string;
   };
   contentSize?: number;
+  report?: CaptureReport;
 }
 
 // Content size threshold (1MB)
@@ -74,16 +89,32 @@ try {
 // Global debug mode flag
 let debugMode = false;
 
-// Load debug mode setting
-chrome.storage.sync.get(['debugMode'], (result) => {
+// Markdown formatting preferences from the options page
+let conversionOptions: ConversionOptions = {};
+
+// Load debug mode and formatting settings
+chrome.storage.sync.get(['debugMode', ...CONVERSION_SETTING_KEYS], (result) => {
   debugMode = result.debugMode || false;
+  CONVERSION_SETTING_KEYS.forEach((key) => {
+    if (result[key] !== undefined) {
+      conversionOptions = { ...conversionOptions, [key]: result[key] };
+    }
+  });
 });
 
-// Listen for debug mode changes
+// Listen for settings changes
 chrome.storage.onChanged.addListener((changes) => {
   if (changes.debugMode) {
     debugMode = changes.debugMode.newValue || false;
   }
+  CONVERSION_SETTING_KEYS.forEach((key) => {
+    if (changes[key]) {
+      conversionOptions = {
+        ...conversionOptions,
+        [key]: changes[key].newValue,
+      };
+    }
+  });
 });
 
 /**
@@ -113,6 +144,9 @@ chrome.runtime.onMessage.addListener(
         case 'check-selection':
           handleCheckSelectionRequest(sendResponse);
           break;
+        case 'convert-clipboard':
+          handleConvertClipboardRequest(sendResponse);
+          break;
         default:
           sendResponse({
             success: false,
@@ -167,17 +201,38 @@ async function handleFullPageRequest(
     const conversionResult = converter.convertWithMetadata(
       extractedContent.html,
       extractedContent.metadata.title,
-      extractedContent.metadata.url
+      extractedContent.metadata.url,
+      {
+        ...conversionOptions,
+        baseUrl: document.baseURI,
+        pageMetadata: extractedContent.metadata,
+        includeReport: true,
+        includeHtml: true,
+      }
     );
 
     // Calculate final content size
     const contentSize = new Blob([conversionResult.markdown]).size;
 
+    const report = saveReport(
+      captureReporter.combine(
+        extractedContent.report,
+        { ...conversionResult.report!, markdownSize: contentSize },
+        extractedContent.metadata.url
+      )
+    );
+
     sendResponse({
       success: true,
       markdown: conversionResult.markdown,
-      metadata: conversionResult.metadata,
+      html: conversionResult.html,
+      metadata: conversionResult.metadata && {
+        ...conversionResult.metadata,
+        fileExtension: dialectRegistry.get(conversionOptions.dialect)
+          .fileExtension,
+      },
       contentSize,
+      report,
     });
 
     if (debugMode) {
@@ -188,6 +243,7 @@ async function handleFullPageRequest(
           markdownSize: conversionResult.markdown.length,
           title: extractedContent.metadata.title,
           markdown: conversionResult.markdown,
+          report: captureReporter.summarize(report),
         }
       );
     }
@@ -206,6 +262,36 @@ async function handleFullPageRequest(
   }
 }
 
+/**
+ * Handle conversion of HTML on the clipboard, for the keyboard shortcut
+ */
+async function handleConvertClipboardRequest(
+  sendResponse: (response: MessageResponse) => void
+): Promise<void> {
+  try {
+    const result =
+      await clipboardHtmlConverter.convertClipboard(conversionOptions);
+    sendResponse(result);
+
+    if (debugMode) {
+      console.log(
+        'Chrome Markdownify Content Script (Dev): Clipboard converted',
+        result
+      );
+    }
+  } catch (error) {
+    console.error(
+      'Chrome Markdownify Content Script (Dev): Error converting clipboard:',
+      error
+    );
+    sendResponse({
+      success: false,
+      error:
+        error instanceof Error ? error.message : 'Failed to convert clipboard',
+    });
+  }
+}
+
 /**
  * Handle selection extraction and conversion
  */
@@ -244,25 +330,53 @@ async function handleSelectionRequest(
     const pageMetadata = domExtractor.extractPageMetadata();
 
     // Convert selection to markdown with page context
-    const markdown = converter.convert(selectedContent.html);
+    const {
+      markdown,
+      report: conversionReport,
+      html,
+    } = converter.convertWithReport(selectedContent.html, {
+      ...conversionOptions,
+      baseUrl: document.baseURI,
+      includeHtml: true,
+    });
 
-    // Add metadata header for selections
+    // Wrap the selection in the output template
+    const dialect = dialectRegistry.get(conversionOptions.dialect);
     const timestamp = new Date().toISOString();
-    const metadataHeader = `Selection from: [${pageMetadata.title}](${pageMetadata.url})\nCaptured: ${timestamp}`;
-    const fullMarkdown = `${metadataHeader}\n\n---\n\n${markdown}`;
+    const fullMarkdown = converter.applyTemplate(
+      markdown,
+      {
+        title: pageMetadata.title,
+        url: pageMetadata.url,
+        timestamp,
+        selection: true,
+      },
+      { ...conversionOptions, pageMetadata }
+    );
 
     // Calculate final content size
     const contentSize = new Blob([fullMarkdown]).size;
 
+    const report = saveReport(
+      captureReporter.combine(
+        selectedContent.report,
+        { ...conversionReport, markdownSize: contentSize },
+        pageMetadata.url
+      )
+    );
+
     sendResponse({
       success: true,
       markdown: fullMarkdown,
+      html,
       metadata: {
         title: `Selection from ${pageMetadata.title}`,
         url: pageMetadata.url,
         timestamp,
+        fileExtension: dialect.fileExtension,
       },
       contentSize,
+      report,
     });
 
     if (debugMode) {
@@ -274,6 +388,7 @@ async function handleSelectionRequest(
           markdownSize: fullMarkdown.length,
           context: selectedContent.context,
           markdown: fullMarkdown,
+          report: captureReporter.summarize(report),
         }
       );
     }
@@ -292,6 +407,16 @@ async function handleSelectionRequest(
   }
 }
 
+/**
+ * Keep the latest capture report for the popup to show
+ */
+function saveReport(report: CaptureReport): CaptureReport {
+  chrome.storage.local.set({ lastCaptureReport: report }).catch(() => {
+    // The report is only informational
+  });
+  return report;
+}
+
 /**
  * Handle check selection request - just checks if there's selected text
  */
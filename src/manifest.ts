@@ -35,11 +35,18 @@ export default defineManifest({
     'activeTab',
     'storage',
     'contextMenus',
+    'clipboardRead',
     'clipboardWrite',
     'notifications',
     'downloads',
     'scripting',
   ],
+  commands: {
+    'convert-clipboard': {
+      suggested_key: { default: 'Alt+Shift+M' },
+      description: 'Convert clipboard to Markdown',
+    },
+  },
   content_scripts: [
     {
       js: isDev
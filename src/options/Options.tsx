@@ -1,35 +1,133 @@
-import { JSX, useEffect, useState } from 'react';
+import { JSX, useEffect, useMemo, useState } from 'react';
+import { DEFAULT_CHUNK_SIZE } from '@utils/chunking';
+import { converter, LinkStyle, MetadataFormat } from '@utils/converter';
+import { DEFAULT_EMBED_STYLES, EmbedStyle, EmbedType } from '@utils/embeds';
+import {
+  TEMPLATE_PRESETS,
+  TEMPLATE_VARIABLES,
+  TemplatePresetId,
+} from '@utils/template';
+import {
+  DEFAULT_TOKEN_BUDGET,
+  DEFAULT_TOKEN_ENCODING,
+  TokenEncoding,
+} from '@utils/token-count';
+import { DEFAULT_NORMALIZATION, NormalizationStep } from '@utils/typography';
+import { DEFAULT_WRAP_WIDTH, WrapMode } from '@utils/wrapping';
 
 interface Settings {
   debugMode: boolean;
+  linkStyle: LinkStyle;
+  linkTablePlacement: 'document' | 'section';
+  stripPrompts: boolean;
+  normalizeHeadings: boolean;
+  tableOfContents: boolean;
+  embeds: Record<EmbedType, EmbedStyle>;
+  normalization: Record<NormalizationStep, boolean>;
+  wrap: WrapMode;
+  wrapWidth: number;
+  metadataFormat: MetadataFormat;
+  template: string;
+  webMarkdownFormat: boolean;
+  chunkBy: 'size' | 'tokens';
+  chunkSize: number; // Bytes
+  tokenBudget: number;
+  chunkOverlap: number; // Tokens
+  chunkHeaders: boolean;
+  tokenizer: TokenEncoding;
 }
 
+const DEFAULT_SETTINGS: Settings = {
+  debugMode: false,
+  linkStyle: 'inline',
+  linkTablePlacement: 'document',
+  stripPrompts: false,
+  normalizeHeadings: false,
+  tableOfContents: false,
+  embeds: DEFAULT_EMBED_STYLES,
+  normalization: DEFAULT_NORMALIZATION,
+  wrap: 'none',
+  wrapWidth: DEFAULT_WRAP_WIDTH,
+  metadataFormat: 'header',
+  template: '',
+  webMarkdownFormat: false,
+  chunkBy: 'size',
+  chunkSize: DEFAULT_CHUNK_SIZE,
+  tokenBudget: DEFAULT_TOKEN_BUDGET,
+  chunkOverlap: 0,
+  chunkHeaders: true,
+  tokenizer: DEFAULT_TOKEN_ENCODING,
+};
+
+// Sample page the template preview is rendered from
+const PREVIEW_PAGE = {
+  title: 'Example Article',
+  url: 'https://www.example.com/articles/example',
+  author: 'Jane Doe',
+  description: 'A short example article',
+  tags: ['example', 'markdown'],
+};
+const EMBED_TYPES: { type: EmbedType; label: string }[] = [
+  { type: 'video', label: 'Video' },
+  { type: 'audio', label: 'Audio' },
+  { type: 'frame', label: 'Other' },
+];
+
+const NORMALIZATION_STEPS: { step: NormalizationStep; label: string }[] = [
+  { step: 'unicode', label: 'Normalize Unicode (NFC)' },
+  { step: 'invisibles', label: 'Remove invisible characters' },
+  { step: 'asciiPunctuation', label: 'Plain ASCII quotes and dashes' },
+  { step: 'emojiImages', label: 'Emoji images as emoji' },
+];
+
+const PREVIEW_HTML =
+  '<h2>Introduction</h2><p>This is <strong>sample</strong> content.</p>';
+
 export default function Options(): JSX.Element {
-  const [settings, setSettings] = useState<Settings>({
-    debugMode: false,
-  });
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
   const [saved, setSaved] = useState(false);
+  const [templateDraft, setTemplateDraft] = useState('');
 
   // Load settings on mount
   useEffect(() => {
-    chrome.storage.sync.get(['debugMode'], (result) => {
-      setSettings({
-        debugMode: result.debugMode || false,
-      });
+    chrome.storage.sync.get(Object.keys(DEFAULT_SETTINGS), (result) => {
+      setSettings({ ...DEFAULT_SETTINGS, ...result });
+      setTemplateDraft(result.template || '');
     });
   }, []);
 
-  // Handle toggle change
-  const handleDebugToggle = () => {
-    const newSettings = { ...settings, debugMode: !settings.debugMode };
+  // Render the sample page with the template being edited
+  const templatePreview = useMemo(
+    () =>
+      converter.convertWithMetadata(
+        PREVIEW_HTML,
+        PREVIEW_PAGE.title,
+        PREVIEW_PAGE.url,
+        {
+          linkStyle: settings.linkStyle,
+          metadataFormat: settings.metadataFormat,
+          template: templateDraft,
+          pageMetadata: PREVIEW_PAGE,
+        }
+      ).markdown,
+    [settings.linkStyle, settings.metadataFormat, templateDraft]
+  );
+
+  // Auto-save any setting as soon as it changes
+  const updateSettings = (changes: Partial<Settings>) => {
+    const newSettings = { ...settings, ...changes };
     setSettings(newSettings);
-    // Auto-save on toggle
     chrome.storage.sync.set(newSettings, () => {
       setSaved(true);
       setTimeout(() => setSaved(false), 2000);
     });
   };
 
+  // Handle toggle change
+  const handleDebugToggle = () => {
+    updateSettings({ debugMode: !settings.debugMode });
+  };
+
   return (
     <div className='min-h-screen' style={{ backgroundColor: '#f5f5dc' }}>
       <div className='mx-auto max-w-2xl p-8'>
@@ -46,6 +144,651 @@ export default function Options(): JSX.Element {
           </div>
         </div>
 
+        {/* Formatting Card */}
+        <div className='mb-6 rounded-lg bg-white p-6 shadow-md'>
+          <h2
+            className='mb-4 text-lg font-semibold'
+            style={{ color: '#2d5f3f' }}
+          >
+            Markdown Formatting
+          </h2>
+
+          {/* Metadata Format */}
+          <div className='flex items-center justify-between border-b py-4'>
+            <div>
+              <label
+                htmlFor='metadataFormat'
+                className='text-sm font-medium text-gray-700'
+              >
+                Page Metadata
+              </label>
+              <p className='mt-1 text-xs text-gray-500'>
+                YAML front matter works with Obsidian, Hugo and Jekyll (Markdown
+                formats only)
+              </p>
+            </div>
+            <select
+              id='metadataFormat'
+              value={settings.metadataFormat}
+              onChange={(e) =>
+                updateSettings({
+                  metadataFormat: e.target.value as MetadataFormat,
+                })
+              }
+              className='rounded border border-gray-300 px-2 py-1 text-sm'
+            >
+              <option value='header'>Source/Captured header</option>
+              <option value='frontmatter'>YAML front matter</option>
+            </select>
+          </div>
+
+          {/* Link Style */}
+          <div className='flex items-center justify-between border-b py-4'>
+            <div>
+              <label
+                htmlFor='linkStyle'
+                className='text-sm font-medium text-gray-700'
+              >
+                Link Style
+              </label>
+              <p className='mt-1 text-xs text-gray-500'>
+                Reference links list each URL once; strip keeps only the link
+                text
+              </p>
+            </div>
+            <select
+              id='linkStyle'
+              value={settings.linkStyle}
+              onChange={(e) =>
+                updateSettings({ linkStyle: e.target.value as LinkStyle })
+              }
+              className='rounded border border-gray-300 px-2 py-1 text-sm'
+            >
+              <option value='inline'>Inline [text](url)</option>
+              <option value='reference'>Reference [text][1]</option>
+              <option value='strip'>Strip links</option>
+            </select>
+          </div>
+
+          {/* Link Table Placement */}
+          {settings.linkStyle === 'reference' && (
+            <div className='flex items-center justify-between border-b py-4'>
+              <div>
+                <label
+                  htmlFor='linkTablePlacement'
+                  className='text-sm font-medium text-gray-700'
+                >
+                  Link Table Placement
+                </label>
+                <p className='mt-1 text-xs text-gray-500'>
+                  List reference URLs at the end of the document or after each
+                  section
+                </p>
+              </div>
+              <select
+                id='linkTablePlacement'
+                value={settings.linkTablePlacement}
+                onChange={(e) =>
+                  updateSettings({
+                    linkTablePlacement: e.target
+                      .value as Settings['linkTablePlacement'],
+                  })
+                }
+                className='rounded border border-gray-300 px-2 py-1 text-sm'
+              >
+                <option value='document'>End of document</option>
+                <option value='section'>End of each section</option>
+              </select>
+            </div>
+          )}
+
+          {/* Line Wrapping */}
+          <div className='flex items-center justify-between border-b py-4'>
+            <div>
+              <label
+                htmlFor='wrap'
+                className='text-sm font-medium text-gray-700'
+              >
+                Line Wrapping
+              </label>
+              <p className='mt-1 text-xs text-gray-500'>
+                Reflow paragraphs, lists and quotes (Markdown formats only)
+              </p>
+            </div>
+            <div className='flex items-center gap-2'>
+              {settings.wrap === 'width' && (
+                <input
+                  id='wrapWidth'
+                  type='number'
+                  min={20}
+                  max={200}
+                  value={settings.wrapWidth}
+                  onChange={(e) =>
+                    updateSettings({
+                      wrapWidth: Number(e.target.value) || DEFAULT_WRAP_WIDTH,
+                    })
+                  }
+                  className='w-16 rounded border border-gray-300 px-2 py-1 text-sm'
+                  aria-label='Wrap width'
+                />
+              )}
+              <select
+                id='wrap'
+                value={settings.wrap}
+                onChange={(e) =>
+                  updateSettings({ wrap: e.target.value as WrapMode })
+                }
+                className='rounded border border-gray-300 px-2 py-1 text-sm'
+              >
+                <option value='none'>No wrapping</option>
+                <option value='width'>Wrap at column</option>
+                <option value='sentence'>One sentence per line</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Strip Shell Prompts Toggle */}
+          <div className='flex items-center justify-between border-b py-4'>
+            <div>
+              <label
+                htmlFor='stripPrompts'
+                className='text-sm font-medium text-gray-700'
+              >
+                Strip Shell Prompts
+              </label>
+              <p className='mt-1 text-xs text-gray-500'>
+                Remove $ and &gt;&gt;&gt; prompt markers from code blocks
+              </p>
+            </div>
+            <div className='flex items-center gap-2'>
+              <span
+                className={`text-sm font-medium ${settings.stripPrompts ? 'text-green-600' : 'text-gray-400'}`}
+              >
+                {settings.stripPrompts ? 'ON' : 'OFF'}
+              </span>
+              <button
+                id='stripPrompts'
+                type='button'
+                onClick={() =>
+                  updateSettings({ stripPrompts: !settings.stripPrompts })
+                }
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  settings.stripPrompts ? 'bg-green-600' : 'bg-gray-300'
+                }`}
+                role='switch'
+                aria-checked={settings.stripPrompts}
+              >
+                <span className='sr-only'>Strip shell prompts</span>
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white shadow-sm transition-transform ${
+                    settings.stripPrompts ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+                />
+              </button>
+            </div>
+          </div>
+          {/* Normalize Headings Toggle */}
+          <div className='flex items-center justify-between border-b py-4'>
+            <div>
+              <label
+                htmlFor='normalizeHeadings'
+                className='text-sm font-medium text-gray-700'
+              >
+                Normalize Headings
+              </label>
+              <p className='mt-1 text-xs text-gray-500'>
+                Shift heading levels so the document has a single H1
+              </p>
+            </div>
+            <div className='flex items-center gap-2'>
+              <span
+                className={`text-sm font-medium ${settings.normalizeHeadings ? 'text-green-600' : 'text-gray-400'}`}
+              >
+                {settings.normalizeHeadings ? 'ON' : 'OFF'}
+              </span>
+              <button
+                id='normalizeHeadings'
+                type='button'
+                onClick={() =>
+                  updateSettings({
+                    normalizeHeadings: !settings.normalizeHeadings,
+                  })
+                }
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  settings.normalizeHeadings ? 'bg-green-600' : 'bg-gray-300'
+                }`}
+                role='switch'
+                aria-checked={settings.normalizeHeadings}
+              >
+                <span className='sr-only'>Normalize headings</span>
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white shadow-sm transition-transform ${
+                    settings.normalizeHeadings
+                      ? 'translate-x-6'
+                      : 'translate-x-1'
+                  }`}
+                />
+              </button>
+            </div>
+          </div>
+          {/* Table of Contents Toggle */}
+          <div className='flex items-center justify-between border-b py-4'>
+            <div>
+              <label
+                htmlFor='tableOfContents'
+                className='text-sm font-medium text-gray-700'
+              >
+                Table of Contents
+              </label>
+              <p className='mt-1 text-xs text-gray-500'>
+                Insert a linked list of headings after the title
+              </p>
+            </div>
+            <div className='flex items-center gap-2'>
+              <span
+                className={`text-sm font-medium ${settings.tableOfContents ? 'text-green-600' : 'text-gray-400'}`}
+              >
+                {settings.tableOfContents ? 'ON' : 'OFF'}
+              </span>
+              <button
+                id='tableOfContents'
+                type='button'
+                onClick={() =>
+                  updateSettings({ tableOfContents: !settings.tableOfContents })
+                }
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  settings.tableOfContents ? 'bg-green-600' : 'bg-gray-300'
+                }`}
+                role='switch'
+                aria-checked={settings.tableOfContents}
+              >
+                <span className='sr-only'>Table of contents</span>
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white shadow-sm transition-transform ${
+                    settings.tableOfContents ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+                />
+              </button>
+            </div>
+          </div>
+          {/* Embedded Media */}
+          <div className='flex items-center justify-between border-b py-4'>
+            <div>
+              <span className='text-sm font-medium text-gray-700'>
+                Embedded Media
+              </span>
+              <p className='mt-1 text-xs text-gray-500'>
+                Write videos, audio and other embeds as thumbnails, links or
+                nothing
+              </p>
+            </div>
+            <div className='flex flex-col gap-2'>
+              {EMBED_TYPES.map(({ type, label }) => (
+                <label
+                  key={type}
+                  className='flex items-center justify-end gap-2 text-xs text-gray-600'
+                >
+                  {label}
+                  <select
+                    value={settings.embeds[type]}
+                    onChange={(e) =>
+                      updateSettings({
+                        embeds: {
+                          ...settings.embeds,
+                          [type]: e.target.value as EmbedStyle,
+                        },
+                      })
+                    }
+                    className='rounded border border-gray-300 px-2 py-1 text-sm'
+                  >
+                    <option value='thumbnail'>Thumbnail link</option>
+                    <option value='link'>Link</option>
+                    <option value='remove'>Remove</option>
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Text Cleanup */}
+          <div className='flex items-center justify-between border-b py-4'>
+            <div>
+              <span className='text-sm font-medium text-gray-700'>
+                Text Cleanup
+              </span>
+              <p className='mt-1 text-xs text-gray-500'>
+                Tidy characters that confuse diff tools and LLM tokenizers
+              </p>
+            </div>
+            <div className='flex flex-col gap-2'>
+              {NORMALIZATION_STEPS.map(({ step, label }) => (
+                <label
+                  key={step}
+                  className='flex items-center justify-end gap-2 text-xs text-gray-600'
+                >
+                  {label}
+                  <input
+                    type='checkbox'
+                    checked={settings.normalization[step]}
+                    onChange={(e) =>
+                      updateSettings({
+                        normalization: {
+                          ...settings.normalization,
+                          [step]: e.target.checked,
+                        },
+                      })
+                    }
+                    className='h-4 w-4 accent-green-600'
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+          {/* Markdown clipboard format */}
+          <div className='flex items-center justify-between border-b py-4'>
+            <div>
+              <label
+                htmlFor='webMarkdownFormat'
+                className='text-sm font-medium text-gray-700'
+              >
+                Copy as text/markdown
+              </label>
+              <p className='mt-1 text-xs text-gray-500'>
+                Also put Markdown output on the clipboard as web text/markdown
+                for editors that read it
+              </p>
+            </div>
+            <div className='flex items-center gap-2'>
+              <span
+                className={`text-sm font-medium ${settings.webMarkdownFormat ? 'text-green-600' : 'text-gray-400'}`}
+              >
+                {settings.webMarkdownFormat ? 'ON' : 'OFF'}
+              </span>
+              <button
+                id='webMarkdownFormat'
+                type='button'
+                onClick={() =>
+                  updateSettings({
+                    webMarkdownFormat: !settings.webMarkdownFormat,
+                  })
+                }
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  settings.webMarkdownFormat ? 'bg-green-600' : 'bg-gray-300'
+                }`}
+                role='switch'
+                aria-checked={settings.webMarkdownFormat}
+              >
+                <span className='sr-only'>Copy as text/markdown</span>
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white shadow-sm transition-transform ${
+                    settings.webMarkdownFormat
+                      ? 'translate-x-6'
+                      : 'translate-x-1'
+                  }`}
+                />
+              </button>
+            </div>
+          </div>
+
+          {/* Chunked copy threshold */}
+          <div className='flex items-center justify-between border-b py-4'>
+            <div>
+              <label
+                htmlFor='chunkBy'
+                className='text-sm font-medium text-gray-700'
+              >
+                Split Long Copies
+              </label>
+              <p className='mt-1 text-xs text-gray-500'>
+                Copy longer content in numbered parts, stepping through them
+                from the popup or notification. Split by tokens to fit an LLM
+                context window
+              </p>
+            </div>
+            <div className='flex items-center gap-2'>
+              {settings.chunkBy === 'tokens' ? (
+                <input
+                  id='tokenBudget'
+                  type='number'
+                  min={100}
+                  step={1000}
+                  value={settings.tokenBudget}
+                  onChange={(e) =>
+                    updateSettings({
+                      tokenBudget:
+                        Number(e.target.value) || DEFAULT_TOKEN_BUDGET,
+                    })
+                  }
+                  className='w-24 rounded border border-gray-300 px-2 py-1 text-sm'
+                  aria-label='Tokens per part'
+                />
+              ) : (
+                <input
+                  id='chunkSize'
+                  type='number'
+                  min={1}
+                  value={Math.round(settings.chunkSize / 1000)}
+                  onChange={(e) =>
+                    updateSettings({
+                      chunkSize:
+                        Number(e.target.value) * 1000 || DEFAULT_CHUNK_SIZE,
+                    })
+                  }
+                  className='w-20 rounded border border-gray-300 px-2 py-1 text-sm'
+                  aria-label='Kilobytes per part'
+                />
+              )}
+              <select
+                id='chunkBy'
+                value={settings.chunkBy}
+                onChange={(e) =>
+                  updateSettings({
+                    chunkBy: e.target.value as Settings['chunkBy'],
+                  })
+                }
+                className='rounded border border-gray-300 px-2 py-1 text-sm'
+              >
+                <option value='size'>KB</option>
+                <option value='tokens'>Tokens</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Overlap between token parts */}
+          {settings.chunkBy === 'tokens' && (
+            <div className='flex items-center justify-between border-b py-4'>
+              <div>
+                <label
+                  htmlFor='chunkOverlap'
+                  className='text-sm font-medium text-gray-700'
+                >
+                  Part Overlap (tokens)
+                </label>
+                <p className='mt-1 text-xs text-gray-500'>
+                  Repeat the end of each part at the start of the next, so the
+                  model keeps the context
+                </p>
+              </div>
+              <input
+                id='chunkOverlap'
+                type='number'
+                min={0}
+                max={Math.floor(settings.tokenBudget / 2)}
+                value={settings.chunkOverlap}
+                onChange={(e) =>
+                  updateSettings({
+                    chunkOverlap: Math.min(
+                      Math.max(Number(e.target.value) || 0, 0),
+                      Math.floor(settings.tokenBudget / 2)
+                    ),
+                  })
+                }
+                className='w-20 rounded border border-gray-300 px-2 py-1 text-sm'
+              />
+            </div>
+          )}
+
+          {/* Part headers */}
+          <div className='flex items-center justify-between border-b py-4'>
+            <div>
+              <label
+                htmlFor='chunkHeaders'
+                className='text-sm font-medium text-gray-700'
+              >
+                Part Headers
+              </label>
+              <p className='mt-1 text-xs text-gray-500'>
+                Start each part with its number, like &quot;Part 2/5&quot;, and
+                the page title when splitting by tokens
+              </p>
+            </div>
+            <div className='flex items-center gap-2'>
+              <span
+                className={`text-sm font-medium ${settings.chunkHeaders ? 'text-green-600' : 'text-gray-400'}`}
+              >
+                {settings.chunkHeaders ? 'ON' : 'OFF'}
+              </span>
+              <button
+                id='chunkHeaders'
+                type='button'
+                onClick={() =>
+                  updateSettings({ chunkHeaders: !settings.chunkHeaders })
+                }
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  settings.chunkHeaders ? 'bg-green-600' : 'bg-gray-300'
+                }`}
+                role='switch'
+                aria-checked={settings.chunkHeaders}
+              >
+                <span className='sr-only'>Part headers</span>
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white shadow-sm transition-transform ${
+                    settings.chunkHeaders ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+                />
+              </button>
+            </div>
+          </div>
+
+          {/* Tokenizer */}
+          <div className='flex items-center justify-between border-b py-4'>
+            <div>
+              <label
+                htmlFor='tokenizer'
+                className='text-sm font-medium text-gray-700'
+              >
+                Token Counting
+              </label>
+              <p className='mt-1 text-xs text-gray-500'>
+                Tokenizer for the token counts shown after copying and for
+                splitting by tokens
+              </p>
+            </div>
+            <select
+              id='tokenizer'
+              value={settings.tokenizer}
+              onChange={(e) =>
+                updateSettings({
+                  tokenizer: e.target.value as TokenEncoding,
+                })
+              }
+              className='rounded border border-gray-300 px-2 py-1 text-sm'
+            >
+              <option value='o200k'>GPT-4o and later (o200k)</option>
+              <option value='cl100k'>GPT-4 and GPT-3.5 (cl100k)</option>
+              <option value='estimate'>Quick estimate</option>
+            </select>
+          </div>
+        </div>
+
+        {/* Template Card */}
+        <div className='mb-6 rounded-lg bg-white p-6 shadow-md'>
+          <h2
+            className='mb-4 text-lg font-semibold'
+            style={{ color: '#2d5f3f' }}
+          >
+            Output Template
+          </h2>
+
+          {/* Preset */}
+          <div className='flex items-center justify-between border-b py-4'>
+            <div>
+              <label
+                htmlFor='templatePreset'
+                className='text-sm font-medium text-gray-700'
+              >
+                Start From
+              </label>
+              <p className='mt-1 text-xs text-gray-500'>
+                Load a preset into the editor, or clear it to use the Page
+                Metadata setting
+              </p>
+            </div>
+            <select
+              id='templatePreset'
+              value=''
+              onChange={(e) => {
+                const preset = e.target.value as TemplatePresetId | 'none';
+                const template =
+                  preset === 'none' ? '' : TEMPLATE_PRESETS[preset].template;
+                setTemplateDraft(template);
+                updateSettings({ template });
+              }}
+              className='rounded border border-gray-300 px-2 py-1 text-sm'
+            >
+              <option value='' disabled>
+                Choose a preset…
+              </option>
+              <option value='none'>None (built-in header)</option>
+              {(Object.keys(TEMPLATE_PRESETS) as TemplatePresetId[]).map(
+                (id) => (
+                  <option key={id} value={id}>
+                    {TEMPLATE_PRESETS[id].label}
+                  </option>
+                )
+              )}
+            </select>
+          </div>
+
+          {/* Editor */}
+          <div className='border-b py-4'>
+            <label
+              htmlFor='template'
+              className='text-sm font-medium text-gray-700'
+            >
+              Template
+            </label>
+            <p className='mt-1 text-xs text-gray-500'>
+              Variables:{' '}
+              {TEMPLATE_VARIABLES.map((name) => `{{${name}}}`).join(' ')}. Use{' '}
+              {'{{date:YYYY-MM-DD}}'} for custom dates, {'{{content:quote}}'} to
+              quote the content, and {'{{#selection}}…{{/selection}}'} for
+              conditional text.
+            </p>
+            <textarea
+              id='template'
+              value={templateDraft}
+              placeholder={TEMPLATE_PRESETS.header.template}
+              onChange={(e) => setTemplateDraft(e.target.value)}
+              onBlur={() => {
+                if (templateDraft !== settings.template) {
+                  updateSettings({ template: templateDraft });
+                }
+              }}
+              rows={6}
+              className='mt-2 w-full rounded border border-gray-300 p-2 font-mono text-xs'
+            />
+          </div>
+
+          {/* Preview */}
+          <div className='pt-4'>
+            <h3 className='text-sm font-medium text-gray-700'>Preview</h3>
+            <pre className='mt-2 max-h-64 overflow-auto whitespace-pre-wrap rounded border border-gray-200 bg-gray-50 p-2 text-xs text-gray-700'>
+              {templatePreview}
+            </pre>
+          </div>
+        </div>
+
         {/* Settings Card */}
         <div className='rounded-lg bg-white p-6 shadow-md'>
           <h2
@@ -111,8 +854,7 @@ export default function Options(): JSX.Element {
               More settings coming soon
             </h3>
             <p className='text-xs text-gray-400'>
-              Future options: Markdown formatting preferences, clipboard
-              behavior, and more.
+              Future options: clipboard behavior and more.
             </p>
           </div>
         </div>
@@ -1,4 +1,10 @@
 import { JSX, useEffect, useState } from 'react';
+import { CHUNKED_COPY_KEY, ChunkedCopy } from '@utils/chunking';
+import { clipboardHtmlConverter } from '@utils/clipboard-html';
+import { CONVERSION_SETTING_KEYS, ConversionOptions } from '@utils/converter';
+import { dialectRegistry, OutputDialect } from '@utils/dialects';
+import { CaptureReport, captureReporter } from '@utils/report';
+import { formatTokenCount } from '@utils/token-count';
 
 // Types for component state and props
 interface PopupState {
@@ -8,6 +14,13 @@ interface PopupState {
   error: string | null;
   success: string | null;
   debugMode: boolean;
+  dialect: OutputDialect;
+}
+
+// Next part of a chunked copy still to be copied
+interface PendingPart {
+  part: number;
+  total: number;
 }
 
 interface TabInfo {
@@ -24,15 +37,41 @@ export default function Popup(): JSX.Element {
     error: null,
     success: null,
     debugMode: false,
+    dialect: 'gfm',
   });
 
   const [currentTab, setCurrentTab] = useState<TabInfo>({});
 
-  // Load debug mode from chrome.storage
+  // Fidelity report of the latest capture, from any tab
+  const [report, setReport] = useState<CaptureReport | null>(null);
+
+  useEffect(() => {
+    chrome.storage.local.get('lastCaptureReport', (result) => {
+      if (result.lastCaptureReport) setReport(result.lastCaptureReport);
+    });
+  }, []);
+
+  // Parts of a long copy left over from an earlier popup or notification
+  const [pendingPart, setPendingPart] = useState<PendingPart | null>(null);
+
+  useEffect(() => {
+    chrome.storage.session.get(CHUNKED_COPY_KEY, (result) => {
+      const chunked = result[CHUNKED_COPY_KEY] as ChunkedCopy | undefined;
+      if (chunked) {
+        setPendingPart({ part: chunked.next + 1, total: chunked.parts.length });
+      }
+    });
+  }, []);
+
+  // Load debug mode and output format from chrome.storage
   useEffect(() => {
-    chrome.storage.sync.get(['debugMode'], (result) => {
+    chrome.storage.sync.get(['debugMode', 'dialect'], (result) => {
       const debugEnabled = result.debugMode || false;
-      setState((prev) => ({ ...prev, debugMode: debugEnabled }));
+      setState((prev) => ({
+        ...prev,
+        debugMode: debugEnabled,
+        dialect: dialectRegistry.get(result.dialect).id,
+      }));
       if (debugEnabled) {
         console.log(
           '[Markdownify Debug] Debug mode loaded from storage:',
@@ -169,6 +208,10 @@ export default function Popup(): JSX.Element {
         if (response.contentSize) {
           debug(`Content size: ${response.contentSize} bytes`);
         }
+        if (response.report) {
+          debug('Conversion report:', response.report);
+          setReport(response.report);
+        }
 
         // Now send the markdown to background script to copy to clipboard
         debug('Sending copy request to background script...');
@@ -176,15 +219,31 @@ export default function Popup(): JSX.Element {
           action: isSelection ? 'copy-selection' : 'copy-full-page',
           tabId: currentTab.id,
           markdown: response.markdown,
+          html: response.html,
           metadata: response.metadata,
         });
 
-        if (copyResponse && copyResponse.success) {
+        // Size of the whole page in LLM tokens
+        const tokens = copyResponse?.tokens
+          ? ` (${formatTokenCount(copyResponse.tokens)})`
+          : '';
+
+        if (copyResponse && copyResponse.success && copyResponse.parts > 1) {
+          // Stay open so the remaining parts can be copied from here
+          setState((prev) => ({
+            ...prev,
+            isLoading: false,
+            currentAction: null,
+            success: `Copied part 1/${copyResponse.parts}${tokens}`,
+          }));
+          setPendingPart({ part: 2, total: copyResponse.parts });
+        } else if (copyResponse && copyResponse.success) {
+          setPendingPart(null);
           setState((prev) => ({
             ...prev,
             isLoading: false,
             currentAction: null,
-            success: 'Copied to clipboard!',
+            success: `Copied to clipboard!${tokens}`,
           }));
           setTimeout(() => window.close(), 1200);
         } else {
@@ -244,6 +303,7 @@ export default function Popup(): JSX.Element {
           action: 'get-selection',
         });
         debug('Selection content response:', response);
+        if (response?.report) setReport(response.report);
 
         if (response && response.success && response.markdown) {
           // Always log the markdown to console for debugging/fallback
@@ -268,6 +328,7 @@ export default function Popup(): JSX.Element {
           action: 'get-full-page',
         });
         debug('Full page content response:', response);
+        if (response?.report) setReport(response.report);
 
         if (response && response.success && response.markdown) {
           // Always log the markdown to console for debugging/fallback
@@ -307,6 +368,105 @@ export default function Popup(): JSX.Element {
     }
   };
 
+  // Copy the next part of a chunked copy, closing after the last one
+  const handleCopyNextPart = async () => {
+    debug('Copying next part');
+
+    setState((prev) => ({
+      ...prev,
+      isLoading: true,
+      currentAction: 'copy-next-part',
+      error: null,
+      success: null,
+    }));
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'copy-next-part',
+      });
+      debug('Copy next part response:', response);
+
+      if (!response?.success) {
+        throw new Error(response?.error || 'Failed to copy next part');
+      }
+
+      const { part, total } = response;
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        currentAction: null,
+        success: `Copied part ${part}/${total}`,
+      }));
+
+      if (part < total) {
+        setPendingPart({ part: part + 1, total });
+      } else {
+        setPendingPart(null);
+        setTimeout(() => window.close(), 1200);
+      }
+    } catch (error: any) {
+      console.error('Copy next part error:', error);
+      setPendingPart(null);
+
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        currentAction: null,
+        error: error.message || 'Failed to copy next part',
+      }));
+    }
+  };
+
+  // Convert HTML copied from Docs, Word or Notion here, where the popup has
+  // the focus clipboard reads need
+  const handleConvertClipboard = async () => {
+    debug('Starting clipboard conversion');
+
+    setState((prev) => ({
+      ...prev,
+      isLoading: true,
+      currentAction: 'convert-clipboard',
+      error: null,
+      success: null,
+    }));
+
+    try {
+      const settings = (await chrome.storage.sync.get([
+        ...CONVERSION_SETTING_KEYS,
+      ])) as ConversionOptions;
+      const result = await clipboardHtmlConverter.convertClipboard(settings);
+      debug('Clipboard conversion result:', result);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to convert clipboard');
+      }
+
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        currentAction: null,
+        success: 'Clipboard converted to Markdown!',
+      }));
+      setTimeout(() => window.close(), 1200);
+    } catch (error: any) {
+      console.error('Clipboard conversion error:', error);
+
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        currentAction: null,
+        error: error.message || 'Failed to convert clipboard',
+      }));
+    }
+  };
+
+  // Persist the output format; content scripts pick it up from storage
+  const handleDialectChange = (dialect: OutputDialect) => {
+    debug(`Output format changed: ${dialect}`);
+    setState((prev) => ({ ...prev, dialect }));
+    chrome.storage.sync.set({ dialect });
+  };
+
   // Check if current page is restricted
   const isRestricted =
     currentTab.url?.startsWith('chrome://') ||
@@ -436,6 +596,62 @@ export default function Popup(): JSX.Element {
       {/* Buttons */}
       {!isRestricted && (
         <div className='space-y-3'>
+          {/* Remaining parts of a chunked copy */}
+          {pendingPart && (
+            <div
+              style={{ display: 'flex', justifyContent: 'center', gap: '8px' }}
+            >
+              <button
+                type='button'
+                onClick={handleCopyNextPart}
+                disabled={state.isLoading}
+                title='Copy the next part of the long page'
+                style={{
+                  display: 'flex',
+                  flexDirection: 'column',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  gap: '4px',
+                  width: '138px',
+                  padding: '8px 4px',
+                  backgroundColor: '#16a34a',
+                  color: 'white',
+                  borderRadius: '4px',
+                  cursor: state.isLoading ? 'not-allowed' : 'pointer',
+                  opacity: state.isLoading ? 0.5 : 1,
+                  border: 'none',
+                }}
+                onMouseEnter={(e) => {
+                  if (!state.isLoading) {
+                    e.currentTarget.style.backgroundColor = '#15803d';
+                  }
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = '#16a34a';
+                }}
+              >
+                <svg
+                  style={{ width: '16px', height: '16px' }}
+                  fill='none'
+                  stroke='currentColor'
+                  viewBox='0 0 24 24'
+                >
+                  <path
+                    strokeLinecap='round'
+                    strokeLinejoin='round'
+                    strokeWidth={2}
+                    d='M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3'
+                  />
+                </svg>
+                <span style={{ fontSize: '10px', fontWeight: '500' }}>
+                  {state.isLoading && state.currentAction === 'copy-next-part'
+                    ? 'Copying'
+                    : `Copy part ${pendingPart.part}/${pendingPart.total}`}
+                </span>
+              </button>
+            </div>
+          )}
+
           {/* Selection section - always show but disable when no selection */}
           <div style={{ opacity: state.hasSelection ? 1 : 0.5 }}>
             <h2
@@ -673,6 +889,131 @@ export default function Popup(): JSX.Element {
               </button>
             </div>
           </div>
+
+          {/* Clipboard section */}
+          <div>
+            <h2
+              style={{
+                color: '#2d5f3f',
+                textAlign: 'center',
+                fontSize: '13px',
+                fontWeight: '600',
+                marginBottom: '4px',
+              }}
+            >
+              Clipboard
+            </h2>
+            <div
+              style={{ display: 'flex', justifyContent: 'center', gap: '8px' }}
+            >
+              <button
+                type='button'
+                onClick={handleConvertClipboard}
+                disabled={state.isLoading}
+                title='Convert HTML copied from Google Docs, Word or Notion to Markdown'
+                style={{
+                  display: 'flex',
+                  flexDirection: 'column',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  gap: '4px',
+                  width: '138px',
+                  padding: '8px 4px',
+                  backgroundColor: '#0d9488',
+                  color: 'white',
+                  borderRadius: '4px',
+                  cursor: state.isLoading ? 'not-allowed' : 'pointer',
+                  opacity: state.isLoading ? 0.5 : 1,
+                  border: 'none',
+                }}
+                onMouseEnter={(e) => {
+                  if (!state.isLoading) {
+                    e.currentTarget.style.backgroundColor = '#0f766e';
+                  }
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = '#0d9488';
+                }}
+              >
+                <svg
+                  style={{ width: '16px', height: '16px' }}
+                  fill='none'
+                  stroke='currentColor'
+                  viewBox='0 0 24 24'
+                >
+                  <path
+                    strokeLinecap='round'
+                    strokeLinejoin='round'
+                    strokeWidth={2}
+                    d='M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2'
+                  />
+                </svg>
+                <span style={{ fontSize: '10px', fontWeight: '500' }}>
+                  {state.isLoading &&
+                  state.currentAction === 'convert-clipboard'
+                    ? 'Converting'
+                    : 'Convert to Markdown'}
+                </span>
+              </button>
+            </div>
+          </div>
+
+          {/* Output format */}
+          <div style={{ textAlign: 'center' }}>
+            <label
+              htmlFor='dialect'
+              style={{
+                display: 'block',
+                color: '#2d5f3f',
+                fontSize: '13px',
+                fontWeight: '600',
+                marginBottom: '4px',
+              }}
+            >
+              Format
+            </label>
+            <select
+              id='dialect'
+              value={state.dialect}
+              onChange={(e) =>
+                handleDialectChange(e.target.value as OutputDialect)
+              }
+              disabled={state.isLoading}
+              style={{
+                width: '138px',
+                padding: '4px',
+                fontSize: '11px',
+                color: '#2d5f3f',
+                backgroundColor: 'white',
+                border: '1px solid #2d5f3f',
+                borderRadius: '4px',
+              }}
+            >
+              {dialectRegistry.list().map(({ id, label }) => (
+                <option key={id} value={id}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Last capture report */}
+          {report && (
+            <details
+              style={{ fontSize: '11px', color: '#2d5f3f', maxWidth: '280px' }}
+            >
+              <summary style={{ cursor: 'pointer', fontWeight: '600' }}>
+                Last capture report
+              </summary>
+              <ul style={{ marginTop: '4px', paddingLeft: '12px' }}>
+                {captureReporter.summarize(report).map((line) => (
+                  <li key={line} style={{ listStyle: 'disc' }}>
+                    {line}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
         </div>
       )}
     </div>
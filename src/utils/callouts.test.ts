@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import CalloutDetector, { calloutDetector } from './callouts';
+
+function parseElement(markup: string): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = markup;
+  return container.firstElementChild as HTMLElement;
+}
+
+describe('CalloutDetector', () => {
+  let detector: CalloutDetector;
+
+  beforeEach(() => {
+    detector = new CalloutDetector();
+  });
+
+  describe('isCallout', () => {
+    it('should detect docs site admonitions', () => {
+      const boxes = [
+        '<div class="admonition note"></div>',
+        '<div class="theme-admonition theme-admonition-tip alert alert--success"></div>',
+        '<div class="markdown-alert markdown-alert-warning"></div>',
+        '<div class="notecard warning"></div>',
+        '<div class="alert alert-info"></div>',
+        '<aside class="note"></aside>',
+        '<div role="note"></div>',
+        '<div class="callout" data-callout="example"></div>',
+      ];
+      boxes.forEach((markup) => {
+        expect(detector.isCallout(parseElement(markup))).toBe(true);
+      });
+    });
+
+    it('should ignore callout parts and ordinary boxes', () => {
+      const boxes = [
+        '<p class="admonition-title">Note</p>',
+        '<div class="callout-title"></div>',
+        '<div class="admonitionContent_BuS1"></div>',
+        '<div class="footnote"></div>',
+        '<div class="error-message"></div>',
+        '<span class="note"></span>',
+      ];
+      boxes.forEach((markup) => {
+        expect(detector.isCallout(parseElement(markup))).toBe(false);
+      });
+    });
+
+    it('should ignore boxes whose classes only contain a marker word', () => {
+      const boxes = [
+        '<div class="alert-banner"></div>',
+        '<div class="callout-card"></div>',
+        '<div class="notices-list"></div>',
+        '<div class="alert alert-primary"></div>',
+      ];
+      boxes.forEach((markup) => {
+        expect(detector.isCallout(parseElement(markup))).toBe(false);
+      });
+    });
+  });
+
+  describe('parse', () => {
+    it('should read the type from classes and drop a title naming it', () => {
+      const callout = detector.parse(
+        parseElement(
+          '<div class="admonition warning"><p class="admonition-title">Warning</p><p>Body</p></div>'
+        )
+      );
+      expect(callout.type).toBe('warning');
+      expect(callout.title).toBe('');
+      expect(callout.body.textContent).toBe('Body');
+    });
+
+    it('should keep custom titles', () => {
+      const callout = detector.parse(
+        parseElement('<aside class="tip"><h4>Pro move</h4><p>Body</p></aside>')
+      );
+      expect(callout.type).toBe('tip');
+      expect(callout.title).toBe('Pro move');
+    });
+
+    it('should read a bold label opening the body', () => {
+      const callout = detector.parse(
+        parseElement(
+          '<div role="note"><p><strong>Warning:</strong> Hot stuff</p></div>'
+        )
+      );
+      expect(callout.type).toBe('warning');
+      expect(callout.title).toBe('');
+      expect(callout.body.textContent).toBe('Hot stuff');
+    });
+
+    it('should prefer data-callout and drop dismiss buttons', () => {
+      const callout = detector.parse(
+        parseElement(
+          '<div class="alert alert-warning" data-callout="bug"><button>×</button>Broken</div>'
+        )
+      );
+      expect(callout.type).toBe('bug');
+      expect(callout.body.textContent).toBe('Broken');
+    });
+  });
+
+  describe('toAlertType', () => {
+    it('should map callout types onto the five alert types', () => {
+      expect(detector.toAlertType('info')).toBe('note');
+      expect(detector.toAlertType('success')).toBe('tip');
+      expect(detector.toAlertType('important')).toBe('important');
+      expect(detector.toAlertType('question')).toBe('warning');
+      expect(detector.toAlertType('danger')).toBe('caution');
+    });
+  });
+
+  describe('Singleton instance', () => {
+    it('should export a singleton instance', () => {
+      expect(calloutDetector).toBeInstanceOf(CalloutDetector);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+// Admonition and callout detection for Chrome Markdownify extension
+
+/**
+ * The five alert types GitHub, AsciiDoc and most docs tools share
+ */
+export type AlertType = 'note' | 'tip' | 'important' | 'warning' | 'caution';
+
+export interface Callout {
+  // Obsidian-style type, e.g. note, tip, warning, danger or example
+  type: string;
+  // Explicit title, or '' when the box only repeats its type
+  title: string;
+  // Copy of the box without its title, ready to convert
+  body: HTMLElement;
+}
+
+// Callout types, keyed by the class names and labels sites use for them
+const CALLOUT_TYPES: Record<string, string> = {
+  note: 'note',
+  seealso: 'note',
+  info: 'info',
+  abstract: 'abstract',
+  tldr: 'abstract',
+  tip: 'tip',
+  hint: 'tip',
+  important: 'important',
+  warning: 'warning',
+  warn: 'warning',
+  attention: 'warning',
+  caution: 'caution',
+  danger: 'danger',
+  error: 'danger',
+  failure: 'failure',
+  bug: 'bug',
+  example: 'example',
+  question: 'question',
+  faq: 'question',
+  quote: 'quote',
+  success: 'success',
+  todo: 'todo',
+};
+
+// Classes that mark a box as a callout (MkDocs and Sphinx .admonition,
+// Docusaurus .theme-admonition, GitHub .markdown-alert, Obsidian .callout,
+// MDN .notecard, Hugo .notices)
+const MARKER_CLASSES = [
+  'admonition',
+  'theme-admonition',
+  'markdown-alert',
+  'callout',
+  'notecard',
+  'notices',
+];
+
+// Bootstrap's .alert only marks a callout alongside a type modifier such
+// as .alert-info or Docusaurus' .alert--success
+const ALERT_MODIFIER = /^alert-{1,2}([a-z]+)$/;
+
+// Types specific enough to mark a box on their own, as in aside.note or
+// div.warning
+const STANDALONE_TYPES = [
+  'note',
+  'tip',
+  'hint',
+  'important',
+  'warning',
+  'caution',
+  'danger',
+  'attention',
+  'seealso',
+];
+
+// Class name parts of a callout's inner elements rather than the box
+const PART_CLASSES = ['title', 'heading', 'header', 'content', 'body', 'icon'];
+
+const CONTAINER_TAGS = ['DIV', 'ASIDE', 'SECTION'];
+
+// Which of the five alert types each callout type falls under
+const ALERT_TYPES: Record<string, AlertType> = {
+  tip: 'tip',
+  success: 'tip',
+  important: 'important',
+  warning: 'warning',
+  question: 'warning',
+  caution: 'caution',
+  danger: 'caution',
+  failure: 'caution',
+  bug: 'caution',
+};
+
+/**
+ * Detect note/warning boxes rendered by docs sites and split them into a
+ * type, a title and a body
+ */
+class CalloutDetector {
+  /**
+   * Whether an element is a callout box
+   */
+  public isCallout(element: Element): boolean {
+    if (!CONTAINER_TAGS.includes(element.nodeName)) return false;
+    if (element.hasAttribute('data-callout')) return true;
+
+    const classes = this.getClasses(element);
+    const parts = classes.flatMap((cls) => cls.split(/[_-]+/));
+    if (parts.some((part) => PART_CLASSES.includes(part))) return false;
+
+    return (
+      classes.some((cls) => MARKER_CLASSES.includes(cls)) ||
+      this.isTypedAlert(classes) ||
+      classes.some((cls) => STANDALONE_TYPES.includes(cls)) ||
+      element.getAttribute('role') === 'note'
+    );
+  }
+
+  /**
+   * Split a callout box into its type, title and body
+   */
+  public parse(element: Element): Callout {
+    const body = element.cloneNode(true) as HTMLElement;
+    // Dismiss buttons on Bootstrap-style alerts
+    body.querySelectorAll('button').forEach((button) => button.remove());
+    let type = this.getType(element);
+    let title = '';
+
+    const titleElement = Array.from(body.children)[0];
+    if (titleElement && this.isTitleElement(titleElement)) {
+      title = this.normalizeText(titleElement.textContent || '');
+      titleElement.remove();
+    } else {
+      // MDN and many blogs open the body with a bold "Note:" label
+      const label = this.findLeadingLabel(body);
+      if (label) {
+        title = this.normalizeText(label.textContent || '').replace(/:$/, '');
+        this.removeLabel(label);
+      }
+    }
+
+    // A title that only names a type sets the type when the classes didn't
+    const titleType = CALLOUT_TYPES[title.toLowerCase().replace(/\s+/g, '')];
+    if (titleType) {
+      if (!this.hasClassType(element)) type = titleType;
+      if (titleType === type) title = '';
+    }
+
+    return { type, title, body };
+  }
+
+  /**
+   * Map a callout type onto the five alert types
+   */
+  public toAlertType(type: string): AlertType {
+    return ALERT_TYPES[type] || 'note';
+  }
+
+  /**
+   * Capitalized label for a type, e.g. "Warning"
+   */
+  public getLabel(type: string): string {
+    return type.charAt(0).toUpperCase() + type.slice(1);
+  }
+
+  private getType(element: Element): string {
+    const dataType = (element.getAttribute('data-callout') || '').toLowerCase();
+    if (CALLOUT_TYPES[dataType]) return CALLOUT_TYPES[dataType];
+
+    const part = this.getClasses(element)
+      .flatMap((cls) => cls.split(/[_-]+/))
+      .find((name) => CALLOUT_TYPES[name]);
+    return part ? CALLOUT_TYPES[part] : 'note';
+  }
+
+  private hasClassType(element: Element): boolean {
+    return (
+      element.hasAttribute('data-callout') ||
+      this.getClasses(element)
+        .flatMap((cls) => cls.split(/[_-]+/))
+        .some((name) => CALLOUT_TYPES[name])
+    );
+  }
+
+  private isTypedAlert(classes: string[]): boolean {
+    return (
+      classes.includes('alert') &&
+      classes.some(
+        (cls) => !!CALLOUT_TYPES[cls.match(ALERT_MODIFIER)?.[1] || '']
+      )
+    );
+  }
+
+  private getClasses(element: Element): string[] {
+    return (element.getAttribute('class') || '')
+      .toLowerCase()
+      .split(/\s+/)
+      .filter(Boolean);
+  }
+
+  private isTitleElement(element: Element): boolean {
+    if (/^H[1-6]$/.test(element.nodeName)) return true;
+    const className = (element.getAttribute('class') || '').toLowerCase();
+    return /title|heading/.test(className);
+  }
+
+  /**
+   * Find a <strong>/<b> label such as "Note:" opening the first paragraph
+   */
+  private findLeadingLabel(body: HTMLElement): Element | null {
+    const paragraph = body.firstElementChild;
+    const container = paragraph?.nodeName === 'P' ? paragraph : body;
+    const first = Array.from(container.childNodes).find(
+      (node) => node.nodeType !== Node.TEXT_NODE || node.textContent?.trim()
+    );
+    if (!first || !['STRONG', 'B'].includes(first.nodeName)) return null;
+
+    const text = this.normalizeText(first.textContent || '');
+    const next = first.nextSibling?.textContent || '';
+    const labelled = text.endsWith(':') || next.startsWith(':');
+    return labelled && text.length <= 40 ? (first as Element) : null;
+  }
+
+  private removeLabel(label: Element): void {
+    const next = label.nextSibling;
+    if (next?.nodeType === Node.TEXT_NODE) {
+      next.textContent = (next.textContent || '').replace(/^:?\s*/, '');
+    }
+    label.remove();
+  }
+
+  private normalizeText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
+
+// Export singleton instance and class
+export const calloutDetector = new CalloutDetector();
+export default CalloutDetector;
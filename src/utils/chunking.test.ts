@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import MarkdownChunker, { markdownChunker } from './chunking';
+
+const size = (text: string) => new TextEncoder().encode(text).length;
+
+describe('MarkdownChunker', () => {
+  let chunker: MarkdownChunker;
+
+  beforeEach(() => {
+    chunker = new MarkdownChunker();
+  });
+
+  describe('split', () => {
+    it('should leave content that fits alone', () => {
+      expect(chunker.split('# Title\n\nBody', 100)).toEqual([
+        '# Title\n\nBody',
+      ]);
+    });
+
+    it('should split at headings into numbered parts', () => {
+      const section = (title: string) =>
+        `## ${title}\n\n${'word '.repeat(10).trim()}`;
+      const markdown = [section('One'), section('Two'), section('Three')].join(
+        '\n\n'
+      );
+
+      const parts = chunker.split(markdown, 120);
+
+      expect(parts).toEqual([
+        `Part 1/3\n\n${section('One')}`,
+        `Part 2/3\n\n${section('Two')}`,
+        `Part 3/3\n\n${section('Three')}`,
+      ]);
+    });
+
+    it('should split long sections between paragraphs', () => {
+      const paragraph = 'a'.repeat(40);
+      const markdown = `# Title\n\n${[paragraph, paragraph, paragraph].join('\n\n')}`;
+
+      const parts = chunker.split(markdown, 100);
+
+      expect(parts).toEqual([
+        `Part 1/2\n\n# Title\n\n${paragraph}`,
+        `Part 2/2\n\n${paragraph}\n\n${paragraph}`,
+      ]);
+    });
+
+    it('should keep every part within the size limit', () => {
+      const markdown = [
+        '# Title',
+        'é'.repeat(500),
+        '```\ncode line\n\ncode line\n```',
+        'word '.repeat(200),
+      ].join('\n\n');
+
+      const parts = chunker.split(markdown, 200);
+
+      parts.forEach((part) => expect(size(part)).toBeLessThanOrEqual(200));
+      expect(
+        parts.map((part) => part.replace(/^Part \d+\/\d+\n\n/, '')).join('')
+      ).toContain('code line');
+    });
+
+    it('should fit the titled header and overlap within the size limit', () => {
+      const markdown = Array.from(
+        { length: 12 },
+        (_, index) => `## Section ${index}\n\n${'word '.repeat(12).trim()}`
+      ).join('\n\n');
+
+      const parts = chunker.split(markdown, 120, {
+        overlap: 20,
+        title: 'A page title long enough to matter',
+      });
+
+      expect(parts.length).toBeGreaterThan(1);
+      parts.forEach((part) => expect(size(part)).toBeLessThanOrEqual(120));
+    });
+
+    it('should close and reopen code blocks cut across parts', () => {
+      const code = Array.from({ length: 20 }, (_, index) => `line(${index});`);
+      const markdown = `\`\`\`js\n${code.join('\n')}\n\`\`\``;
+
+      const parts = chunker.split(markdown, 80, { headers: false });
+
+      expect(parts.length).toBeGreaterThan(1);
+      parts.forEach((part) => {
+        expect(part).toMatch(/^```js\n[^`]+\n```$/);
+        expect(size(part)).toBeLessThanOrEqual(80);
+      });
+      expect(parts.flatMap((part) => part.split('\n').slice(1, -1))).toEqual(
+        code
+      );
+    });
+
+    it('should keep fences around overlap taken from a code block', () => {
+      const code = Array.from({ length: 20 }, (_, index) => `line(${index});`);
+      const markdown = `\`\`\`js\n${code.join('\n')}\n\`\`\``;
+
+      const parts = chunker.split(markdown, 100, {
+        headers: false,
+        overlap: 30,
+      });
+
+      expect(parts.length).toBeGreaterThan(1);
+      parts.slice(1).forEach((part) => {
+        expect(part).toMatch(/^```js\n(line\(\d+\);\n)+```\n\n```js\n/);
+        expect(size(part)).toBeLessThanOrEqual(100);
+      });
+    });
+
+    it('should break overlong lines between words', () => {
+      const parts = chunker.split('word '.repeat(30).trim(), 80, {
+        headers: false,
+      });
+
+      expect(parts.length).toBeGreaterThan(1);
+      parts.forEach((part) => expect(part).toMatch(/^(word ?)+$/));
+    });
+
+    it('should leave out part headers when asked to', () => {
+      const parts = chunker.split('a'.repeat(30), 20, { headers: false });
+      expect(parts).toEqual(['a'.repeat(20), 'a'.repeat(10)]);
+    });
+  });
+
+  describe('getBlocks', () => {
+    it('should split at blank lines outside code blocks', () => {
+      expect(
+        chunker.getBlocks('Para one\nline two\n\n```\na\n\nb\n```\n\n\nEnd')
+      ).toEqual(['Para one\nline two', '```\na\n\nb\n```', 'End']);
+    });
+  });
+
+  describe('Singleton instance', () => {
+    it('should export a singleton instance', () => {
+      expect(markdownChunker).toBeInstanceOf(MarkdownChunker);
+    });
+  });
+});
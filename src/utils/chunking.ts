@@ -0,0 +1,315 @@
+// Markdown chunking for Chrome Markdownify extension
+
+export const DEFAULT_CHUNK_SIZE = 50000; // 50KB
+
+/**
+ * Parts of a long copy still waiting to be copied, kept in session storage
+ */
+export interface ChunkedCopy {
+  parts: string[];
+  next: number; // Index of the next part to copy
+  tabId: number;
+}
+
+export const CHUNKED_COPY_KEY = 'chunkedCopy';
+
+export interface ChunkOptions {
+  overlap?: number; // Size of the end of each part repeated at the start of the next
+  headers?: boolean; // Start each part with a "Part 2/5" header, on by default
+  title?: string; // Page title added to part headers
+}
+
+// Separator between the overlap repeated from a part and the next part
+const OVERLAP_SEPARATOR = '\n\n';
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING = /^ {0,3}#{1,6}\s/;
+
+const encoder = new TextEncoder();
+
+/**
+ * A fenced code block split into its fence lines and its code
+ */
+interface FencedBlock {
+  open: string; // Opening fence with its language
+  close: string;
+  code: string[];
+}
+
+/**
+ * Split long Markdown into numbered parts that each fit on the clipboard or
+ * in a context window, breaking between sections, then paragraphs, then
+ * lines and words. Sizes are in bytes unless another measure is given
+ */
+class MarkdownChunker {
+  private measure: (text: string) => number;
+
+  constructor(measure?: (text: string) => number) {
+    this.measure = measure || ((text) => encoder.encode(text).length);
+  }
+
+  /**
+   * Split Markdown into parts of at most maxSize, each headed with its
+   * number when there is more than one
+   */
+  public split(
+    markdown: string,
+    maxSize: number = DEFAULT_CHUNK_SIZE,
+    options: ChunkOptions = {}
+  ): string[] {
+    if (this.size(markdown) <= maxSize) return [markdown];
+
+    const { overlap = 0, headers = true, title } = options;
+    const of = title ? ` of ${title.replace(/\s+/g, ' ').slice(0, 80)}` : '';
+
+    // Room is kept for the widest header, which depends on how many parts
+    // there turn out to be
+    let digits = 0;
+    let parts: string[];
+    do {
+      digits += 1;
+      const widest = '9'.repeat(digits);
+      const reserve = headers
+        ? this.size(this.formatHeader(widest, widest, of))
+        : 0;
+      parts = this.splitParts(markdown, maxSize - reserve, overlap);
+    } while (headers && String(parts.length).length > digits);
+
+    if (!headers) return parts;
+
+    return parts.map(
+      (part, index) =>
+        `${this.formatHeader(index + 1, parts.length, of)}${part}`
+    );
+  }
+
+  /**
+   * Split Markdown into blocks separated by blank lines, keeping code
+   * blocks whole
+   */
+  public getBlocks(markdown: string): string[] {
+    const blocks: string[] = [];
+    let current: string[] = [];
+    let fence = '';
+
+    markdown.split('\n').forEach((line) => {
+      const marker = line.match(FENCE)?.[1];
+      if (marker && (!fence || marker.startsWith(fence))) {
+        fence = fence ? '' : marker;
+      }
+
+      if (!line.trim() && !fence) {
+        if (current.length) blocks.push(current.join('\n'));
+        current = [];
+      } else {
+        current.push(line);
+      }
+    });
+    if (current.length) blocks.push(current.join('\n'));
+
+    return blocks;
+  }
+
+  /**
+   * Split Markdown into parts of at most limit, including the overlap
+   * repeated from the part before
+   */
+  private splitParts(
+    markdown: string,
+    limit: number,
+    overlap: number
+  ): string[] {
+    const reserve = overlap ? overlap + this.size(OVERLAP_SEPARATOR) : 0;
+    const contentLimit = Math.max(limit - reserve, 1);
+
+    const pieces = this.getSections(markdown).flatMap((section) =>
+      this.size(section) <= contentLimit
+        ? [section]
+        : this.pack(
+            this.splitSection(section, contentLimit),
+            contentLimit,
+            '\n\n'
+          )
+    );
+    return this.pack(pieces, contentLimit, '\n\n').map((part, index, all) =>
+      index && overlap
+        ? this.join(this.getTail(all[index - 1], overlap), part)
+        : part
+    );
+  }
+
+  private formatHeader(
+    index: number | string,
+    count: number | string,
+    of: string
+  ): string {
+    return `Part ${index}/${count}${of}\n\n`;
+  }
+
+  /**
+   * Group blocks into sections that each start at a heading
+   */
+  private getSections(markdown: string): string[] {
+    const sections: string[][] = [];
+
+    this.getBlocks(markdown).forEach((block) => {
+      if (!sections.length || HEADING.test(block)) {
+        sections.push([]);
+      }
+      sections[sections.length - 1].push(block);
+    });
+
+    return sections.map((blocks) => blocks.join('\n\n'));
+  }
+
+  /**
+   * Break a section too big for one part into blocks, and blocks that are
+   * still too big into lines and then plain slices. A code block cut into
+   * pieces has its fences, language included, around each one
+   */
+  private splitSection(section: string, limit: number): string[] {
+    return this.getBlocks(section).flatMap((block) => {
+      if (this.size(block) <= limit) return [block];
+
+      const fence = this.getFence(block);
+      if (!fence) return this.packLines(block.split('\n'), limit);
+
+      return this.packLines(
+        fence.code,
+        Math.max(limit - this.getFenceSize(fence), 1)
+      ).map((code) => this.wrapFence(fence, code));
+    });
+  }
+
+  /**
+   * Join lines into pieces of at most limit, slicing lines that are too
+   * long on their own
+   */
+  private packLines(lines: string[], limit: number): string[] {
+    return this.pack(
+      lines.flatMap((line) =>
+        this.size(line) <= limit ? [line] : this.slice(line, limit)
+      ),
+      limit,
+      '\n'
+    );
+  }
+
+  /**
+   * Split a fenced code block into its fences and code, or null for any
+   * other block
+   */
+  private getFence(block: string): FencedBlock | null {
+    const lines = block.split('\n');
+    const marker = lines[0].match(FENCE)?.[1];
+    if (!marker || lines.length < 2) return null;
+
+    const closed = lines[lines.length - 1]
+      .match(FENCE)?.[1]
+      ?.startsWith(marker);
+    return {
+      open: lines[0],
+      close: closed ? lines[lines.length - 1] : marker,
+      code: lines.slice(1, closed ? -1 : undefined),
+    };
+  }
+
+  private getFenceSize({ open, close }: FencedBlock): number {
+    return this.size(`${open}\n`) + this.size(`\n${close}`);
+  }
+
+  private wrapFence({ open, close }: FencedBlock, code: string): string {
+    return `${open}\n${code}\n${close}`;
+  }
+
+  /**
+   * Get the whole blocks, or failing that lines, at the end of a part that
+   * fit within the overlap, to repeat as context at the start of the next
+   */
+  private getTail(part: string, overlap: number): string {
+    const blocks = this.getBlocks(part);
+    const last = blocks[blocks.length - 1];
+    if (this.size(last) <= overlap) {
+      return this.takeLast(blocks, overlap, '\n\n');
+    }
+
+    // Lines from the end of a code block are repeated inside its fences
+    const fence = this.getFence(last);
+    if (!fence) return this.takeLast(last.split('\n'), overlap, '\n');
+
+    const code = this.takeLast(
+      fence.code,
+      overlap - this.getFenceSize(fence),
+      '\n'
+    );
+    return code ? this.wrapFence(fence, code) : '';
+  }
+
+  /**
+   * Join as many pieces from the end as fit within limit
+   */
+  private takeLast(pieces: string[], limit: number, separator: string): string {
+    const separatorSize = this.size(separator);
+    let size = 0;
+    let start = pieces.length;
+    while (start > 0) {
+      const next =
+        this.size(pieces[start - 1]) +
+        (start < pieces.length ? separatorSize : 0);
+      if (size + next > limit) break;
+      start -= 1;
+      size += next;
+    }
+
+    return pieces.slice(start).join(separator);
+  }
+
+  private join(tail: string, part: string): string {
+    return tail ? `${tail}${OVERLAP_SEPARATOR}${part}` : part;
+  }
+
+  /**
+   * Join pieces in order into as few parts as fit within the limit. Sizes
+   * are added up piece by piece, so token measures stay quick on long pages
+   */
+  private pack(pieces: string[], limit: number, separator: string): string[] {
+    const separatorSize = separator ? this.size(separator) : 0;
+    const parts: string[] = [];
+    let current = '';
+    let currentSize = 0;
+
+    pieces.forEach((piece) => {
+      const pieceSize = this.size(piece);
+      if (current && currentSize + separatorSize + pieceSize <= limit) {
+        current = `${current}${separator}${piece}`;
+        currentSize += separatorSize + pieceSize;
+      } else {
+        if (current) parts.push(current);
+        current = piece;
+        currentSize = pieceSize;
+      }
+    });
+    if (current) parts.push(current);
+
+    return parts;
+  }
+
+  /**
+   * Cut a line into slices of at most limit, between words where possible
+   * and between characters otherwise
+   */
+  private slice(text: string, limit: number): string[] {
+    const words = (text.match(/\S+\s*|\s+/g) || []).flatMap((word) =>
+      this.size(word) <= limit ? [word] : Array.from(word)
+    );
+    return this.pack(words, limit, '');
+  }
+
+  private size(text: string): number {
+    return this.measure(text);
+  }
+}
+
+// Export singleton instance and class
+export const markdownChunker = new MarkdownChunker();
+export default MarkdownChunker;
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { clipboard } from './clipboard';
+import ClipboardHtmlConverter, {
+  clipboardHtmlConverter,
+} from './clipboard-html';
+
+describe('ClipboardHtmlConverter', () => {
+  let htmlConverter: ClipboardHtmlConverter;
+
+  beforeEach(() => {
+    htmlConverter = new ClipboardHtmlConverter();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('clean', () => {
+    it('should unwrap the Google Docs guid wrapper', () => {
+      const html =
+        '<meta charset="utf-8"><b style="font-weight:normal;" id="docs-internal-guid-1234"><p dir="ltr"><span style="font-weight:400">Text</span></p></b>';
+      expect(htmlConverter.clean(html)).toBe(
+        '<p dir="ltr"><span>Text</span></p>'
+      );
+    });
+
+    it('should turn Google Docs styled spans into semantic tags', () => {
+      const html =
+        '<p><span style="font-weight:700;font-style:italic">both</span> <span style="text-decoration:line-through">gone</span> <span style="font-family:\'Courier New\',monospace">code</span></p>';
+      expect(htmlConverter.clean(html)).toBe(
+        '<p><span><em><strong>both</strong></em></span> <span><del>gone</del></span> <span><code>code</code></span></p>'
+      );
+    });
+
+    it('should not embolden text in headings', () => {
+      expect(
+        htmlConverter.clean(
+          '<h2><span style="font-weight:700">Heading</span></h2>'
+        )
+      ).toBe('<h2><span>Heading</span></h2>');
+    });
+
+    it('should strip Word styles, classes and namespaced elements', () => {
+      const html =
+        '<!--StartFragment--><p class="MsoNormal" style="mso-margin-top-alt:auto">Word text<o:p></o:p></p><!--EndFragment-->';
+      expect(htmlConverter.clean(html)).toBe('<p>Word text</p>');
+    });
+
+    it('should rebuild Word list paragraphs as nested lists', () => {
+      const item = (level: number, marker: string, text: string) =>
+        `<p class="MsoListParagraph" style="mso-list:l0 level${level} lfo1"><!--[if !supportLists]--><span style="mso-list:Ignore">${marker}<span style="font:7.0pt">&nbsp;</span></span><!--[endif]-->${text}</p>`;
+      const html = [
+        item(1, '1.', 'First'),
+        item(2, '·', 'Nested'),
+        item(1, '2.', 'Second'),
+        '<p class="MsoNormal">After</p>',
+      ].join('');
+
+      expect(htmlConverter.clean(html)).toBe(
+        '<ol><li>First<ul><li>Nested</li></ul></li><li>Second</li></ol><p>After</p>'
+      );
+    });
+  });
+
+  describe('convertClipboard', () => {
+    it('should write the Markdown of the clipboard HTML back', async () => {
+      vi.spyOn(clipboard, 'readHtml').mockResolvedValue(
+        '<b id="docs-internal-guid-1"><p><span style="font-weight:700">Bold</span> move</p></b>'
+      );
+      const write = vi.spyOn(clipboard, 'writeToClipboard').mockResolvedValue({
+        success: true,
+        method: 'clipboard',
+        finalSize: 13,
+      });
+
+      const result = await htmlConverter.convertClipboard();
+
+      expect(write).toHaveBeenCalledWith('**Bold** move', undefined, {
+        chunkSize: Infinity,
+      });
+      expect(result).toEqual({
+        success: true,
+        markdown: '**Bold** move',
+        contentSize: 13,
+      });
+    });
+
+    it('should fail when the clipboard holds no HTML', async () => {
+      vi.spyOn(clipboard, 'readHtml').mockResolvedValue(null);
+      const write = vi.spyOn(clipboard, 'writeToClipboard');
+
+      const result = await htmlConverter.convertClipboard();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('no formatted content');
+      expect(write).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Singleton instance', () => {
+    it('should export a singleton instance', () => {
+      expect(clipboardHtmlConverter).toBeInstanceOf(ClipboardHtmlConverter);
+    });
+  });
+});
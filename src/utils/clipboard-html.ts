@@ -0,0 +1,179 @@
+// Clipboard HTML conversion for Chrome Markdownify extension
+
+import { clipboard } from './clipboard';
+import { ConversionOptions, converter } from './converter';
+
+export interface ClipboardConversionResult {
+  success: boolean;
+  markdown?: string;
+  contentSize?: number;
+  error?: string;
+}
+
+// Inline styles that editors use in place of semantic tags. Google Docs
+// marks everything up this way; Word and Notion do for some runs
+const STYLE_TAGS: Array<[RegExp, string]> = [
+  [/font-weight\s*:\s*(?:bold|[6-9]00)/i, 'strong'],
+  [/font-style\s*:\s*italic/i, 'em'],
+  [/text-decoration[^;]*line-through/i, 'del'],
+  [/vertical-align\s*:\s*super/i, 'sup'],
+  [/vertical-align\s*:\s*sub\b/i, 'sub'],
+  [/font-family\s*:[^;]*(?:courier|consolas|monaco|menlo|mono)/i, 'code'],
+];
+
+// Elements that come along with copied content but never carry any
+const NOISE_SELECTOR =
+  'meta, style, title, link, script, xml, br.Apple-interchange-newline';
+
+// Word list paragraphs name their list and nesting level in a style
+const WORD_LIST = /mso-list\s*:\s*l\d+\s+level(\d+)/i;
+const WORD_LIST_MARKER = /mso-list\s*:\s*ignore/i;
+
+/**
+ * Convert formatted content copied from Google Docs, Word or Notion, which
+ * sits on the clipboard as text/html, to Markdown
+ */
+class ClipboardHtmlConverter {
+  /**
+   * Replace the HTML on the clipboard with its Markdown conversion
+   */
+  public async convertClipboard(
+    options: ConversionOptions = {}
+  ): Promise<ClipboardConversionResult> {
+    const html = await clipboard.readHtml();
+    if (!html) {
+      return {
+        success: false,
+        error: 'The clipboard has no formatted content to convert',
+      };
+    }
+
+    const markdown = converter.convert(this.clean(html), options);
+    // The HTML came off the clipboard, so its Markdown fits back on whole
+    const result = await clipboard.writeToClipboard(markdown, undefined, {
+      chunkSize: Infinity,
+    });
+
+    return result.success
+      ? { success: true, markdown, contentSize: result.finalSize }
+      : { success: false, error: result.error };
+  }
+
+  /**
+   * Strip editor-specific markup, turning styled runs into semantic tags
+   */
+  public clean(html: string): string {
+    const { body } = new DOMParser().parseFromString(html, 'text/html');
+
+    this.removeNoise(body);
+    // Google Docs wraps the whole fragment in a non-bold <b>
+    body
+      .querySelectorAll('b[id^="docs-internal-guid"]')
+      .forEach((wrapper) => this.unwrap(wrapper));
+    this.convertWordLists(body);
+    this.applyInlineStyles(body);
+
+    body.querySelectorAll('[style], [class]').forEach((element) => {
+      element.removeAttribute('style');
+      if (/\bMso/.test(element.getAttribute('class') || '')) {
+        element.removeAttribute('class');
+      }
+    });
+
+    return body.innerHTML;
+  }
+
+  private removeNoise(body: HTMLElement): void {
+    body.querySelectorAll(NOISE_SELECTOR).forEach((element) => {
+      element.remove();
+    });
+
+    // Office namespaced elements such as <o:p> keep only their content
+    Array.from(body.querySelectorAll('*'))
+      .filter((element) => element.nodeName.includes(':'))
+      .forEach((element) => this.unwrap(element));
+
+    // Fragment markers and Word's conditional comments
+    const walker = body.ownerDocument.createTreeWalker(
+      body,
+      NodeFilter.SHOW_COMMENT
+    );
+    const comments: Node[] = [];
+    while (walker.nextNode()) comments.push(walker.currentNode);
+    comments.forEach((comment) => comment.parentNode?.removeChild(comment));
+  }
+
+  /**
+   * Rebuild Word's list paragraphs, which carry their bullet or number as
+   * text, as nested lists
+   */
+  private convertWordLists(body: HTMLElement): void {
+    const { ownerDocument } = body;
+    let stack: Array<{ list: Element; level: number }> = [];
+
+    body.querySelectorAll('p').forEach((paragraph) => {
+      const level = Number(
+        (paragraph.getAttribute('style') || '').match(WORD_LIST)?.[1]
+      );
+      if (!level) return;
+
+      // A list continues only while its paragraphs follow one another
+      if (stack.length && paragraph.previousElementSibling !== stack[0].list) {
+        stack = [];
+      }
+
+      const marker = Array.from(paragraph.querySelectorAll('span')).find(
+        (span) => WORD_LIST_MARKER.test(span.getAttribute('style') || '')
+      );
+      const ordered = /^\s*\w{1,4}[.)]/.test(marker?.textContent || '');
+      marker?.remove();
+
+      while (stack.length && stack[stack.length - 1].level > level) {
+        stack.pop();
+      }
+      let current = stack[stack.length - 1];
+      if (!current || current.level < level) {
+        const list = ownerDocument.createElement(ordered ? 'ol' : 'ul');
+        if (current) {
+          (current.list.lastElementChild || current.list).append(list);
+        } else {
+          paragraph.before(list);
+        }
+        current = { list, level };
+        stack.push(current);
+      }
+
+      const item = ownerDocument.createElement('li');
+      item.append(...Array.from(paragraph.childNodes));
+      current.list.append(item);
+      paragraph.remove();
+    });
+  }
+
+  /**
+   * Wrap the content of styled spans in the tags their styles stand for
+   */
+  private applyInlineStyles(body: HTMLElement): void {
+    body.querySelectorAll('span[style]').forEach((span) => {
+      const style = span.getAttribute('style') || '';
+      if (!span.textContent?.trim()) return;
+
+      // Headings are bold already
+      const inHeading = !!span.closest('h1, h2, h3, h4, h5, h6');
+      STYLE_TAGS.forEach(([pattern, tag]) => {
+        if (!pattern.test(style) || (tag === 'strong' && inHeading)) return;
+        const wrapper = body.ownerDocument.createElement(tag);
+        wrapper.append(...Array.from(span.childNodes));
+        span.append(wrapper);
+      });
+    });
+  }
+
+  private unwrap(element: Element): void {
+    element.replaceWith(...Array.from(element.childNodes));
+  }
+}
+
+// Export singleton instance and class
+export const clipboardHtmlConverter = new ClipboardHtmlConverter();
+export default ClipboardHtmlConverter;
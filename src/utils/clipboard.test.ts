@@ -118,10 +118,10 @@ describe('ClipboardUtil', () => {
       expect(mockChrome.downloads.download).toHaveBeenCalled();
     });
 
-    it('should truncate large content when within limits', async () => {
+    it('should split large content into parts when within limits', async () => {
       const largeContent = 'a'.repeat(60000); // 60KB content
       const options = {
-        truncateAt: 50000,
+        chunkSize: 50000,
         maxSize: 1000000,
         useDownloadFallback: false,
       };
@@ -135,14 +135,20 @@ describe('ClipboardUtil', () => {
       );
 
       expect(result.success).toBe(true);
-      expect(result.method).toBe('truncated');
+      expect(result.method).toBe('chunked');
       expect(result.originalSize).toBe(60000);
       expect(result.finalSize).toBeLessThan(60000);
-      expect(mockClipboard.writeText).toHaveBeenCalled();
-
-      // Check that the content was truncated
-      const truncatedContent = mockClipboard.writeText.mock.calls[0][0];
-      expect(truncatedContent).toContain('content truncated due to size');
+      expect(result.parts).toHaveLength(2);
+
+      // Check that the first part was copied without losing content
+      const copiedContent = mockClipboard.writeText.mock.calls[0][0];
+      expect(copiedContent).toBe(result.parts?.[0]);
+      expect(copiedContent.startsWith('Part 1/2\n\n')).toBe(true);
+      expect(
+        result.parts
+          ?.map((part) => part.replace(/^Part \d\/2\n\n/, ''))
+          .join('')
+      ).toBe(largeContent);
     });
 
     it('should offer download for very large content', async () => {
@@ -335,6 +341,71 @@ describe('ClipboardUtil', () => {
     });
   });
 
+  describe('readHtml', () => {
+    it('should read the HTML flavor of the clipboard', async () => {
+      (global.navigator.clipboard as any).read = vi.fn().mockResolvedValueOnce([
+        {
+          types: ['text/plain', 'text/html'],
+          getType: vi
+            .fn()
+            .mockResolvedValueOnce({ text: async () => '<b>Bold</b>' }),
+        },
+      ]);
+
+      expect(await clipboardUtil.readHtml()).toBe('<b>Bold</b>');
+    });
+
+    it('should return null when the clipboard holds only text', async () => {
+      (global.navigator.clipboard as any).read = vi
+        .fn()
+        .mockResolvedValueOnce([{ types: ['text/plain'], getType: vi.fn() }]);
+
+      expect(await clipboardUtil.readHtml()).toBeNull();
+    });
+
+    // An editable element whose paste event carries the given flavors
+    function mockPasteTarget(flavors: Record<string, string>) {
+      let onPaste: (event: any) => void = () => {};
+      const mockTarget = {
+        contentEditable: '',
+        style: { position: '', left: '', top: '' },
+        focus: vi.fn(),
+        addEventListener: vi.fn((_type, listener) => {
+          onPaste = listener;
+        }),
+      };
+
+      mockDocument.createElement.mockReturnValueOnce(mockTarget);
+      mockDocument.execCommand.mockImplementationOnce(() => {
+        onPaste({
+          clipboardData: { getData: (type: string) => flavors[type] || '' },
+          preventDefault: vi.fn(),
+        });
+        return true;
+      });
+      return mockTarget;
+    }
+
+    it('should paste into an editable element when read is unavailable', async () => {
+      delete (global.navigator as any).clipboard;
+      const mockTarget = mockPasteTarget({
+        'text/plain': 'Pasted',
+        'text/html': '<i>Pasted</i>',
+      });
+
+      expect(await clipboardUtil.readHtml()).toBe('<i>Pasted</i>');
+      expect(mockDocument.execCommand).toHaveBeenCalledWith('paste');
+      expect(mockDocument.body.removeChild).toHaveBeenCalledWith(mockTarget);
+    });
+
+    it('should return null when the pasted clipboard holds only text', async () => {
+      delete (global.navigator as any).clipboard;
+      mockPasteTarget({ 'text/plain': '<b>not markup</b>' });
+
+      expect(await clipboardUtil.readHtml()).toBeNull();
+    });
+  });
+
   describe('fallback clipboard methods', () => {
     it('should use fallback copy when Clipboard API not available', async () => {
       const content = 'Test content';
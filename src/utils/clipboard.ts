@@ -1,5 +1,7 @@
 // Clipboard utility for Chrome Markdownify extension
 
+import { DEFAULT_CHUNK_SIZE, markdownChunker } from './chunking';
+
 export interface ClipboardMetadata {
   title: string;
   url: string;
@@ -8,14 +10,15 @@ export interface ClipboardMetadata {
 
 export interface ClipboardOptions {
   maxSize?: number; // Maximum size in bytes before triggering file download
-  truncateAt?: number; // Size to truncate content at if too large
+  chunkSize?: number; // Size to split content into numbered parts at
   useDownloadFallback?: boolean; // Whether to offer download as fallback
 }
 
 export interface ClipboardResult {
   success: boolean;
-  method: 'clipboard' | 'download' | 'truncated';
+  method: 'clipboard' | 'download' | 'chunked';
   error?: string;
+  parts?: string[]; // All parts of chunked content, the first one copied
   filename?: string;
   originalSize?: number;
   finalSize?: number;
@@ -24,7 +27,7 @@ export interface ClipboardResult {
 // Default configuration
 const DEFAULT_OPTIONS: Required<ClipboardOptions> = {
   maxSize: 1048576, // 1MB
-  truncateAt: 50000, // 50KB
+  chunkSize: DEFAULT_CHUNK_SIZE,
   useDownloadFallback: true,
 };
 
@@ -66,7 +69,7 @@ class ClipboardUtil {
       }
 
       // Try to write to clipboard directly
-      if (originalSize <= config.truncateAt) {
+      if (originalSize <= config.chunkSize) {
         await this.writeDirectToClipboard(content);
 
         return {
@@ -76,15 +79,16 @@ class ClipboardUtil {
           finalSize: originalSize,
         };
       }
-      // Truncate content if it's too large but not worth downloading
-      const truncatedContent = this.truncateContent(content, config.truncateAt);
-      await this.writeDirectToClipboard(truncatedContent);
+      // Split content too large to paste comfortably into numbered parts
+      const parts = markdownChunker.split(content, config.chunkSize);
+      await this.writeDirectToClipboard(parts[0]);
 
       return {
         success: true,
-        method: 'truncated',
+        method: 'chunked',
+        parts,
         originalSize,
-        finalSize: this.calculateSize(truncatedContent),
+        finalSize: this.calculateSize(parts[0]),
       };
     } catch (error) {
       console.error('Clipboard utility: Error writing to clipboard:', error);
@@ -135,6 +139,56 @@ class ClipboardUtil {
     }
   }
 
+  /**
+   * Read HTML from the clipboard, or null when it only holds plain text
+   */
+  async readHtml(): Promise<string | null> {
+    if (typeof navigator !== 'undefined' && navigator.clipboard?.read) {
+      try {
+        const items = await navigator.clipboard.read();
+        const item = items.find(({ types }) => types.includes('text/html'));
+        return item ? await (await item.getType('text/html')).text() : null;
+      } catch (error) {
+        console.warn(
+          'Clipboard utility: Cannot read clipboard, trying paste fallback:',
+          error
+        );
+      }
+    }
+
+    return this.fallbackReadHtml();
+  }
+
+  /**
+   * Fallback clipboard read pasting into a hidden editable element
+   */
+  private fallbackReadHtml(): string | null {
+    const target = document.createElement('div');
+    target.contentEditable = 'true';
+    target.style.position = 'fixed';
+    target.style.left = '-999999px';
+    target.style.top = '-999999px';
+
+    // Read the HTML flavor off the paste event; the element's own markup
+    // would be escaped plain text when the clipboard has no HTML
+    let html = '';
+    target.addEventListener('paste', (event) => {
+      html =
+        (event as ClipboardEvent).clipboardData?.getData('text/html') || '';
+      event.preventDefault();
+    });
+
+    document.body.appendChild(target);
+    target.focus();
+
+    try {
+      const pasted = document.execCommand('paste');
+      return pasted && html ? html : null;
+    } finally {
+      document.body.removeChild(target);
+    }
+  }
+
   /**
    * Fallback clipboard method using document.execCommand (deprecated but still works)
    */
@@ -238,25 +292,6 @@ class ClipboardUtil {
     return `${sanitized}_${timestamp}.${extension}`;
   }
 
-  /**
-   * Truncate content to specified size with a nice message
-   */
-  private truncateContent(content: string, maxSize: number): string {
-    if (content.length <= maxSize) {
-      return content;
-    }
-
-    const truncationMessage =
-      '\n\n... (content truncated due to size limitations)';
-    const availableSpace = maxSize - truncationMessage.length;
-
-    if (availableSpace <= 0) {
-      return truncationMessage;
-    }
-
-    return content.substring(0, availableSpace) + truncationMessage;
-  }
-
   /**
    * Calculate content size in bytes
    */
@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import CodeLanguageDetector, { codeLanguageDetector } from './code-language';
+
+function parsePre(markup: string): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = markup;
+  return container.querySelector('pre') as HTMLElement;
+}
+
+describe('CodeLanguageDetector', () => {
+  let detector: CodeLanguageDetector;
+
+  beforeEach(() => {
+    detector = new CodeLanguageDetector();
+  });
+
+  describe('fromClassName', () => {
+    it('should read language- and lang- prefixes', () => {
+      expect(detector.fromClassName('language-python')).toBe('python');
+      expect(detector.fromClassName('prettyprint lang-js')).toBe('js');
+    });
+
+    it('should keep languages with symbols in their names', () => {
+      expect(detector.fromClassName('language-c++')).toBe('cpp');
+      expect(detector.fromClassName('language-objective-c')).toBe('objectivec');
+      expect(detector.fromClassName('language-c#')).toBe('csharp');
+    });
+
+    it('should read highlight.js and Pandoc bare names', () => {
+      expect(detector.fromClassName('hljs ruby')).toBe('ruby');
+      expect(detector.fromClassName('sourceCode haskell')).toBe('haskell');
+    });
+
+    it('should read SyntaxHighlighter brushes', () => {
+      expect(detector.fromClassName('brush: php; toolbar: false')).toBe('php');
+    });
+
+    it('should return an empty string for nohighlight', () => {
+      expect(detector.fromClassName('hljs nohighlight')).toBe('');
+    });
+
+    it('should return null when classes say nothing', () => {
+      expect(detector.fromClassName('hljs')).toBeNull();
+      expect(detector.fromClassName('highlight notranslate')).toBeNull();
+    });
+  });
+
+  describe('detect', () => {
+    it('should prefer the code element class', () => {
+      const pre = parsePre(
+        '<pre class="language-text"><code class="language-go">x</code></pre>'
+      );
+      expect(detector.detect(pre)).toBe('go');
+    });
+
+    it('should read data attributes', () => {
+      const pre = parsePre('<pre><code data-lang="rust">x</code></pre>');
+      expect(detector.detect(pre)).toBe('rust');
+    });
+
+    it('should read GitHub and Sphinx wrappers', () => {
+      expect(
+        detector.detect(
+          parsePre(
+            '<div class="highlight highlight-source-js"><pre>x</pre></div>'
+          )
+        )
+      ).toBe('js');
+      expect(
+        detector.detect(
+          parsePre(
+            '<div class="highlight-python notranslate"><div class="highlight"><pre>x</pre></div></div>'
+          )
+        )
+      ).toBe('python');
+    });
+
+    it('should fall back to the content heuristic', () => {
+      const pre = parsePre(
+        '<pre>def greet(name):\n    return f"Hello {name}"</pre>'
+      );
+      expect(detector.detect(pre)).toBe('python');
+    });
+  });
+
+  describe('guessFromContent', () => {
+    it('should detect shebang interpreters', () => {
+      expect(detector.guessFromContent('#!/usr/bin/env python3\nprint()')).toBe(
+        'python'
+      );
+      expect(detector.guessFromContent('#!/bin/sh\necho hi')).toBe('bash');
+    });
+
+    it('should detect JSON', () => {
+      expect(detector.guessFromContent('{\n  "a": 1\n}')).toBe('json');
+    });
+
+    it('should detect common languages', () => {
+      expect(
+        detector.guessFromContent('#include <stdio.h>\nint main() {}')
+      ).toBe('c');
+      expect(detector.guessFromContent('package main\n\nfunc main() {}')).toBe(
+        'go'
+      );
+      expect(
+        detector.guessFromContent('SELECT id\nFROM users WHERE id = 1')
+      ).toBe('sql');
+      expect(detector.guessFromContent('const a = 1;\nconsole.log(a);')).toBe(
+        'javascript'
+      );
+    });
+
+    it('should detect unified diffs', () => {
+      expect(detector.guessFromContent('@@ -1,2 +1,2 @@\n-old\n+new')).toBe(
+        'diff'
+      );
+    });
+
+    it('should not guess for one-liners', () => {
+      expect(detector.guessFromContent('const x = 5;')).toBe('');
+    });
+  });
+
+  it('should export a working singleton instance', () => {
+    expect(codeLanguageDetector.normalize('C++')).toBe('cpp');
+  });
+});
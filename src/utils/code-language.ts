@@ -0,0 +1,225 @@
+// Code block language detection for Chrome Markdownify extension
+
+// Class prefixes used by highlighters to mark the language
+// (Prism/markdown-it, Google Prettify, GitHub, Rouge/Pygments, SyntaxHighlighter)
+const CLASS_PATTERNS = [
+  /^language-(.+)$/,
+  /^lang-(.+)$/,
+  /^highlight-source-(.+)$/,
+  /^highlight-(.+)$/,
+  /^brush:(.+)$/,
+];
+
+// Class names that accompany code blocks but never name a language
+const NON_LANGUAGE_CLASSES = [
+  'hljs',
+  'highlight',
+  'highlighter-rouge',
+  'prettyprint',
+  'prettyprinted',
+  'sourcecode',
+  'notranslate',
+  'linenums',
+  'line-numbers',
+  'code',
+  'codehilite',
+  'syntax',
+  'chroma',
+  'shiki',
+  'wrap',
+  'nowrap',
+  'default',
+];
+
+// Class names that mark a block as deliberately unhighlighted
+const NO_LANGUAGE = ['none', 'nohighlight', 'no-highlight', 'plain'];
+
+// Data attributes that carry the language on code blocks or their wrappers
+const DATA_ATTRIBUTES = ['data-lang', 'data-language', 'data-code-language'];
+
+// Canonical fence names for languages spelled with symbols
+const ALIASES: Record<string, string> = {
+  'c++': 'cpp',
+  'c#': 'csharp',
+  'f#': 'fsharp',
+  'objective-c': 'objectivec',
+  'objective-c++': 'objectivecpp',
+  'obj-c': 'objectivec',
+};
+
+// Interpreters named in shebang lines and the language they run
+const INTERPRETERS: Record<string, string> = {
+  python: 'python',
+  python3: 'python',
+  node: 'javascript',
+  bash: 'bash',
+  sh: 'bash',
+  zsh: 'bash',
+  ruby: 'ruby',
+  perl: 'perl',
+};
+
+// Content heuristics, checked in order; the first match wins
+const CONTENT_HEURISTICS: Array<[string, RegExp]> = [
+  ['diff', /^(@@ -\d+(,\d+)? \+\d+(,\d+)? @@|--- \S.*\n\+\+\+ \S)/m],
+  ['php', /^<\?php/],
+  ['html', /^\s*<(!doctype html|html|head|body|div|span|p|a)[\s>]/i],
+  ['xml', /^\s*<\?xml/],
+  ['cpp', /^\s*#include\s*<\w+(\.h)?>[\s\S]*\b(std::|cout|namespace)/m],
+  ['c', /^\s*#include\s*[<"]/m],
+  ['go', /^\s*package\s+\w+[\s\S]*\bfunc\s/m],
+  ['rust', /\bfn\s+\w+\s*\([\s\S]*?\)\s*(->\s*[\w<>]+\s*)?\{|\blet\s+mut\s/],
+  ['java', /\bpublic\s+(static\s+)?(class|void)\s|System\.out\.print/],
+  [
+    'python',
+    /^\s*(def\s+\w+\s*\(.*\)\s*:|from\s+[\w.]+\s+import\s|import\s+\w+\s*$|class\s+\w+(\(.*\))?\s*:)/m,
+  ],
+  [
+    'typescript',
+    /\b(interface|type)\s+\w+\s*[={]|:\s*(string|number|boolean)\b/,
+  ],
+  [
+    'javascript',
+    /\b(const|let|var)\s+\w+\s*=|\bfunction\s*\w*\s*\(|=>\s*[{(]|console\.log\(/,
+  ],
+  [
+    'sql',
+    /^\s*(SELECT\s[\s\S]+\sFROM|INSERT\s+INTO|UPDATE\s+\w+\s+SET|CREATE\s+TABLE)\b/i,
+  ],
+  [
+    'bash',
+    /^\s*(\$\s+)?(sudo\s+)?(apt(-get)?|npm|pnpm|yarn|pip3?|git|cd|ls|echo|export|curl|brew|docker)\s/m,
+  ],
+  ['css', /^\s*[.#]?[\w-]+(\s*[\w-.#:]+)*\s*\{\s*[\w-]+\s*:\s*[^;]+;/m],
+  ['yaml', /^(\s*[\w-]+:\s+\S.*\n){2,}/m],
+];
+
+/**
+ * Detect the language of <pre>/<code> blocks from class names, data
+ * attributes, ancestor wrappers and, as a last resort, the code itself
+ */
+class CodeLanguageDetector {
+  /**
+   * Detect the language of a <pre> block (or the <code> inside it); the
+   * content heuristic runs on `code`, defaulting to the block's text
+   */
+  public detect(pre: Element, code: string = pre.textContent || ''): string {
+    const codeElement = pre.querySelector('code');
+    const candidates = [codeElement, pre].filter(Boolean) as Element[];
+
+    for (const element of candidates) {
+      const language =
+        this.fromDataAttributes(element) ??
+        this.fromClassName(element.getAttribute('class') || '');
+      if (language !== null) return language;
+    }
+
+    // Wrappers such as GitHub's div.highlight-source-js or Sphinx's
+    // div.highlight-python carry the language a few levels up
+    let ancestor = pre.parentElement;
+    for (let depth = 0; ancestor && depth < 3; depth++) {
+      const language =
+        this.fromDataAttributes(ancestor) ??
+        this.fromClassName(ancestor.getAttribute('class') || '', false);
+      if (language !== null) return language;
+      ancestor = ancestor.parentElement;
+    }
+
+    return this.guessFromContent(code);
+  }
+
+  /**
+   * Extract a language from a class attribute; returns null when the
+   * classes say nothing about the language, '' when they disable it
+   */
+  public fromClassName(
+    className: string,
+    allowBareNames: boolean = true
+  ): string | null {
+    // SyntaxHighlighter writes "brush: js; toolbar: false"
+    const classes = className
+      .replace(/brush:\s*/g, 'brush:')
+      .split(/[\s;]+/)
+      .filter(Boolean);
+
+    for (const cls of classes) {
+      if (NO_LANGUAGE.includes(cls.toLowerCase())) return '';
+
+      for (const pattern of CLASS_PATTERNS) {
+        const match = cls.match(pattern);
+        if (match && !NON_LANGUAGE_CLASSES.includes(match[1].toLowerCase())) {
+          return this.normalize(match[1]);
+        }
+      }
+    }
+
+    // highlight.js (class="hljs python") and Pandoc (class="sourceCode
+    // python") put the bare language name next to a marker class
+    const lowered = classes.map((cls) => cls.toLowerCase());
+    if (
+      allowBareNames &&
+      (lowered.includes('hljs') || lowered.includes('sourcecode'))
+    ) {
+      const bare = lowered.find(
+        (cls) =>
+          !NON_LANGUAGE_CLASSES.includes(cls) && /^[a-z][\w+#.-]*$/.test(cls)
+      );
+      if (bare) return this.normalize(bare);
+    }
+
+    return null;
+  }
+
+  /**
+   * Guess a language from the code itself using lightweight heuristics
+   */
+  public guessFromContent(code: string): string {
+    const trimmed = code.trim();
+    if (!trimmed) return '';
+
+    const lines = trimmed.split('\n').filter((line) => line.trim());
+    const shebang = lines[0].match(/^#!\S*?(?:env\s+)?(\w+)\s*$/);
+    if (shebang && INTERPRETERS[shebang[1]]) {
+      return INTERPRETERS[shebang[1]];
+    }
+
+    // One-liners carry too little signal to guess reliably
+    if (lines.length < 2) return '';
+
+    if (/^[{[]/.test(trimmed)) {
+      try {
+        JSON.parse(trimmed);
+        return 'json';
+      } catch {
+        // Not JSON, keep looking
+      }
+    }
+
+    const match = CONTENT_HEURISTICS.find(([, pattern]) =>
+      pattern.test(trimmed)
+    );
+    return match ? match[0] : '';
+  }
+
+  /**
+   * Normalize a language name to its canonical fence info string
+   */
+  public normalize(language: string): string {
+    const lowered = language.trim().toLowerCase();
+    if (NO_LANGUAGE.includes(lowered)) return '';
+
+    return ALIASES[lowered] || lowered.replace(/[^\w+#.-]/g, '');
+  }
+
+  private fromDataAttributes(element: Element): string | null {
+    for (const attribute of DATA_ATTRIBUTES) {
+      const value = element.getAttribute(attribute);
+      if (value) return this.normalize(value);
+    }
+    return null;
+  }
+}
+
+// Export singleton instance and class
+export const codeLanguageDetector = new CodeLanguageDetector();
+export default CodeLanguageDetector;
@@ -1,6 +1,7 @@
 import { beforeEach, describe, expect, it } from 'vitest';
 
 import MarkdownConverter, { converter } from './converter';
+import { TEMPLATE_PRESETS } from './template';
 
 describe('MarkdownConverter', () => {
   let markdownConverter: MarkdownConverter;
@@ -62,6 +63,218 @@ describe('MarkdownConverter', () => {
     });
   });
 
+  describe('Inline formatting', () => {
+    it('should convert checkbox list items to task lists', () => {
+      const html = `
+        <ul class="contains-task-list">
+          <li class="task-list-item"><input type="checkbox" checked disabled> Done</li>
+          <li class="task-list-item"><input type="checkbox" disabled>Todo</li>
+        </ul>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('-   [x] Done\n-   [ ] Todo');
+    });
+
+    it('should convert strikethrough to ~~', () => {
+      const html = '<p><del>old</del> and <s>wrong</s> </p>';
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('~~old~~ and ~~wrong~~');
+    });
+
+    it('should keep highlights as HTML in GFM and use == in Obsidian', () => {
+      const html = '<p>A <mark>key</mark> point</p>';
+      expect(markdownConverter.convert(html)).toBe('A <mark>key</mark> point');
+      expect(markdownConverter.convert(html, { dialect: 'obsidian' })).toBe(
+        'A ==key== point'
+      );
+    });
+
+    it('should pass subscripts and superscripts through as HTML', () => {
+      const html = '<p>H<sub>2</sub>O and E = mc<sup>2</sup></p>';
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('H<sub>2</sub>O and E = mc<sup>2</sup>');
+    });
+
+    it('should keep keyboard keys and insertions as HTML', () => {
+      const html = '<p>Press <kbd>Ctrl</kbd>+<kbd>C</kbd> <ins>now</ins></p>';
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('Press <kbd>Ctrl</kbd>+<kbd>C</kbd> <ins>now</ins>');
+    });
+
+    it('should keep abbreviation titles', () => {
+      const html =
+        '<p><abbr title="HyperText &quot;Markup&quot;">HTML</abbr></p>';
+      const result = markdownConverter.convert(html);
+      expect(result).toBe(
+        '<abbr title="HyperText &quot;Markup&quot;">HTML</abbr>'
+      );
+    });
+
+    it('should keep strikethrough as HTML in CommonMark', () => {
+      const result = markdownConverter.convert('<p><del>old</del></p>', {
+        dialect: 'commonmark',
+      });
+      expect(result).toBe('<del>old</del>');
+    });
+
+    it('should use native syntax in other dialects', () => {
+      const html =
+        '<p>H<sub>2</sub>O x<sup>2</sup> <kbd>Esc</kbd> <abbr title="As soon as possible">ASAP</abbr></p>';
+      expect(markdownConverter.convert(html, { dialect: 'jira' })).toBe(
+        'H~2~O x^2^ {{Esc}} ASAP (As soon as possible)'
+      );
+      expect(markdownConverter.convert(html, { dialect: 'org' })).toBe(
+        'H_{2}O x^{2} =Esc= ASAP (As soon as possible)'
+      );
+    });
+  });
+
+  describe('Structural elements', () => {
+    it('should keep details as HTML with Markdown inside', () => {
+      const html =
+        '<details><summary>More <b>info</b></summary><p>Hidden text</p></details>';
+      const result = markdownConverter.convert(html);
+      expect(result).toBe(
+        '<details>\n<summary>More info</summary>\n\nHidden text\n\n</details>'
+      );
+    });
+
+    it('should keep details open when they were open', () => {
+      const html = '<details open><summary>Log</summary><p>Line</p></details>';
+      const result = markdownConverter.convert(html);
+      expect(result).toContain('<details open>');
+    });
+
+    it('should turn docs site admonitions into GitHub alerts', () => {
+      const html = `
+        <div class="admonition warning">
+          <p class="admonition-title">Warning</p>
+          <p>Back up first.</p>
+        </div>
+        <div class="notecard note"><p><strong>Note:</strong> MDN style.</p></div>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe(
+        '> [!WARNING]\n> Back up first.\n\n> [!NOTE]\n> MDN style.'
+      );
+    });
+
+    it('should keep custom admonition titles in bold', () => {
+      const html =
+        '<aside class="tip"><h4>Pro move</h4><p>Use <code>--force</code> sparingly.</p></aside>';
+      const result = markdownConverter.convert(html);
+      expect(result).toBe(
+        '> [!TIP]\n> **Pro move**\n>\n> Use `--force` sparingly.'
+      );
+    });
+
+    it('should format definition lists', () => {
+      const html = `
+        <dl>
+          <dt>HTML</dt><dt>HTM</dt><dd>Markup language</dd>
+          <dt>CSS</dt><dd><p>Style sheets</p><p>Cascading</p></dd>
+        </dl>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe(
+        '**HTML**\n**HTM**\n:   Markup language\n\n**CSS**\n:   Style sheets\n\n    Cascading'
+      );
+    });
+
+    it('should put figure captions in italics under the image', () => {
+      const html =
+        '<figure><img src="https://e.com/a.png" alt="Chart"><figcaption>Sales by <a href="https://e.com/q">quarter</a></figcaption></figure>';
+      const result = markdownConverter.convert(html);
+      expect(result).toBe(
+        '![Chart](https://e.com/a.png)\n_Sales by [quarter](https://e.com/q)_'
+      );
+    });
+
+    it('should keep emphasis inside captions', () => {
+      const html =
+        '<figure><img src="https://e.com/a.png" alt="A"><figcaption>Cap <i>x</i> and <b>y</b></figcaption></figure>';
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('![A](https://e.com/a.png)\n_Cap *x* and **y**_');
+    });
+
+    it('should use the caption as alt text when the image has none', () => {
+      const html =
+        '<figure><img src="https://e.com/a.png"><figcaption>A cat</figcaption></figure>';
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('![A cat](https://e.com/a.png)\n_A cat_');
+    });
+
+    it('should separate captions from non-image figures', () => {
+      const html =
+        '<figure><blockquote><p>Quote</p></blockquote><figcaption>Author</figcaption></figure>';
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('> Quote\n\n_Author_');
+    });
+  });
+
+  describe('Headings', () => {
+    it('should point in-page links at heading slugs', () => {
+      const html = `
+        <p>See <a href="#sec-2">setup</a> and <a href="#opts">options</a>.</p>
+        <h2 id="sec-2">Setting Up</h2>
+        <a id="opts"></a><h2>Options &amp; Flags</h2>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe(
+        'See [setup](#setting-up) and [options](#options--flags).\n\n## Setting Up\n## Options & Flags'
+      );
+    });
+
+    it('should drop permalink markers from headings', () => {
+      const html =
+        '<h2 id="usage">Usage<a class="headerlink" href="#usage">¶</a></h2>';
+      expect(markdownConverter.convert(html)).toBe('## Usage');
+    });
+
+    it('should leave heading levels alone by default', () => {
+      const html = '<h3>Title</h3><h4>Section</h4>';
+      expect(markdownConverter.convert(html)).toBe('### Title\n#### Section');
+    });
+
+    it('should normalize heading levels to a single H1', () => {
+      const html = '<h2>Title</h2><p>Intro</p><h2>Next</h2><h3>Sub</h3>';
+      const result = markdownConverter.convert(html, {
+        normalizeHeadings: true,
+      });
+      expect(result).toBe('# Title\nIntro\n\n## Next\n### Sub');
+    });
+
+    it('should insert a table of contents after the H1', () => {
+      const html =
+        '<h1>Guide</h1><p>Intro</p><h2>Install</h2><h3>From source</h3><h2>Usage</h2>';
+      const result = markdownConverter.convert(html, {
+        tableOfContents: true,
+      });
+      expect(result).toBe(
+        [
+          '# Guide',
+          '-   [Install](#install)',
+          '    -   [From source](#from-source)',
+          '-   [Usage](#usage)',
+          '',
+          'Intro',
+          '',
+          '## Install',
+          '### From source',
+          '## Usage',
+        ].join('\n')
+      );
+    });
+
+    it('should put the table of contents first when there is no H1', () => {
+      const html = '<p>Intro</p><h2>A</h2><h2>B</h2>';
+      const result = markdownConverter.convert(html, {
+        tableOfContents: true,
+      });
+      expect(result).toBe('-   [A](#a)\n-   [B](#b)\n\nIntro\n\n## A\n## B');
+    });
+  });
+
   describe('Code blocks', () => {
     it('should convert inline code', () => {
       const html = 'Use <code>console.log()</code> to debug';
@@ -81,6 +294,129 @@ describe('MarkdownConverter', () => {
       const result = markdownConverter.convert(html);
       expect(result).toBe('```\nconst x = 5;\n```');
     });
+
+    it('should detect languages from highlighter variants', () => {
+      const html =
+        '<div class="highlight highlight-source-c++"><pre>int x;</pre></div>';
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('```cpp\nint x;\n```');
+    });
+
+    it('should convert pre blocks without a code element', () => {
+      const html = '<pre data-lang="bash">npm install<br>npm test</pre>';
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('```bash\nnpm install\nnpm test\n```');
+    });
+
+    it('should find code elements that are not the first child', () => {
+      const html =
+        '<pre><span class="gutter"></span><code class="lang-ruby">puts 1\n</code></pre>';
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('```ruby\nputs 1\n```');
+    });
+
+    it('should lengthen the fence when the code contains backticks', () => {
+      const html =
+        '<pre><code class="language-markdown">```js\ncode\n```</code></pre>';
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('````markdown\n```js\ncode\n```\n````');
+    });
+  });
+
+  describe('Code block chrome', () => {
+    it('should drop the line-number column of Pygments tables', () => {
+      const html = `
+        <div class="highlight-python"><table class="highlighttable"><tr>
+          <td class="linenos"><div class="linenodiv"><pre>1\n2</pre></div></td>
+          <td class="code"><div class="highlight"><pre>x = 1\nprint(x)</pre></div></td>
+        </tr></table></div>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('```python\nx = 1\nprint(x)\n```');
+    });
+
+    it('should join one-row-per-line code tables', () => {
+      const html = `
+        <table class="highlight js-file-line-container">
+          <tr><td class="blob-num">1</td><td class="blob-code">echo one</td></tr>
+          <tr><td class="blob-num">2</td><td class="blob-code">echo two</td></tr>
+        </table>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('```bash\necho one\necho two\n```');
+    });
+
+    it('should keep code lines that are only digits', () => {
+      const html = `
+        <table class="rouge-table">
+          <tr><td class="rouge-gutter gl">1</td><td class="rouge-code">0755</td></tr>
+          <tr><td class="rouge-gutter gl">2</td><td class="rouge-code">42</td></tr>
+        </table>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('```\n0755\n42\n```');
+    });
+
+    it('should keep diff markers as a diff fence', () => {
+      const html = `
+        <table class="diff-table">
+          <tr><td class="blob-num">1</td><td class="blob-code blob-code-context">keep</td></tr>
+          <tr><td class="blob-num">2</td><td class="blob-code blob-code-deletion">old line</td></tr>
+          <tr><td class="blob-num">2</td><td class="blob-code blob-code-addition">new line</td></tr>
+        </table>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('```diff\n keep\n-old line\n+new line\n```');
+    });
+
+    it('should remove copy buttons and line-number spans', () => {
+      const html =
+        '<pre class="language-js line-numbers"><button class="copy">Copy</button><code>a();</code><span class="line-numbers-rows"><span></span></span></pre>';
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('```js\na();\n```');
+    });
+
+    it('should keep prompts unless stripPrompts is set', () => {
+      const html =
+        '<pre><code class="language-console">$ npm install\nadded 1 package</code></pre>';
+      expect(markdownConverter.convert(html)).toBe(
+        '```console\n$ npm install\nadded 1 package\n```'
+      );
+      expect(markdownConverter.convert(html, { stripPrompts: true })).toBe(
+        '```console\nnpm install\nadded 1 package\n```'
+      );
+    });
+
+    it('should not strip dollar signs or dots from other languages', () => {
+      const php = '<pre><code class="language-php">$x = 1;\n$ y</code></pre>';
+      const spread =
+        '<pre><code class="language-js">...rest,\n... more</code></pre>';
+      const sql =
+        '<pre><code class="language-sql">$$ SELECT 1 $$\n$$</code></pre>';
+
+      expect(markdownConverter.convert(php, { stripPrompts: true })).toBe(
+        '```php\n$x = 1;\n$ y\n```'
+      );
+      expect(markdownConverter.convert(spread, { stripPrompts: true })).toBe(
+        '```js\n...rest,\n... more\n```'
+      );
+      expect(markdownConverter.convert(sql, { stripPrompts: true })).toBe(
+        '```sql\n$$ SELECT 1 $$\n$$\n```'
+      );
+    });
+
+    it('should strip prompts when every line of a block has one', () => {
+      const html = '<pre><code>$ make\n$ make install</code></pre>';
+      const result = markdownConverter.convert(html, { stripPrompts: true });
+      expect(result).toBe('```\nmake\nmake install\n```');
+    });
+
+    it('should strip Python REPL prompts', () => {
+      const html =
+        '<pre><code class="language-pycon">&gt;&gt;&gt; for i in x:\n...     print(i)</code></pre>';
+      const result = markdownConverter.convert(html, { stripPrompts: true });
+      expect(result).toBe('```pycon\nfor i in x:\n    print(i)\n```');
+    });
   });
 
   describe('Tables (GFM)', () => {
@@ -109,38 +445,880 @@ describe('MarkdownConverter', () => {
       const result = markdownConverter.convert(html);
       expect(result).toContain('grep \\| sort');
     });
-  });
 
-  describe('Metadata handling', () => {
-    it('should add metadata when includeMetadata is true', () => {
-      const html = '<p>Content</p>';
-      const result = markdownConverter.convert(html, {
-        includeMetadata: true,
-        baseUrl: 'https://example.com',
-      });
-      expect(result).toContain('Source: https://example.com');
-      expect(result).toContain('Captured:');
-      expect(result).toContain('---');
-      expect(result).toContain('Content');
+    it('should keep inline formatting inside cells', () => {
+      const html = `
+        <table>
+          <tr><th>Name</th><th>Details</th></tr>
+          <tr>
+            <td><a href="https://example.com">Link</a></td>
+            <td><strong>bold</strong> and <code>code</code><br>next line</td>
+          </tr>
+        </table>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toContain(
+        '| [Link](https://example.com) | **bold** and `code`<br>next line |'
+      );
     });
 
-    it('should convert with full metadata using convertWithMetadata', () => {
-      const html = '<p>Test content</p>';
-      const result = markdownConverter.convertWithMetadata(
-        html,
-        'Test Page',
-        'https://example.com/page'
+    it('should expand colspan and rowspan into a rectangular grid', () => {
+      const html = `
+        <table>
+          <tr><th colspan="2">Name</th><th>Age</th></tr>
+          <tr><td rowspan="2">A</td><td>B</td><td>1</td></tr>
+          <tr><td>C</td><td>2</td></tr>
+        </table>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe(
+        [
+          '| Name |  | Age |',
+          '| --- | --- | --- |',
+          '| A | B | 1 |',
+          '|  | C | 2 |',
+        ].join('\n')
       );
+    });
 
-      expect(result.markdown).toContain(
-        'Source: [Test Page](https://example.com/page)'
+    it('should derive column alignment from align and text-align', () => {
+      const html = `
+        <table>
+          <tr>
+            <th align="left">L</th>
+            <th style="text-align: center">C</th>
+            <th align="right">R</th>
+            <th>N</th>
+          </tr>
+          <tr><td>1</td><td>2</td><td>3</td><td>4</td></tr>
+        </table>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toContain('| :--- | :---: | ---: | --- |');
+    });
+
+    it('should synthesize a header row when the table has no th', () => {
+      const html = `
+        <table>
+          <tr><td>Cell 1</td><td>Cell 2</td></tr>
+          <tr><td>Cell 3</td><td>Cell 4</td></tr>
+        </table>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe(
+        [
+          '|  |  |',
+          '| --- | --- |',
+          '| Cell 1 | Cell 2 |',
+          '| Cell 3 | Cell 4 |',
+        ].join('\n')
+      );
+    });
+
+    it('should treat thead rows as the header', () => {
+      const html = `
+        <table>
+          <thead><tr><td>Key</td><td>Value</td></tr></thead>
+          <tbody><tr><td>a</td><td>b</td></tr></tbody>
+        </table>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('| Key | Value |\n| --- | --- |\n| a | b |');
+    });
+
+    it('should emit sanitized HTML for nested tables', () => {
+      const html = `
+        <table class="outer" onclick="alert(1)">
+          <tr><th>Outer</th></tr>
+          <tr><td><table><tr><td colspan="2">Inner</td></tr></table></td></tr>
+        </table>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toContain('<table>');
+      expect(result).toContain('<td colspan="2">Inner</td>');
+      expect(result).not.toContain('onclick');
+      expect(result).not.toContain('class=');
+      expect(result).not.toContain('| Outer |');
+    });
+
+    it('should emit HTML for tables with block content in cells', () => {
+      const html = `
+        <table>
+          <tr><th>List</th></tr>
+          <tr><td><ul><li>One</li><li>Two</li></ul></td></tr>
+        </table>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toContain('<ul><li>One</li><li>Two</li></ul>');
+    });
+  });
+
+  describe('Math', () => {
+    it('should extract TeX from KaTeX annotations', () => {
+      const html = `<p>Energy <span class="katex"><span class="katex-mathml"><math><semantics><mrow><mi>E</mi><mo>=</mo><mi>m</mi><msup><mi>c</mi><mn>2</mn></msup></mrow><annotation encoding="application/x-tex">E = mc^2</annotation></semantics></math></span><span class="katex-html" aria-hidden="true">E=mc2</span></span> holds</p>`;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('Energy $E = mc^2$ holds');
+    });
+
+    it('should emit display math for KaTeX display blocks', () => {
+      const html = `<span class="katex-display"><span class="katex"><span class="katex-mathml"><math display="block"><semantics><mrow></mrow><annotation encoding="application/x-tex">\\int_0^1 x\\,dx</annotation></semantics></math></span></span></span>`;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('$$\n\\int_0^1 x\\,dx\n$$');
+    });
+
+    it('should use MathJax 2 script sources and drop the rendering', () => {
+      const html = `<p>Let <span class="MathJax_Preview">x2</span><span class="MathJax"><span>x</span><span>2</span></span><script type="math/tex">x^2</script> be given</p>
+        <div class="MathJax_Display"><span>glyphs</span></div><script type="math/tex; mode=display">\\sum_i a_i</script>`;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('Let $x^2$ be given\n\n$$\n\\sum_i a_i\n$$');
+    });
+
+    it('should convert MathJax 3 containers through assistive MathML', () => {
+      const html = `<mjx-container class="MathJax" jax="CHTML"><mjx-math aria-hidden="true"></mjx-math><mjx-assistive-mml><math><msqrt><mi>x</mi></msqrt></math></mjx-assistive-mml></mjx-container>`;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('$\\sqrt{x}$');
+    });
+
+    it('should use Wikipedia fallback image alt text', () => {
+      const html = `<span class="mwe-math-element"><img class="mwe-math-fallback-image-inline" alt="{\\displaystyle a^{2}+b^{2}}" src="https://wikimedia.org/math.svg"></span>`;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('$a^{2}+b^{2}$');
+    });
+
+    it('should fall back to converting plain MathML', () => {
+      const html = `<math display="block"><mfrac><mn>1</mn><mi>n</mi></mfrac></math>`;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('$$\n\\frac{1}{n}\n$$');
+    });
+  });
+
+  describe('Footnotes', () => {
+    it('should convert Pandoc footnotes to GFM footnotes', () => {
+      const html = `
+        <p>Claim<sup><a href="#fn1" class="footnote-ref" id="fnref1" role="doc-noteref">1</a></sup> and another<sup><a href="#fn2" class="footnote-ref" id="fnref2">2</a></sup>.</p>
+        <section class="footnotes" role="doc-endnotes">
+          <hr>
+          <ol>
+            <li id="fn1"><p>First note. <a href="#fnref1" class="footnote-back" role="doc-backlink">↩︎</a></p></li>
+            <li id="fn2"><p>Second <em>note</em>. <a href="#fnref2" class="footnote-back">↩︎</a></p></li>
+          </ol>
+        </section>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe(
+        'Claim[^1] and another[^2].\n\n[^1]: First note.\n[^2]: Second *note*.'
+      );
+    });
+
+    it('should reuse labels for repeated references', () => {
+      const html = `
+        <p>A<sup><a href="#fn:x">1</a></sup> B<sup><a href="#fn:x">1</a></sup></p>
+        <div class="footnotes"><ol><li id="fn:x">Shared <a href="#fnref:x" class="reversefootnote">↩</a> <a href="#fnref:x:2" class="reversefootnote">↩<sup>2</sup></a></li></ol></div>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('A[^1] B[^1]\n\n[^1]: Shared');
+    });
+
+    it('should convert Wikipedia citations', () => {
+      const html = `
+        <p>Fact.<sup id="cite_ref-1" class="reference"><a href="#cite_note-1">[1]</a></sup></p>
+        <ol class="references">
+          <li id="cite_note-1"><span class="mw-cite-backlink"><b><a href="#cite_ref-1">^</a></b></span> <span class="reference-text">Smith, <i>Book</i>, 2004.</span></li>
+        </ol>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('Fact.[^1]\n\n[^1]: Smith, *Book*, 2004.');
+    });
+
+    it('should keep definitions that are never referenced', () => {
+      const html = `
+        <p>Text</p>
+        <section class="footnotes"><ol><li id="fn1">Orphan note</li></ol></section>
+      `;
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('Text\n\n[^1]: Orphan note');
+    });
+
+    it('should leave ordinary in-page links alone', () => {
+      const html = '<p><a href="#intro">Intro</a></p><h2 id="intro">Intro</h2>';
+      const result = markdownConverter.convert(html);
+      expect(result).toBe('[Intro](#intro)\n\n## Intro');
+    });
+
+    it('should move definitions found only by their ids', () => {
+      const html =
+        '<p>Text<sup><a href="#fn1">1</a></sup></p><ol><li id="fn1">Note</li></ol>';
+      expect(markdownConverter.convert(html)).toBe('Text[^1]\n\n[^1]: Note');
+    });
+
+    it('should move definitions whose ids sit inside list items', () => {
+      const html =
+        '<p>Text<sup><a href="#fn-a">1</a></sup></p><ol class="footnotes"><li><span id="fn-a"></span>Note</li></ol>';
+      expect(markdownConverter.convert(html)).toBe('Text[^1]\n\n[^1]: Note');
+    });
+  });
+
+  describe('URL resolution', () => {
+    it('should resolve relative links and images against the page URL', () => {
+      const html =
+        '<p><a href="../docs/guide.html">Guide</a> <img src="/img/logo.png" alt="Logo"></p>';
+      const result = markdownConverter.convert(html, {
+        baseUrl: 'https://example.com/blog/post.html',
+      });
+      expect(result).toBe(
+        '[Guide](https://example.com/docs/guide.html) ![Logo](https://example.com/img/logo.png)'
+      );
+    });
+
+    it('should resolve the best image source before absolutizing it', () => {
+      const html =
+        '<p><img src="data:image/gif;base64,R0lG" data-srcset="/a.jpg 640w, /a-big.jpg 1280w" alt="A"></p>';
+      const result = markdownConverter.convert(html, {
+        baseUrl: 'https://example.com/post',
+      });
+      expect(result).toBe('![A](https://example.com/a-big.jpg)');
+    });
+
+    it('should prefer a <base> element in the HTML', () => {
+      const html =
+        '<base href="https://cdn.example.org/assets/"><a href="file.pdf">File</a>';
+      const result = markdownConverter.convert(html, {
+        baseUrl: 'https://example.com/page',
+      });
+      expect(result).toBe('[File](https://cdn.example.org/assets/file.pdf)');
+    });
+
+    it('should resolve srcset candidates', () => {
+      const html =
+        '<div><img src="a.png" srcset="a-1x.png 1x, a-2x.png 2x" alt="A"></div>';
+      const parsed = new DOMParser().parseFromString(html, 'text/html');
+      (markdownConverter as any).resolveUrls(
+        parsed.body,
+        'https://example.com/dir/',
+        true
+      );
+      expect(parsed.querySelector('img')?.getAttribute('srcset')).toBe(
+        'https://example.com/dir/a-1x.png 1x, https://example.com/dir/a-2x.png 2x'
+      );
+    });
+
+    it('should keep same-page anchors relative by default', () => {
+      const html =
+        '<a href="#setup">Setup</a> <a href="post.html#usage">Usage</a>';
+      const result = markdownConverter.convert(html, {
+        baseUrl: 'https://example.com/post.html',
+      });
+      expect(result).toBe('[Setup](#setup) [Usage](#usage)');
+    });
+
+    it('should make anchors absolute when relativeAnchors is false', () => {
+      const html = '<a href="#setup">Setup</a>';
+      const result = markdownConverter.convert(html, {
+        baseUrl: 'https://example.com/post.html',
+        relativeAnchors: false,
+      });
+      expect(result).toBe('[Setup](https://example.com/post.html#setup)');
+    });
+
+    it('should keep footnotes when relativeAnchors is false', () => {
+      const html =
+        '<p>Text<sup><a href="#fn1">1</a></sup></p><section class="footnotes"><ol><li id="fn1">Note</li></ol></section>';
+      const result = markdownConverter.convert(html, {
+        baseUrl: 'https://example.com/page',
+        relativeAnchors: false,
+      });
+      expect(result).toBe('Text[^1]\n\n[^1]: Note');
+    });
+
+    it('should use the page URL in convertWithMetadata', () => {
+      const result = markdownConverter.convertWithMetadata(
+        '<a href="/about">About</a>',
+        'Page',
+        'https://example.com/page'
+      );
+      expect(result.markdown).toContain('[About](https://example.com/about)');
+    });
+  });
+
+  describe('Media embeds', () => {
+    it('should turn a YouTube embed into a linked thumbnail', () => {
+      const html =
+        '<iframe src="https://www.youtube.com/embed/dQw4w9WgXcQ?si=x" title="Demo [v2]"></iframe>';
+      expect(markdownConverter.convert(html)).toBe(
+        '[![Embedded: YouTube — Demo \\[v2\\]](https://img.youtube.com/vi/dQw4w9WgXcQ/hqdefault.jpg)](https://www.youtube.com/watch?v=dQw4w9WgXcQ)'
+      );
+    });
+
+    it('should link to the page behind other known embeds', () => {
+      const html =
+        '<iframe src="//player.vimeo.com/video/123456"></iframe><iframe src="https://codepen.io/chris/embed/preview/abcDE"></iframe>';
+      expect(markdownConverter.convert(html)).toBe(
+        '[Embedded: Vimeo](https://vimeo.com/123456)\n\n[Embedded: CodePen](https://codepen.io/chris/pen/abcDE)'
+      );
+    });
+
+    it('should use the poster of native video and link native audio', () => {
+      const html =
+        '<video poster="/poster.jpg" controls><source src="/clip.mp4"></video><audio src="/talk.mp3"></audio>';
+      const result = markdownConverter.convert(html, {
+        baseUrl: 'https://example.com/post',
+      });
+      expect(result).toBe(
+        '[![Embedded: Video](https://example.com/poster.jpg)](https://example.com/clip.mp4)\n\n[Embedded: Audio](https://example.com/talk.mp3)'
+      );
+    });
+
+    it('should follow the configured style per embed type', () => {
+      const html =
+        '<iframe src="https://www.youtube.com/embed/dQw4w9WgXcQ"></iframe><iframe src="https://example.org/widget"></iframe>';
+      const result = markdownConverter.convert(html, {
+        embeds: { video: 'link', frame: 'remove' },
+      });
+      expect(result).toBe(
+        '[Embedded: YouTube](https://www.youtube.com/watch?v=dQw4w9WgXcQ)'
+      );
+    });
+
+    it('should use the dialect link syntax outside Markdown', () => {
+      const html = '<iframe src="https://player.vimeo.com/video/42"></iframe>';
+      expect(markdownConverter.convert(html, { dialect: 'slack' })).toBe(
+        '<https://vimeo.com/42|Embedded: Vimeo>'
+      );
+    });
+
+    it('should drop embeds without a source', () => {
+      expect(markdownConverter.convert('<p>Text</p><iframe></iframe>')).toBe(
+        'Text'
+      );
+    });
+  });
+
+  describe('Link styles', () => {
+    const html = `
+      <h2>Intro</h2>
+      <p><a href="https://a.com">A</a> and <a href="https://b.com" title="Bee">B</a></p>
+      <h2>More</h2>
+      <p><a href="https://a.com">A again</a> and <a href="https://c.com">C</a></p>
+    `;
+
+    it('should keep inline links by default', () => {
+      const result = markdownConverter.convert(html);
+      expect(result).toContain('[A](https://a.com)');
+      expect(result).toContain('[B](https://b.com "Bee")');
+    });
+
+    it('should number unique URLs once in reference mode', () => {
+      const result = markdownConverter.convert(html, {
+        linkStyle: 'reference',
+      });
+      expect(result).toBe(
+        [
+          '## Intro',
+          '[A][1] and [B][2]',
+          '',
+          '## More',
+          '[A again][1] and [C][3]',
+          '',
+          '[1]: https://a.com',
+          '[2]: https://b.com "Bee"',
+          '[3]: https://c.com',
+        ].join('\n')
+      );
+    });
+
+    it('should place the link table after each section when requested', () => {
+      const result = markdownConverter.convert(html, {
+        linkStyle: 'reference',
+        linkTablePlacement: 'section',
+      });
+      expect(result).toBe(
+        [
+          '## Intro',
+          '[A][1] and [B][2]',
+          '',
+          '[1]: https://a.com',
+          '[2]: https://b.com "Bee"',
+          '',
+          '## More',
+          '[A again][1] and [C][3]',
+          '',
+          '[3]: https://c.com',
+        ].join('\n')
+      );
+    });
+
+    it('should keep only anchor text in strip mode', () => {
+      const result = markdownConverter.convert(
+        '<p>See <a href="https://a.com">the <strong>docs</strong></a>.</p>',
+        { linkStyle: 'strip' }
+      );
+      expect(result).toBe('See the **docs**.');
+    });
+
+    it('should not leak references between conversions', () => {
+      markdownConverter.convert(html, { linkStyle: 'reference' });
+      const result = markdownConverter.convert(
+        '<a href="https://z.com">Z</a>',
+        { linkStyle: 'reference' }
+      );
+      expect(result).toBe('[Z][1]\n\n[1]: https://z.com');
+    });
+  });
+
+  describe('Syntax tree', () => {
+    it('should build the tree from the prepared document', () => {
+      const html =
+        '<h3>Guide</h3><p>See <a href="/docs">docs</a></p><pre><code class="language-sh">$ ls</code></pre>';
+      const tree = markdownConverter.toAst(html, {
+        baseUrl: 'https://example.com/',
+        normalizeHeadings: true,
+        stripPrompts: true,
+      });
+
+      expect(tree.root.children.map((node) => node.type)).toEqual([
+        'heading',
+        'paragraph',
+        'code',
+      ]);
+      expect(tree.root.children[0]).toMatchObject({ depth: 1 });
+      expect(tree.root.children[1]).toMatchObject({
+        children: [{ value: 'See ' }, { url: 'https://example.com/docs' }],
+      });
+      expect(tree.root.children[2]).toMatchObject({ lang: 'sh', value: 'ls' });
+      expect(tree.sourceOf(tree.root.children[0])?.nodeName).toBe('H1');
+    });
+
+    it('should read code tables as code, like the Markdown', () => {
+      const html = `
+        <div class="highlight-python"><table class="highlighttable"><tr>
+          <td class="linenos"><div class="linenodiv"><pre>1\n2</pre></div></td>
+          <td class="code"><div class="highlight"><pre>x = 1\nprint(x)</pre></div></td>
+        </tr></table></div>
+      `;
+      const tree = markdownConverter.toAst(html);
+
+      expect(markdownConverter.convert(html)).toBe(
+        '```python\nx = 1\nprint(x)\n```'
+      );
+      expect(tree.root.children).toEqual([
+        { type: 'code', lang: 'python', meta: null, value: 'x = 1\nprint(x)' },
+      ]);
+    });
+
+    it('should pair footnote references with their definitions', () => {
+      const html =
+        '<p>Claim<sup><a href="#fn1">1</a></sup></p><ol><li id="fn1">Note <a href="#fnref1">↩</a></li></ol>';
+      const tree = markdownConverter.toAst(html);
+
+      expect(markdownConverter.convert(html)).toBe('Claim[^1]\n\n[^1]: Note');
+      expect(tree.root.children).toEqual([
+        {
+          type: 'paragraph',
+          children: [
+            { type: 'text', value: 'Claim' },
+            { type: 'footnoteReference', identifier: '1', label: '1' },
+          ],
+        },
+        {
+          type: 'footnoteDefinition',
+          identifier: '1',
+          label: '1',
+          children: [
+            { type: 'paragraph', children: [{ type: 'text', value: 'Note' }] },
+          ],
+        },
+      ]);
+      expect(tree.sourceOf(tree.root.children[1])?.nodeName).toBe('LI');
+    });
+
+    it('should mark admonitions as callouts, like the Markdown', () => {
+      const html = `
+        <div class="admonition warning">
+          <p class="admonition-title">Warning</p>
+          <p>Back up first.</p>
+        </div>
+        <aside class="tip"><h4>Pro move</h4><p>Sparingly.</p></aside>
+      `;
+      const tree = markdownConverter.toAst(html);
+
+      expect(markdownConverter.convert(html)).toBe(
+        '> [!WARNING]\n> Back up first.\n\n> [!TIP]\n> **Pro move**\n>\n> Sparingly.'
+      );
+      expect(tree.root.children).toEqual([
+        {
+          type: 'blockquote',
+          data: { callout: { type: 'warning', title: '' } },
+          children: [
+            {
+              type: 'paragraph',
+              children: [{ type: 'text', value: 'Back up first.' }],
+            },
+          ],
+        },
+        {
+          type: 'blockquote',
+          data: { callout: { type: 'tip', title: 'Pro move' } },
+          children: [
+            {
+              type: 'paragraph',
+              children: [
+                {
+                  type: 'strong',
+                  children: [{ type: 'text', value: 'Pro move' }],
+                },
+              ],
+            },
+            {
+              type: 'paragraph',
+              children: [{ type: 'text', value: 'Sparingly.' }],
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should read math as TeX, like the Markdown', () => {
+      const inline = `<span class="katex"><span class="katex-mathml"><math><semantics><mrow><mi>E</mi></mrow><annotation encoding="application/x-tex">E = mc^2</annotation></semantics></math></span><span class="katex-html" aria-hidden="true">E=mc2</span></span>`;
+      const display = `<span class="katex-display"><span class="katex"><span class="katex-mathml"><math display="block"><semantics><mrow></mrow><annotation encoding="application/x-tex">\\int_0^1 x\\,dx</annotation></semantics></math></span></span></span>`;
+      const html = `<p>Energy ${inline} holds</p>${display}`;
+      const tree = markdownConverter.toAst(html);
+
+      expect(markdownConverter.convert(html)).toBe(
+        'Energy $E = mc^2$ holds\n\n$$\n\\int_0^1 x\\,dx\n$$'
+      );
+      expect(tree.root.children).toEqual([
+        {
+          type: 'paragraph',
+          children: [
+            { type: 'text', value: 'Energy ' },
+            { type: 'inlineMath', value: 'E = mc^2' },
+            { type: 'text', value: ' holds' },
+          ],
+        },
+        { type: 'math', meta: null, value: '\\int_0^1 x\\,dx' },
+      ]);
+    });
+
+    it('should only add the tree to results when asked', () => {
+      const html = '<p>Body</p>';
+      const plain = markdownConverter.convertWithMetadata(
+        html,
+        'Page',
+        'https://example.com'
+      );
+      const withAst = markdownConverter.convertWithMetadata(
+        html,
+        'Page',
+        'https://example.com',
+        { includeAst: true }
+      );
+
+      expect(plain).not.toHaveProperty('ast');
+      expect(withAst.ast?.root.children).toEqual([
+        { type: 'paragraph', children: [{ type: 'text', value: 'Body' }] },
+      ]);
+    });
+  });
+
+  describe('Conversion report', () => {
+    const html = `
+      <img src="/a.png"><img src="/b.png" alt="B">
+      <figure><img src="/c.png"><figcaption>C</figcaption></figure>
+      <table><tr><th colspan="2">Merged</th></tr><tr><td>1</td><td>2</td></tr></table>
+      <table><tr><td><ul><li>List</li></ul></td></tr></table>
+      <iframe></iframe><iframe src="https://example.org/widget"></iframe>`;
+
+    it('should report what the conversion lost', () => {
+      const { markdown, report } = markdownConverter.convertWithReport(html, {
+        embeds: { frame: 'remove' },
+      });
+      expect(report).toEqual({
+        imagesMissingAlt: ['/a.png'],
+        tablesFlattened: 1,
+        tablesAsHtml: 1,
+        embedsSkipped: ['IFRAME', 'https://example.org/widget'],
+        htmlSize: new Blob([html]).size,
+        markdownSize: new Blob([markdown]).size,
+      });
+    });
+
+    it('should count tables flattened into other dialects', () => {
+      const { report } = markdownConverter.convertWithReport(html, {
+        dialect: 'jira',
+      });
+      expect(report.tablesFlattened).toBe(2);
+      expect(report.tablesAsHtml).toBe(0);
+    });
+
+    it('should only add the report to results when asked', () => {
+      expect(
+        markdownConverter.convertWithMetadata(html, 'T', 'https://e.com')
+      ).not.toHaveProperty('report');
+
+      const result = markdownConverter.convertWithMetadata(
+        html,
+        'T',
+        'https://e.com',
+        { includeReport: true }
+      );
+      expect(result.report?.markdownSize).toBe(
+        new Blob([result.markdown]).size
+      );
+    });
+  });
+
+  describe('Clipboard HTML', () => {
+    it('should add the cleaned source HTML with absolute URLs when asked', () => {
+      const html =
+        '<p><a href="/docs">Docs</a> <img data-src="/lazy.png" src="data:image/gif;base64,R0lGOD" alt="Lazy"></p>';
+
+      const result = markdownConverter.convertWithMetadata(
+        html,
+        'Page',
+        'https://example.com/page',
+        { includeHtml: true }
+      );
+
+      expect(result.html).toBe(
+        '<p><a href="https://example.com/docs">Docs</a> <img src="https://example.com/lazy.png" alt="Lazy"></p>'
+      );
+      expect(
+        markdownConverter.convertWithMetadata(html, 'Page', 'https://e.com')
+      ).not.toHaveProperty('html');
+    });
+
+    it('should sanitize the source HTML', () => {
+      const html = [
+        '<p class="lead" style="color:red" onclick="steal()">Hi <a href="javascript:alert(1)">x</a></p>',
+        '<math><script type="math/tex">x^2</script></math>',
+        '<iframe src="https://example.com/embed"></iframe>',
+      ].join('');
+
+      const { html: cleanHtml } = markdownConverter.convertWithReport(html, {
+        includeHtml: true,
+      });
+
+      expect(cleanHtml).toBe('<p>Hi <a>x</a></p><math></math>');
+    });
+
+    it('should only keep safe URL schemes in the source HTML', () => {
+      const html = [
+        '<a href="vbscript:msgbox(1)">a</a>',
+        '<a href="data:text/html,<script>alert(1)</script>">b</a>',
+        '<a href="java\tscript:alert(1)">c</a>',
+        '<a href=" \u0001javascript:alert(1)">d</a>',
+        '<a href="mailto:me@example.com">e</a>',
+        '<img src="data:image/png;base64,iVBORw0KGgo=" alt="f">',
+        '<img src="data:image/svg+xml,<svg onload=alert(1)>" alt="g">',
+      ].join(' ');
+
+      const { html: cleanHtml } = markdownConverter.convertWithReport(html, {
+        includeHtml: true,
+      });
+
+      expect(cleanHtml).toBe(
+        '<a>a</a> <a>b</a> <a>c</a> <a>d</a> <a href="mailto:me@example.com">e</a> <img src="data:image/png;base64,iVBORw0KGgo=" alt="f"> <img alt="g">'
+      );
+    });
+
+    it('should return the HTML alongside a report', () => {
+      const { html } = markdownConverter.convertWithReport('<p>Hi</p>', {
+        includeHtml: true,
+      });
+      expect(html).toBe('<p>Hi</p>');
+    });
+  });
+
+  describe('Metadata handling', () => {
+    it('should add metadata when includeMetadata is true', () => {
+      const html = '<p>Content</p>';
+      const result = markdownConverter.convert(html, {
+        includeMetadata: true,
+        baseUrl: 'https://example.com',
+      });
+      expect(result).toContain('Source: https://example.com');
+      expect(result).toContain('Captured:');
+      expect(result).toContain('---');
+      expect(result).toContain('Content');
+    });
+
+    it('should convert with full metadata using convertWithMetadata', () => {
+      const html = '<p>Test content</p>';
+      const result = markdownConverter.convertWithMetadata(
+        html,
+        'Test Page',
+        'https://example.com/page'
+      );
+
+      expect(result.markdown).toContain(
+        'Source: [Test Page](https://example.com/page)'
+      );
+      expect(result.markdown).toContain('Captured:');
+      expect(result.markdown).toContain('Test content');
+      expect(result.metadata).toBeDefined();
+      expect(result.metadata?.title).toBe('Test Page');
+      expect(result.metadata?.url).toBe('https://example.com/page');
+      expect(result.metadata?.timestamp).toBeDefined();
+    });
+
+    it('should write YAML front matter when requested', () => {
+      const result = markdownConverter.convertWithMetadata(
+        '<p>Test content</p>',
+        'Notes: part 1',
+        'https://example.com/page',
+        {
+          metadataFormat: 'frontmatter',
+          pageMetadata: {
+            title: 'Notes: part 1',
+            url: 'https://example.com/page',
+            author: 'Jane Doe',
+            description: 'A "quoted" summary',
+            tags: ['notes', 'yaml'],
+          },
+        }
+      );
+
+      expect(result.markdown).toMatch(
+        /^---\ntitle: "Notes: part 1"\nurl: https:\/\/example\.com\/page\nauthor: Jane Doe\ncaptured: \S+\ndescription: A "quoted" summary\ntags:\n {2}- notes\n {2}- yaml\nselection: false\n---\n\nTest content$/
+      );
+    });
+
+    it('should flag selections in the metadata header', () => {
+      const result = markdownConverter.applyTemplate('Body', {
+        title: 'Page',
+        url: 'https://example.com',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        selection: true,
+      });
+
+      expect(result).toBe(
+        'Selection from: [Page](https://example.com)\nCaptured: 2024-01-01T00:00:00.000Z\n\n---\n\nBody'
+      );
+    });
+
+    it('should keep the plain header for non-Markdown dialects', () => {
+      const result = markdownConverter.applyTemplate(
+        'Body',
+        { title: 'Page', url: 'https://example.com', timestamp: 'now' },
+        { metadataFormat: 'frontmatter', dialect: 'org' }
+      );
+
+      expect(result).toBe(
+        'Source: [[https://example.com][Page]]\nCaptured: now\n\n-----\n\nBody'
+      );
+    });
+
+    it('should link the source in the quote preset for the dialect', () => {
+      const result = markdownConverter.applyTemplate(
+        'Said',
+        { title: 'Page', url: 'https://example.com', timestamp: 'now' },
+        { template: TEMPLATE_PRESETS.quote.template, dialect: 'slack' }
+      );
+
+      expect(result).toBe(
+        '> Said\n>\n> — <https://example.com|Page>, example.com'
+      );
+    });
+
+    it('should leave out the source line without a URL', () => {
+      const result = markdownConverter.convert('<p>Content</p>', {
+        includeMetadata: true,
+      });
+
+      expect(result).toMatch(/^Captured: \S+\n\n---\n\nContent$/);
+    });
+
+    it('should use the template for convert', () => {
+      const result = markdownConverter.convert('<p>Content</p>', {
+        includeMetadata: true,
+        baseUrl: 'https://example.com',
+        template: '{{domain}}: {{content}}',
+      });
+
+      expect(result).toBe('example.com: Content');
+    });
+
+    it('should render a custom template', () => {
+      const result = markdownConverter.convertWithMetadata(
+        '<p>Body</p>',
+        'Page',
+        'https://www.example.com/a',
+        { template: '# {{title}} ({{domain}})\n\n{{content}}' }
+      );
+
+      expect(result.markdown).toBe('# Page (example.com)\n\nBody');
+    });
+  });
+
+  describe('Text cleanup', () => {
+    const html =
+      '<p>It\u2019s\u00A0a \u201Cco\u00ADop\u201D\u200B <img class="emoji" alt="\u{1F600}" src="/e.png"></p>';
+
+    it('should remove invisible characters and emoji images by default', () => {
+      expect(markdownConverter.convert(html)).toBe(
+        'It\u2019s a \u201Ccoop\u201D \u{1F600}'
+      );
+    });
+
+    it('should fold punctuation to ASCII when enabled', () => {
+      const result = markdownConverter.convert(html, {
+        normalization: { asciiPunctuation: true },
+      });
+      expect(result).toBe('It\'s a "coop" \u{1F600}');
+    });
+
+    it('should leave code alone', () => {
+      const code =
+        '<p>\u201Cx\u201D <code>\u201Cx\u201D \u2014 y\u2026</code></p><pre><code>s = "\u200B\u201Cx\u201D"</code></pre>';
+      const result = markdownConverter.convert(code, {
+        normalization: { asciiPunctuation: true },
+      });
+      expect(result).toBe(
+        '"x" `\u201Cx\u201D \u2014 y\u2026`\n\n```\ns = "\u200B\u201Cx\u201D"\n```'
+      );
+    });
+
+    it('should leave the text alone with every step disabled', () => {
+      const result = markdownConverter.convert(html, {
+        normalization: { invisibles: false, emojiImages: false },
+      });
+      expect(result).toBe(
+        'It\u2019s\u00A0a \u201Cco\u00ADop\u201D\u200B ![\u{1F600}](/e.png)'
+      );
+    });
+  });
+
+  describe('Line wrapping', () => {
+    const html =
+      '<p>A paragraph with enough words to wrap. It has <code>inline code</code> too.</p><pre><code>const unchanged = "a code line longer than the width";</code></pre>';
+
+    it('should wrap paragraphs but not code blocks', () => {
+      const result = markdownConverter.convert(html, {
+        wrap: 'width',
+        wrapWidth: 30,
+      });
+      expect(result).toBe(
+        'A paragraph with enough words\nto wrap. It has `inline code`\ntoo.\n\n```\nconst unchanged = "a code line longer than the width";\n```'
+      );
+    });
+
+    it('should break lines after sentences', () => {
+      const result = markdownConverter.convert(html, { wrap: 'sentence' });
+      expect(result.split('\n').slice(0, 2)).toEqual([
+        'A paragraph with enough words to wrap.',
+        'It has `inline code` too.',
+      ]);
+    });
+
+    it('should not wrap dialects where line breaks are hard', () => {
+      const result = markdownConverter.convert(html, {
+        wrap: 'width',
+        wrapWidth: 30,
+        dialect: 'slack',
+      });
+      expect(result.split('\n')[0]).toBe(
+        'A paragraph with enough words to wrap. It has `inline code` too.'
       );
-      expect(result.markdown).toContain('Captured:');
-      expect(result.markdown).toContain('Test content');
-      expect(result.metadata).toBeDefined();
-      expect(result.metadata?.title).toBe('Test Page');
-      expect(result.metadata?.url).toBe('https://example.com/page');
-      expect(result.metadata?.timestamp).toBeDefined();
     });
   });
 
@@ -1,12 +1,230 @@
+import type { PageMetadata } from './dom-extractor';
 import TurndownService from 'turndown';
 
+import { calloutDetector } from './callouts';
+import { codeLanguageDetector } from './code-language';
+import {
+  DialectContext,
+  DialectDefinition,
+  dialectRegistry,
+  DialectTable,
+  InlineSyntax,
+  OutputDialect,
+  wrapInline,
+} from './dialects';
+import {
+  DEFAULT_EMBED_STYLES,
+  Embed,
+  embedResolver,
+  EmbedStyle,
+  EmbedType,
+} from './embeds';
+import { frontMatterBuilder } from './front-matter';
+import { HeadingEntry, headingOutliner } from './headings';
+import { imageResolver } from './images';
+import { markdownAstBuilder, MarkdownTree } from './markdown-ast';
+import { markdownRenderer } from './markdown-renderer';
+import { mathmlConverter } from './mathml';
+import { TEMPLATE_PRESETS, templateEngine } from './template';
+import {
+  DEFAULT_NORMALIZATION,
+  NormalizationStep,
+  textNormalizer,
+} from './typography';
+import { lineWrapper, WrapMode } from './wrapping';
+
+// UI chrome that highlighters render inside code blocks
+const CODE_CHROME_SELECTOR = [
+  'button',
+  'clipboard-copy',
+  '.line-numbers-rows',
+  '.linenos',
+  '.lineno',
+  '.ln',
+  '.lnt',
+  '.gutter',
+  '[aria-hidden="true"].line-number',
+].join(', ');
+
+// Languages of terminal and REPL sessions, whose prompts are stripped
+const PROMPT_LANGUAGES = new Set([
+  'bash',
+  'sh',
+  'shell',
+  'zsh',
+  'console',
+  'terminal',
+  'shell-session',
+  'shellsession',
+  'sh-session',
+  'pycon',
+  'powershell',
+  'pwsh',
+  'ps1',
+]);
+
+// A prompt marker followed by a space or the end of the line, so PHP
+// variables, spread syntax and SQL $$ quotes don't count
+const PROMPT_PATTERN = /^(\$|>>>|\.\.\.|PS>|PS [^>]*>)(?: |$)/;
+
+// Tables that lay code out with a line-number column
+const CODE_TABLE_SELECTOR = [
+  'table.highlighttable',
+  'table.rouge-table',
+  'table.hljs-ln',
+  'table.js-file-line-container',
+  'table.code-table',
+].join(', ');
+
+// Cells of code tables that hold line numbers rather than code
+const GUTTER_CELL_PATTERN =
+  /(^|\s)(linenos?|lineno|gutter|rouge-gutter|blob-num|line-?numbers?|hljs-ln-numbers|diff-line-num|old_line|new_line)(\s|$)/;
+
+// Cells/rows of rendered diffs that mark added or removed lines
+const DIFF_ADDITION_PATTERN =
+  /(^|\s)(blob-code-addition|addition|inserted|new)(\s|$)/;
+const DIFF_DELETION_PATTERN =
+  /(^|\s)(blob-code-deletion|deletion|deleted|old)(\s|$)/;
+
+// Classes of MathJax's rendered output
+const MATHJAX_CLASSES = [
+  'MathJax',
+  'MathJax_Display',
+  'MathJax_Preview',
+  'MathJax_SVG',
+  'MathJax_CHTML',
+];
+
+// Containers that hold the footnote/citation definitions of a document
+const FOOTNOTE_CONTAINER_SELECTOR = [
+  'section.footnotes',
+  'div.footnotes',
+  'ol.footnotes',
+  '[role="doc-endnotes"]',
+  'ol.references',
+  'div.reflist',
+].join(', ');
+
+// Links inside a definition that point back to its reference
+const FOOTNOTE_BACKLINK_SELECTOR = [
+  'a.footnote-back',
+  'a.footnote-backref',
+  'a.reversefootnote',
+  'a[role="doc-backlink"]',
+  'a[href^="#fnref"]',
+  '.mw-cite-backlink',
+].join(', ');
+
+// Element marking where the table of contents goes
+const TOC_PLACEHOLDER = 'MARKDOWNIFY-TOC';
+
+// Inline formatting elements, by the dialect syntax that writes them
+const INLINE_FORMATTING: Array<[keyof InlineSyntax, string[]]> = [
+  ['strikethrough', ['DEL', 'S', 'STRIKE']],
+  ['highlight', ['MARK']],
+  ['insert', ['INS', 'U']],
+  ['subscript', ['SUB']],
+  ['superscript', ['SUP']],
+  ['keyboard', ['KBD']],
+];
+
 export interface ConversionOptions {
   includeMetadata?: boolean;
   baseUrl?: string;
+  relativeAnchors?: boolean; // Keep same-page #anchor links relative (default true)
+  stripPrompts?: boolean; // Remove $ and >>> prompt markers from code blocks
+  linkStyle?: LinkStyle;
+  linkTablePlacement?: 'document' | 'section'; // Where reference links are listed
+  dialect?: OutputDialect; // Output syntax (default 'gfm')
+  metadataFormat?: MetadataFormat;
+  pageMetadata?: PageMetadata; // Extra page details for front matter
+  template?: string; // Custom output envelope; overrides metadataFormat
+  normalizeHeadings?: boolean; // Shift heading levels so there is one H1
+  tableOfContents?: boolean; // Insert a table of contents after the H1
+  includeAst?: boolean; // Add the mdast syntax tree to the result
+  embeds?: Partial<Record<EmbedType, EmbedStyle>>; // Output per embed type
+  normalization?: Partial<Record<NormalizationStep, boolean>>; // Text cleanup steps
+  wrap?: WrapMode; // Reflow paragraphs (Markdown dialects only)
+  wrapWidth?: number; // Column limit for wrap 'width' (default 80)
+  includeReport?: boolean; // Add a report of what the conversion lost
+  includeHtml?: boolean; // Add the sanitized source HTML, with absolute URLs
+}
+
+/**
+ * Conversion options saved from the options page
+ */
+export const CONVERSION_SETTING_KEYS = [
+  'linkStyle',
+  'linkTablePlacement',
+  'stripPrompts',
+  'normalizeHeadings',
+  'tableOfContents',
+  'embeds',
+  'normalization',
+  'wrap',
+  'wrapWidth',
+  'dialect',
+  'metadataFormat',
+  'template',
+] as const;
+
+/**
+ * How captured pages are labelled: a Source/Captured header above a rule,
+ * or a YAML front matter block (Markdown dialects only)
+ */
+export type MetadataFormat = 'header' | 'frontmatter';
+
+/**
+ * What the output envelope describes
+ */
+export interface MetadataHeader {
+  title: string;
+  url: string;
+  timestamp: string;
+  selection?: boolean;
+}
+
+/**
+ * How links are written: inline [text](url), numbered reference links
+ * [text][1] with a link table, or stripped down to their text
+ */
+export type LinkStyle = 'inline' | 'reference' | 'strip';
+
+interface LinkReference {
+  index: number;
+  url: string;
+  title: string;
+}
+
+// Source of a code block and its language, '' when unknown
+interface CodeBlock {
+  code: string;
+  language: string;
+}
+
+// TeX recovered from a math element; '' for renderings to leave out
+interface MathSource {
+  tex: string;
+  isDisplay: boolean;
+}
+
+/**
+ * What a conversion couldn't carry over faithfully
+ */
+export interface ConversionReport {
+  imagesMissingAlt: string[]; // Sources of images without alt text
+  tablesFlattened: number; // Tables whose merged cells or block content were flattened
+  tablesAsHtml: number; // Tables left as HTML for lack of table syntax
+  embedsSkipped: string[]; // Sources of iframes, video and audio left out
+  htmlSize: number; // Bytes of HTML converted
+  markdownSize: number; // Bytes of Markdown written
 }
 
 export interface ConversionResult {
   markdown: string;
+  ast?: MarkdownTree;
+  report?: ConversionReport;
+  html?: string;
   metadata?: {
     title: string;
     url: string;
@@ -15,12 +233,75 @@ export interface ConversionResult {
 }
 
 class MarkdownConverter {
+  // Turndown instance of the dialect being written
   private turndownService: TurndownService;
 
+  // Turndown instances per dialect, built on first use
+  private services = new Map<OutputDialect, TurndownService>();
+
+  // Dialect of the conversion in progress
+  private dialect: DialectDefinition = dialectRegistry.get('gfm');
+
+  // Options applied through setOption, replayed on services built later
+  private optionOverrides: Record<string, any> = {};
+
+  // Document being converted, used to resolve in-page references
+  private currentRoot: HTMLElement | null = null;
+
+  // URL the document's links were resolved against, if any
+  private currentBaseUrl: string | null = null;
+
+  // Footnote definitions referenced so far, mapped to their labels
+  private footnotes = new Map<Element, number>();
+
+  // Every element some link in the document points to as a footnote
+  private footnoteDefinitions = new Set<Element>();
+
+  // Options of the conversion in progress
+  private currentOptions: ConversionOptions = {};
+
+  // Unique link targets collected for reference-style output
+  private linkReferences = new Map<string, LinkReference>();
+
+  // Table of contents for the current conversion, written where the
+  // placeholder element sits
+  private tableOfContents = '';
+
+  // Losses noted during the current conversion
+  private report: ConversionReport = this.createReport();
+
+  // Converter state exposed to dialect rules
+  private dialectContext: DialectContext = {
+    options: () => this.currentOptions,
+    getTable: (table) => this.getTableGrid(table),
+    findElementById: (id) => this.findElementById(id),
+  };
+
   constructor() {
-    this.turndownService = new TurndownService({
+    this.turndownService = this.getService('gfm');
+  }
+
+  /**
+   * Get the Turndown instance for a dialect, building it on first use
+   */
+  private getService(dialect: OutputDialect): TurndownService {
+    let service = this.services.get(dialect);
+    if (!service) {
+      service = this.createService(dialectRegistry.get(dialect));
+      this.services.set(dialect, service);
+    }
+    return service;
+  }
+
+  /**
+   * Build a Turndown instance: the dialect's rules override the element
+   * syntax, while code, math, footnote and link handling stay on top
+   */
+  private createService(dialect: DialectDefinition): TurndownService {
+    const service = new TurndownService({
       headingStyle: 'atx',
-      hr: '---',
+      hr: dialect.horizontalRule,
+      br: dialect.lineBreak ?? '  ',
       bulletListMarker: '-',
       codeBlockStyle: 'fenced',
       fence: '```',
@@ -28,48 +309,311 @@ class MarkdownConverter {
       strongDelimiter: '**',
       linkStyle: 'inlined',
       linkReferenceStyle: 'full',
+      ...this.optionOverrides,
     });
+    if (dialect.escape) {
+      service.escape = dialect.escape;
+    }
 
-    this.configureGFMTables();
-    this.configureCustomRules();
+    this.configureGFMTables(service);
+    this.configureCustomRules(service);
+    this.configureStructureRules(service);
+    dialect.configure?.(service, this.dialectContext);
+    this.configureCodeRules(service);
+    this.configureMathRules(service);
+    this.configureFootnoteRules(service);
+    this.configureLinkRules(service);
+
+    return service;
   }
 
-  private configureGFMTables(): void {
+  private configureGFMTables(service: TurndownService): void {
     // Add support for GitHub Flavored Markdown tables
-    this.turndownService.addRule('table', {
+    service.addRule('table', {
       filter: ['table'],
-      replacement(_content: string, node: Node) {
+      replacement: (_content: string, node: Node) => {
         const tableNode = node as HTMLTableElement;
-        let markdown = '\n\n';
-
-        // Process table rows
-        const rows = Array.from(tableNode.querySelectorAll('tr'));
+        const rows = this.getTableRows(tableNode);
         if (rows.length === 0) return '';
 
-        rows.forEach((row, rowIndex) => {
-          const cells = Array.from(row.querySelectorAll('th, td'));
-          const cellContents = cells.map((cell) => {
-            const cellText = cell.textContent?.trim() || '';
-            return cellText.replace(/\|/g, '\\|');
-          });
+        // GFM has no syntax for nested tables or block-level cell content,
+        // so fall back to HTML rather than producing a broken grid; the
+        // same goes for dialects without pipe tables
+        if (!this.dialect.tables || !this.isGFMCompatibleTable(tableNode)) {
+          this.report.tablesAsHtml++;
+          return `\n\n${this.sanitizeTableHtml(tableNode)}\n\n`;
+        }
 
-          markdown += `| ${cellContents.join(' | ')} |\n`;
+        const table = this.getTableGrid(tableNode);
+        if (!table) return '';
 
-          // Add separator after header row
-          if (rowIndex === 0) {
-            const separator = cells.map(() => '---').join(' | ');
-            markdown += `| ${separator} |\n`;
+        // Use the first row as the header when it is marked up as one,
+        // otherwise synthesize an empty header so no data row is promoted
+        const columnCount = (table.header || table.rows[0]).length;
+        const headerRow =
+          table.header || Array.from({ length: columnCount }, () => '');
+        const bodyRows = table.rows;
+        const alignments = this.getColumnAlignments(rows, columnCount);
+
+        const formatRow = (row: string[]) => `| ${row.join(' | ')} |`;
+        const separator = alignments.map((alignment) => {
+          switch (alignment) {
+            case 'left':
+              return ':---';
+            case 'center':
+              return ':---:';
+            case 'right':
+              return '---:';
+            default:
+              return '---';
           }
         });
 
-        return `${markdown}\n`;
+        const lines = [
+          formatRow(headerRow),
+          formatRow(separator),
+          ...bodyRows.map(formatRow),
+        ];
+
+        return `\n\n${lines.join('\n')}\n\n`;
       },
     });
   }
 
-  private configureCustomRules(): void {
+  /**
+   * Convert a table into a rectangular grid of cells split into its header
+   * row (when marked up as one) and body rows
+   */
+  private getTableGrid(table: HTMLTableElement): DialectTable | null {
+    const rows = this.getTableRows(table);
+    if (rows.length === 0) return null;
+
+    const grid = this.buildTableGrid(rows);
+    const columnCount = Math.max(...grid.map((row) => row.length));
+    if (columnCount === 0) return null;
+
+    const hasSpans = rows.some((row) =>
+      this.getRowCells(row).some((cell) =>
+        ['colspan', 'rowspan'].some(
+          (span) => (cell.getAttribute(span) || '1').trim() !== '1'
+        )
+      )
+    );
+    if (hasSpans || !this.isGFMCompatibleTable(table)) {
+      this.report.tablesFlattened++;
+    }
+
+    // Pad ragged rows so every row has the same number of cells
+    const cells = grid.map((row) =>
+      Array.from({ length: columnCount }, (_, index) => row[index] || '')
+    );
+
+    const hasHeader = this.isHeaderRow(rows[0]);
+    return {
+      header: hasHeader ? cells[0] : null,
+      rows: hasHeader ? cells.slice(1) : cells,
+    };
+  }
+
+  /**
+   * Get the rows that belong to a table, ignoring rows of nested tables
+   */
+  private getTableRows(table: HTMLTableElement): HTMLTableRowElement[] {
+    return Array.from(table.querySelectorAll('tr')).filter(
+      (row) => row.closest('table') === table
+    ) as HTMLTableRowElement[];
+  }
+
+  /**
+   * Get the cells that belong to a table row
+   */
+  private getRowCells(row: Element): HTMLTableCellElement[] {
+    return Array.from(row.children).filter(
+      (cell) => cell.nodeName === 'TH' || cell.nodeName === 'TD'
+    ) as HTMLTableCellElement[];
+  }
+
+  /**
+   * Check whether a table can be represented as a GFM pipe table
+   */
+  private isGFMCompatibleTable(table: HTMLTableElement): boolean {
+    const blockSelector =
+      'table, ul, ol, pre, blockquote, h1, h2, h3, h4, h5, h6, dl, hr';
+    return this.getTableRows(table).every((row) =>
+      this.getRowCells(row).every(
+        (cell) => cell.querySelector(blockSelector) === null
+      )
+    );
+  }
+
+  /**
+   * Check whether a row is the table header
+   */
+  private isHeaderRow(row: HTMLTableRowElement): boolean {
+    if (row.parentElement?.nodeName === 'THEAD') return true;
+
+    const cells = this.getRowCells(row);
+    return cells.length > 0 && cells.every((cell) => cell.nodeName === 'TH');
+  }
+
+  /**
+   * Expand colspan/rowspan into a rectangular grid of converted cells
+   */
+  private buildTableGrid(rows: HTMLTableRowElement[]): string[][] {
+    const grid: string[][] = rows.map(() => []);
+
+    rows.forEach((row, rowIndex) => {
+      let columnIndex = 0;
+
+      this.getRowCells(row).forEach((cell) => {
+        // Skip positions already filled by a rowspan from a previous row
+        while (grid[rowIndex][columnIndex] !== undefined) {
+          columnIndex++;
+        }
+
+        const colspan = Math.max(
+          1,
+          parseInt(cell.getAttribute('colspan') || '1', 10) || 1
+        );
+        const rowspanAttr = parseInt(cell.getAttribute('rowspan') || '1', 10);
+        // rowspan="0" spans all remaining rows
+        const rowspan =
+          rowspanAttr === 0
+            ? rows.length - rowIndex
+            : Math.max(1, rowspanAttr || 1);
+        const content = this.convertTableCell(cell);
+
+        for (let r = 0; r < rowspan && rowIndex + r < rows.length; r++) {
+          for (let c = 0; c < colspan; c++) {
+            // Spanned positions stay empty so the content appears once
+            grid[rowIndex + r][columnIndex + c] =
+              r === 0 && c === 0 ? content : '';
+          }
+        }
+
+        columnIndex += colspan;
+      });
+    });
+
+    return grid;
+  }
+
+  /**
+   * Convert a single cell's contents to inline Markdown
+   */
+  private convertTableCell(cell: HTMLTableCellElement): string {
+    const markdown = this.turndownService.turndown(cell);
+
+    // Other dialects have no inline HTML, so keep each cell on one line;
+    // their table rules escape cell separators themselves
+    if (!this.dialect.markdown) {
+      return markdown.replace(/\s*\n+\s*/g, ' ').trim();
+    }
+
+    return (
+      markdown
+        // Hard line breaks and paragraphs can't span lines inside a row
+        .replace(/ {2}\n/g, '<br>')
+        .replace(/\n{2,}/g, '<br><br>')
+        .replace(/\n/g, ' ')
+        .replace(/\|/g, '\\|')
+        .trim()
+    );
+  }
+
+  /**
+   * Determine column alignment from align attributes or text-align styles
+   */
+  private getColumnAlignments(
+    rows: HTMLTableRowElement[],
+    columnCount: number
+  ): Array<string | null> {
+    const alignments: Array<string | null> = Array.from(
+      { length: columnCount },
+      () => null
+    );
+
+    // The first row decides; a synthesized header has no cells to look at
+    let columnIndex = 0;
+    this.getRowCells(rows[0]).forEach((cell) => {
+      const colspan = Math.max(
+        1,
+        parseInt(cell.getAttribute('colspan') || '1', 10) || 1
+      );
+      const alignment = this.getCellAlignment(cell);
+
+      for (let c = 0; c < colspan && columnIndex + c < columnCount; c++) {
+        alignments[columnIndex + c] = alignment;
+      }
+      columnIndex += colspan;
+    });
+
+    return alignments;
+  }
+
+  /**
+   * Read the horizontal alignment of a table cell
+   */
+  private getCellAlignment(cell: HTMLTableCellElement): string | null {
+    const styleAlign = (cell.getAttribute('style') || '').match(
+      /text-align\s*:\s*(left|center|right)/i
+    )?.[1];
+    const alignment = (
+      styleAlign ||
+      cell.getAttribute('align') ||
+      ''
+    ).toLowerCase();
+
+    return ['left', 'center', 'right'].includes(alignment) ? alignment : null;
+  }
+
+  /**
+   * Serialize a table as HTML, keeping only structural attributes
+   */
+  private sanitizeTableHtml(table: HTMLTableElement): string {
+    return this.sanitizeElement(table).outerHTML.replace(/>\s+</g, '><').trim();
+  }
+
+  /**
+   * Copy an element keeping only structural attributes, without scripts,
+   * styles, embedded frames or unsafe URLs
+   */
+  private sanitizeElement<T extends HTMLElement>(element: T): T {
+    const clone = element.cloneNode(true) as T;
+    const allowedAttributes = [
+      'colspan',
+      'rowspan',
+      'align',
+      'href',
+      'src',
+      'alt',
+      'title',
+    ];
+
+    clone
+      .querySelectorAll('script, style, noscript, iframe, object, embed')
+      .forEach((el) => el.remove());
+
+    [clone, ...Array.from(clone.querySelectorAll('*'))].forEach((el) => {
+      Array.from(el.attributes).forEach((attr) => {
+        const name = attr.name.toLowerCase();
+        // Links and sources keep only web, mail and phone URLs, and images
+        // inline image data
+        const unsafeUrl =
+          (name === 'href' || name === 'src') &&
+          markdownRenderer.sanitizeUrl(attr.value, name === 'src') === null;
+        if (!allowedAttributes.includes(name) || unsafeUrl) {
+          el.removeAttribute(attr.name);
+        }
+      });
+    });
+
+    return clone;
+  }
+
+  private configureCustomRules(service: TurndownService): void {
     // Handle bold/strong tags with proper whitespace preservation
-    this.turndownService.addRule('strong', {
+    service.addRule('strong', {
       filter: ['strong', 'b'],
       replacement(content: string) {
         if (!content.trim()) return '';
@@ -87,7 +631,7 @@ class MarkdownConverter {
     });
 
     // Handle italic/emphasis tags with proper whitespace preservation
-    this.turndownService.addRule('emphasis', {
+    service.addRule('emphasis', {
       filter: ['em', 'i'],
       replacement(content: string) {
         if (!content.trim()) return '';
@@ -104,47 +648,1222 @@ class MarkdownConverter {
       },
     });
 
+    // Better handling of images with alt text
+    service.addRule('image', {
+      filter: 'img',
+      replacement(_content: string, node: Node) {
+        const img = node as HTMLImageElement;
+        const alt = img.alt || 'image';
+        const src = img.getAttribute('src') || '';
+        const title = img.title ? ` "${img.title}"` : '';
+
+        return src ? `![${alt}](${src}${title})` : '';
+      },
+    });
+
+    // Checkboxes in list items make task lists
+    service.addRule('taskListItem', {
+      filter: (node): boolean =>
+        node.nodeName === 'INPUT' &&
+        node.getAttribute('type')?.toLowerCase() === 'checkbox' &&
+        !!node.closest('li'),
+      replacement: (_content: string, node: Node) => {
+        const [checked, unchecked] = this.dialect.taskMarkers;
+        const marker = (node as Element).hasAttribute('checked')
+          ? checked
+          : unchecked;
+        // Reuse the label's own leading space when it has one
+        const next = node.nextSibling;
+        return next?.nodeType === Node.TEXT_NODE &&
+          /^\s/.test(next.textContent || '')
+          ? marker
+          : `${marker} `;
+      },
+    });
+
+    // Strikethrough, highlights, sub/superscripts and keys use the dialect's
+    // syntax where it has one, and otherwise stay inline HTML in Markdown
+    INLINE_FORMATTING.forEach(([name, tagNames]) => {
+      service.addRule(name, {
+        filter: (node): boolean => tagNames.includes(node.nodeName),
+        replacement: (content: string, node: Node) => {
+          const syntax = this.dialect.inlineSyntax[name];
+          if (syntax) return wrapInline(syntax[0], syntax[1])(content);
+          if (!this.dialect.markdown) return content;
+
+          const tagName = node.nodeName.toLowerCase();
+          return wrapInline(`<${tagName}>`, `</${tagName}>`)(content);
+        },
+      });
+    });
+
+    // Abbreviations keep their expansion
+    service.addRule('abbreviation', {
+      filter: (node): boolean =>
+        node.nodeName === 'ABBR' && !!node.getAttribute('title'),
+      replacement: (content: string, node: Node) => {
+        const title = ((node as Element).getAttribute('title') || '').trim();
+        if (!content.trim()) return content;
+        if (!this.dialect.markdown) return `${content} (${title})`;
+        return `<abbr title="${title.replace(/"/g, '&quot;')}">${content}</abbr>`;
+      },
+    });
+  }
+
+  private configureStructureRules(service: TurndownService): void {
+    // Collapsible sections keep their summary with the body
+    service.addRule('details', {
+      filter: 'details',
+      replacement: (content: string, node: Node) => {
+        const details = node as HTMLDetailsElement;
+        const summaryElement = Array.from(details.children).find(
+          (child) => child.nodeName === 'SUMMARY'
+        );
+        // Markdown dialects write the summary inside HTML, where Markdown
+        // isn't rendered, so it is kept as escaped text
+        let summary = '';
+        if (summaryElement && this.dialect.markdown) {
+          summary = this.toSingleLine(summaryElement.textContent || '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;');
+        } else if (summaryElement) {
+          summary = this.toSingleLine(
+            this.turndownService.turndown(summaryElement as HTMLElement)
+          );
+        }
+        const body = content.replace(/^\n+|\n+$/g, '');
+        if (!summary) return `\n\n${body}\n\n`;
+
+        const formatted = this.dialect.formatDetails
+          ? this.dialect.formatDetails(
+              summary,
+              body,
+              details.hasAttribute('open')
+            )
+          : `${summary}\n\n${body}`;
+        return `\n\n${formatted.trim()}\n\n`;
+      },
+    });
+
+    // Note/warning boxes from docs sites become alerts or callouts
+    service.addRule('callout', {
+      filter: (node): boolean => calloutDetector.isCallout(node),
+      replacement: (_content: string, node: Node) => {
+        const { type, title, body } = calloutDetector.parse(node as Element);
+        const content = this.turndownService.turndown(body).trim();
+        if (!content && !title) return '';
+        return `\n\n${this.dialect.formatCallout(type, title, content)}\n\n`;
+      },
+    });
+
+    // Embedded players become links to their content, with a thumbnail
+    // where one can be derived
+    service.addRule('embed', {
+      filter: ['iframe', 'video', 'audio'],
+      replacement: (_content: string, node: Node) => {
+        const element = node as Element;
+        const embed = embedResolver.resolve(element);
+        const style = embed
+          ? { ...DEFAULT_EMBED_STYLES, ...this.currentOptions.embeds }[
+              embed.type
+            ]
+          : 'remove';
+        if (!embed || style === 'remove') {
+          this.report.embedsSkipped.push(
+            embed?.url || element.getAttribute('src') || element.nodeName
+          );
+          return '';
+        }
+        return `\n\n${this.formatEmbed(embed, style)}\n\n`;
+      },
+    });
+
+    // Placeholder left by prepareHeadings
+    service.addRule('tableOfContents', {
+      filter: (node): boolean => node.nodeName === TOC_PLACEHOLDER,
+      replacement: () =>
+        this.tableOfContents ? `\n\n${this.tableOfContents}\n\n` : '',
+    });
+
+    // The summary is written by the details rule
+    service.addRule('summary', {
+      filter: 'summary',
+      replacement: () => '',
+    });
+
+    // Figures keep their caption directly under the image
+    service.addRule('figure', {
+      filter: (node): boolean =>
+        node.nodeName === 'FIGURE' &&
+        Array.from(node.children).some(
+          (child) => child.nodeName === 'FIGCAPTION'
+        ),
+      replacement: (_content: string, node: Node) => {
+        const figure = (node as Element).cloneNode(true) as HTMLElement;
+        const captions = Array.from(figure.children).filter(
+          (child) => child.nodeName === 'FIGCAPTION'
+        );
+        const caption = captions
+          .map((element) =>
+            this.toSingleLine(
+              this.turndownService.turndown(element as HTMLElement)
+            )
+          )
+          .filter(Boolean)
+          .join(' ');
+        const captionText = this.toSingleLine(
+          captions.map((element) => element.textContent || '').join(' ')
+        );
+        captions.forEach((element) => element.remove());
+
+        // Images without alt text borrow the caption
+        figure.querySelectorAll('img').forEach((img) => {
+          if (!img.getAttribute('alt') && captionText) {
+            img.setAttribute('alt', captionText);
+          }
+        });
+
+        const media = this.turndownService.turndown(figure).trim();
+        if (!caption) return media ? `\n\n${media}\n\n` : '';
+        if (!media) return `\n\n${caption}\n\n`;
+        return `\n\n${this.dialect.formatFigure(media, caption)}\n\n`;
+      },
+    });
+
+    // Definition lists: each term on its own line, followed by its
+    // descriptions, with a blank line between entries
+    service.addRule('definitionList', {
+      filter: 'dl',
+      replacement: (content: string) => {
+        const body = content.replace(/^\n+|\n+$/g, '');
+        return body ? `\n\n${body}\n\n` : '';
+      },
+    });
+
+    service.addRule('definitionTerm', {
+      filter: 'dt',
+      replacement: (content: string, node: Node) => {
+        const term = this.toSingleLine(content);
+        if (!term) return '';
+        const previous = (node as Element).previousElementSibling;
+        const separator = previous?.nodeName === 'DT' ? '\n' : '\n\n';
+        return `${separator}${this.dialect.formatDefinitionTerm(term)}\n`;
+      },
+    });
+
+    service.addRule('definitionDescription', {
+      filter: 'dd',
+      replacement: (content: string) => {
+        const description = content.replace(/^\n+|\n+$/g, '').trim();
+        if (!description) return '';
+        return `\n${this.dialect.formatDefinitionDescription(description)}\n`;
+      },
+    });
+  }
+
+  /**
+   * Write an embed as an [Embedded: provider](url) link, or as a linked
+   * thumbnail image when asked for and one is known
+   */
+  private formatEmbed(embed: Embed, style: EmbedStyle): string {
+    const title =
+      embed.title && embed.title !== embed.provider ? ` — ${embed.title}` : '';
+    let label = `Embedded: ${embed.provider}${title}`;
+    if (!this.dialect.markdown) {
+      return this.dialect.formatLink(label, embed.url);
+    }
+
+    label = label.replace(/([[\]])/g, '\\$1');
+    if (style === 'thumbnail' && embed.thumbnail) {
+      return `[![${label}](${embed.thumbnail})](${embed.url})`;
+    }
+    return `[${label}](${embed.url})`;
+  }
+
+  /**
+   * Collapse converted inline content onto one line
+   */
+  private toSingleLine(markdown: string): string {
+    return markdown.replace(/\s*\n+\s*/g, ' ').trim();
+  }
+
+  private configureCodeRules(service: TurndownService): void {
     // Handle code blocks with language hints
-    this.turndownService.addRule('fencedCodeBlock', {
-      filter(node): boolean {
+    service.addRule('fencedCodeBlock', {
+      filter: 'pre',
+      replacement: (_content: string, node: Node) => {
+        const { code, language } = this.getCodeBlock(
+          node as HTMLElement
+        ) as CodeBlock;
+        return this.formatCodeBlock(code, language);
+      },
+    });
+
+    // Highlighters that render code as a table with a line-number column
+    service.addRule('codeTable', {
+      filter: (node): boolean =>
+        node.nodeName === 'TABLE' && this.isCodeTable(node as HTMLElement),
+      replacement: (_content: string, node: Node) => {
+        const { code, language } = this.getCodeBlock(
+          node as HTMLElement
+        ) as CodeBlock;
+        return this.formatCodeBlock(code, language);
+      },
+    });
+  }
+
+  /**
+   * Get the code and language of a <pre> block or a highlighter's code
+   * table, or null for any other element
+   */
+  private getCodeBlock(element: HTMLElement): CodeBlock | null {
+    if (element.nodeName === 'PRE') {
+      return {
+        code: this.getCodeText(element),
+        language: codeLanguageDetector.detect(element),
+      };
+    }
+    if (element.nodeName !== 'TABLE' || !this.isCodeTable(element)) {
+      return null;
+    }
+
+    const table = element as HTMLTableElement;
+    const { code, isDiff } = this.getCodeTableText(table);
+    const pre = table.querySelector('pre');
+
+    // The table's wrappers may name the language when the <pre> doesn't
+    const language = isDiff
+      ? 'diff'
+      : (pre && codeLanguageDetector.detect(pre, '')) ||
+        codeLanguageDetector.detect(table, code);
+
+    return { code, language };
+  }
+
+  /**
+   * Get the source text of a <pre> block, with or without a <code> child
+   */
+  private getCodeText(pre: HTMLElement): string {
+    const clone = pre.cloneNode(true) as HTMLElement;
+
+    // Copy buttons and line-number spans are not part of the source
+    clone.querySelectorAll(CODE_CHROME_SELECTOR).forEach((el) => el.remove());
+
+    // Some highlighters separate lines with <br> instead of newlines
+    clone.querySelectorAll('br').forEach((br) => {
+      br.replaceWith(clone.ownerDocument.createTextNode('\n'));
+    });
+
+    return (clone.textContent || '').replace(/\n$/, '');
+  }
+
+  /**
+   * Check whether a table is a highlighter's code listing
+   */
+  private isCodeTable(table: HTMLElement): boolean {
+    if (table.matches(CODE_TABLE_SELECTOR)) return true;
+
+    // Otherwise require a gutter column next to a code column in every row
+    const rows = this.getTableRows(table as HTMLTableElement);
+    return (
+      rows.length > 0 &&
+      rows.every((row) => {
+        const cells = this.getRowCells(row);
+        return (
+          cells.length === 2 &&
+          GUTTER_CELL_PATTERN.test(cells[0].className) &&
+          !GUTTER_CELL_PATTERN.test(cells[1].className)
+        );
+      })
+    );
+  }
+
+  /**
+   * Extract the source from a code table, dropping the line-number cells
+   * and turning rendered diff rows back into +/- lines
+   */
+  private getCodeTableText(table: HTMLTableElement): {
+    code: string;
+    isDiff: boolean;
+  } {
+    const lines: string[] = [];
+    const markers: string[] = [];
+
+    this.getTableRows(table).forEach((row) => {
+      // Gutters are known by their class, never by their digits, since
+      // code lines can be numbers too; the code is in the last column
+      const codeCells = this.getRowCells(row).filter(
+        (cell) => !GUTTER_CELL_PATTERN.test(cell.className)
+      );
+      if (codeCells.length === 0) {
+        // Empty source lines have an empty code cell
+        if (this.getRowCells(row).length > 1) {
+          lines.push('');
+          markers.push(' ');
+        }
+        return;
+      }
+
+      const cell = codeCells[codeCells.length - 1];
+      const pre = cell.querySelector('pre');
+      // Two-column layouts hold the whole listing in a single <pre>
+      const text = pre
+        ? this.getCodeText(pre)
+        : this.getCodeText(cell as HTMLElement);
+      const classes = `${row.className} ${cell.className}`;
+
+      text.split('\n').forEach((line) => {
+        lines.push(line);
+        if (DIFF_ADDITION_PATTERN.test(classes)) markers.push('+');
+        else if (DIFF_DELETION_PATTERN.test(classes)) markers.push('-');
+        else markers.push(' ');
+      });
+    });
+
+    const isDiff = markers.some((marker) => marker !== ' ');
+    const code = isDiff
+      ? lines
+          .map((line, index) =>
+            // Keep markers some sites already render in the text
+            /^[+-]/.test(line) ? line : `${markers[index]}${line}`
+          )
+          .join('\n')
+      : lines.join('\n');
+
+    return { code, isDiff };
+  }
+
+  /**
+   * Remove shell and REPL prompt markers from the start of lines, in
+   * session languages or blocks where every line starts with a prompt
+   */
+  private stripPrompts(code: string, language: string): string {
+    const lines = code.split('\n');
+    const isSession =
+      PROMPT_LANGUAGES.has(language) ||
+      lines.every((line) => !line.trim() || PROMPT_PATTERN.test(line));
+    if (!isSession) return code;
+
+    return lines.map((line) => line.replace(PROMPT_PATTERN, '')).join('\n');
+  }
+
+  /**
+   * Wrap code in a fence, applying the prompt-stripping preference
+   */
+  private formatCodeBlock(code: string, language: string): string {
+    const source = this.currentOptions.stripPrompts
+      ? this.stripPrompts(code, language)
+      : code;
+    if (this.dialect.formatCodeBlock) {
+      return `\n\n${this.dialect.formatCodeBlock(source, language)}\n\n`;
+    }
+
+    const fence = this.getCodeFence(source);
+    return `\n\n${fence}${language}\n${source}\n${fence}\n\n`;
+  }
+
+  /**
+   * Build a backtick fence longer than any backtick run inside the code
+   */
+  private getCodeFence(code: string): string {
+    const longestRun = (code.match(/`+/g) || []).reduce(
+      (longest, run) => Math.max(longest, run.length),
+      0
+    );
+    return '`'.repeat(Math.max(3, longestRun + 1));
+  }
+
+  private configureMathRules(service: TurndownService): void {
+    // MathJax, KaTeX, Wikipedia and plain MathML formulas become TeX
+    service.addRule('math', {
+      filter: (node): boolean => this.getMathSource(node) !== null,
+      replacement: (_content: string, node: Node) => {
+        const { tex, isDisplay } = this.getMathSource(
+          node as Element
+        ) as MathSource;
+        return this.formatMath(tex, isDisplay);
+      },
+    });
+  }
+
+  /**
+   * Recover the TeX of a math element and whether it is display math, or
+   * null for elements that aren't math
+   */
+  private getMathSource(element: Element): MathSource | null {
+    const { classList } = element;
+    const type = element.getAttribute('type') || '';
+
+    // MathJax 2 keeps the original TeX in script tags beside the rendering
+    if (element.nodeName === 'SCRIPT') {
+      if (!/^math\/tex/i.test(type)) return null;
+      return {
+        tex: element.textContent || '',
+        isDisplay: /mode\s*=\s*display/i.test(type),
+      };
+    }
+
+    // Rendered MathJax output is glyph soup; use its MathML when there is
+    // no script source next to it (MathJax 3 assistive MathML)
+    if (
+      element.nodeName === 'MJX-CONTAINER' ||
+      MATHJAX_CLASSES.some((name) => classList.contains(name))
+    ) {
+      const math = element.querySelector('math');
+      if (
+        classList.contains('MathJax_Preview') ||
+        !math ||
+        this.hasMathJaxScriptSibling(element as HTMLElement)
+      ) {
+        return { tex: '', isDisplay: false };
+      }
+
+      return {
+        tex: this.mathToTex(math),
+        isDisplay:
+          element.getAttribute('display') === 'true' ||
+          classList.contains('MathJax_Display') ||
+          mathmlConverter.isDisplayMath(math),
+      };
+    }
+
+    // KaTeX ships the TeX source as a MathML annotation
+    if (classList.contains('katex') || classList.contains('katex-display')) {
+      const math = element.querySelector('.katex-mathml math, math');
+      return {
+        tex: math ? this.mathToTex(math) : '',
+        isDisplay: classList.contains('katex-display'),
+      };
+    }
+
+    // Wikipedia wraps MathML and a fallback image whose alt text is TeX
+    if (classList.contains('mwe-math-element')) {
+      const math = element.querySelector('math');
+      const isDisplay =
+        element.querySelector('.mwe-math-mathml-display') !== null ||
+        (math !== null && mathmlConverter.isDisplayMath(math));
+
+      return {
+        tex: math
+          ? this.mathToTex(math)
+          : element.querySelector('img')?.getAttribute('alt') || '',
+        isDisplay,
+      };
+    }
+
+    // Plain MathML, converted to LaTeX when no TeX source is embedded
+    if (element.nodeName.toLowerCase() === 'math') {
+      return {
+        tex: this.mathToTex(element),
+        isDisplay: mathmlConverter.isDisplayMath(element),
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Recover TeX from a MathML element, preferring the embedded source
+   */
+  private mathToTex(math: Element): string {
+    return (
+      mathmlConverter.getTexAnnotation(math) || mathmlConverter.toLatex(math)
+    );
+  }
+
+  /**
+   * Check whether a rendered MathJax element has its TeX script alongside
+   */
+  private hasMathJaxScriptSibling(element: HTMLElement): boolean {
+    let sibling = element.nextElementSibling;
+    while (sibling && sibling.nodeName !== 'SCRIPT') {
+      sibling = sibling.nextElementSibling;
+    }
+    return (
+      sibling !== null && /^math\/tex/i.test(sibling.getAttribute('type') || '')
+    );
+  }
+
+  /**
+   * Wrap TeX in inline ($...$) or display ($$...$$) math delimiters
+   */
+  private formatMath(tex: string, isDisplay: boolean): string {
+    const source = this.cleanTex(tex);
+    if (!source) return '';
+
+    return isDisplay ? `\n\n$$\n${source}\n$$\n\n` : `$${source}$`;
+  }
+
+  /**
+   * Trim TeX, unwrapping the {\displaystyle ...} Wikipedia puts around
+   * every formula
+   */
+  private cleanTex(tex: string): string {
+    return tex
+      .trim()
+      .replace(/^\{\\(?:displaystyle|textstyle)\s*([\s\S]*)\}$/, '$1')
+      .trim();
+  }
+
+  private configureFootnoteRules(service: TurndownService): void {
+    // References such as <sup><a href="#fn1">1</a></sup> become [^1]
+    service.addRule('footnoteReference', {
+      filter: (node): boolean => {
+        if (node.nodeName === 'SUP') {
+          const links = node.querySelectorAll('a');
+          return (
+            links.length === 1 && this.findFootnoteDefinition(links[0]) !== null
+          );
+        }
         return (
-          node.nodeName === 'PRE' &&
-          node.firstChild !== null &&
-          node.firstChild.nodeName === 'CODE'
+          node.nodeName === 'A' &&
+          node.parentElement?.nodeName !== 'SUP' &&
+          this.findFootnoteDefinition(node) !== null
         );
       },
-      replacement(_content: string, node: Node, _options: any) {
-        const codeNode = (node as HTMLElement).firstChild as HTMLElement;
-        const className = codeNode.getAttribute('class') || '';
-        const language = className.match(/language-(\w+)/)?.[1] || '';
+      replacement: (_content: string, node: Node) => {
+        const element = node as HTMLElement;
+        const link =
+          element.nodeName === 'A' ? element : element.querySelector('a');
+        const definition = link && this.findFootnoteDefinition(link);
+        if (!definition) return '';
 
-        return `\n\n\`\`\`${language}\n${codeNode.textContent}\n\`\`\`\n\n`;
+        return this.dialect.formatFootnoteReference(
+          this.getFootnoteLabel(definition)
+        );
       },
     });
 
-    // Better handling of images with alt text
-    this.turndownService.addRule('image', {
-      filter: 'img',
-      replacement(_content: string, node: Node) {
-        const img = node as HTMLImageElement;
-        const alt = img.alt || 'image';
-        const src = img.src || '';
-        const title = img.title ? ` "${img.title}"` : '';
+    // Definitions outside a footnotes container, found by their ids or
+    // roles, move to the end of the document too
+    service.addRule('footnoteDefinition', {
+      filter: (node): boolean => {
+        const definition = this.findSourceElement(node);
+        return (
+          !!definition &&
+          this.footnoteDefinitions.has(definition) &&
+          !definition.closest(FOOTNOTE_CONTAINER_SELECTOR)
+        );
+      },
+      replacement: (_content: string, node: Node) => {
+        const definition = this.findSourceElement(node as Element);
+        if (definition) this.getFootnoteLabel(definition);
+        return '';
+      },
+    });
 
-        return src ? `![${alt}](${src}${title})` : '';
+    // The definition list itself is emitted at the end of the document
+    service.addRule('footnoteDefinitions', {
+      filter(node): boolean {
+        return node.matches(FOOTNOTE_CONTAINER_SELECTOR);
+      },
+      replacement: (_content: string, node: Node) => {
+        const container = node as HTMLElement;
+
+        // Register definitions nobody referenced so they are not lost;
+        // Turndown works on a copy, so map items back to the document
+        this.getContainerDefinitions(container).forEach((item) => {
+          this.getFootnoteLabel(this.findSourceElement(item) || item);
+        });
+
+        return '';
       },
     });
   }
 
-  public convert(html: string, options: ConversionOptions = {}): string {
-    let markdown = this.turndownService.turndown(html);
+  private configureLinkRules(service: TurndownService): void {
+    // Inline links are left to Turndown's built-in rule, other dialects
+    // bring their own link syntax
+    service.addRule('styledLink', {
+      filter: (node): boolean =>
+        this.dialect.markdown &&
+        node.nodeName === 'A' &&
+        !!node.getAttribute('href') &&
+        (this.currentOptions.linkStyle || 'inline') !== 'inline',
+      replacement: (content: string, node: Node) => {
+        if (this.currentOptions.linkStyle === 'strip' || !content.trim()) {
+          return content;
+        }
+
+        const link = node as HTMLAnchorElement;
+        const url = link.getAttribute('href') || '';
+        const title = link.getAttribute('title') || '';
+        const key = `${url} ${title}`;
+
+        let reference = this.linkReferences.get(key);
+        if (!reference) {
+          reference = { index: this.linkReferences.size + 1, url, title };
+          this.linkReferences.set(key, reference);
+        }
+
+        return `[${content}][${reference.index}]`;
+      },
+    });
+  }
+
+  /**
+   * Format a reference link definition line
+   */
+  private formatLinkReference(reference: LinkReference): string {
+    const url = /[\s<>]/.test(reference.url)
+      ? `<${reference.url}>`
+      : reference.url;
+    const title = reference.title
+      ? ` "${reference.title.replace(/"/g, '\\"')}"`
+      : '';
+    return `[${reference.index}]: ${url}${title}`;
+  }
+
+  /**
+   * Add the link table to the end of the document or of each section
+   */
+  private appendLinkReferences(
+    markdown: string,
+    placement: ConversionOptions['linkTablePlacement']
+  ): string {
+    const references = Array.from(this.linkReferences.values());
+    if (references.length === 0) return markdown;
+
+    if (placement !== 'section') {
+      const table = references.map((ref) => this.formatLinkReference(ref));
+      return `${markdown}\n\n${table.join('\n')}`;
+    }
+
+    // Split at headings outside code fences and list each link after the
+    // section that first uses it
+    const sections: string[][] = [[]];
+    let inFence = false;
+    markdown.split('\n').forEach((line) => {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+      if (
+        !inFence &&
+        /^#{1,6}\s/.test(line) &&
+        sections[sections.length - 1].length > 0
+      ) {
+        sections.push([]);
+      }
+      sections[sections.length - 1].push(line);
+    });
+
+    const listed = new Set<number>();
+    return sections
+      .map((lines) => {
+        const section = lines.join('\n').replace(/\n+$/, '');
+        const used = references.filter(
+          (ref) => !listed.has(ref.index) && section.includes(`][${ref.index}]`)
+        );
+        if (used.length === 0) return section;
+
+        used.forEach((ref) => listed.add(ref.index));
+        const table = used.map((ref) => this.formatLinkReference(ref));
+        return `${section}\n\n${table.join('\n')}`;
+      })
+      .join('\n\n');
+  }
+
+  /**
+   * Find the footnote definition an in-page link points to, if any
+   */
+  private findFootnoteDefinition(link: Element): Element | null {
+    const fragment = this.getSameDocumentFragment(
+      link.getAttribute('href') || ''
+    );
+    if (!this.currentRoot || !fragment) return null;
+
+    const target = this.findElementById(this.decodeFragment(fragment));
+    if (!target) return null;
+
+    const definition = target.closest('li') || target;
+    const isDefinition =
+      definition.closest(FOOTNOTE_CONTAINER_SELECTOR) !== null ||
+      ['doc-endnote', 'doc-footnote'].includes(
+        definition.getAttribute('role') || ''
+      ) ||
+      /^(fn(?!ref)|cite_note|footnote(?!ref))/i.test(definition.id);
+
+    return isDefinition ? definition : null;
+  }
+
+  /**
+   * Get the definitions an element holds, which are listed at the end of
+   * the document instead, or null for any other element
+   */
+  private getFootnoteDefinitionsIn(element: Element): Element[] | null {
+    if (element.matches(FOOTNOTE_CONTAINER_SELECTOR)) {
+      return this.getContainerDefinitions(element);
+    }
+    return this.footnoteDefinitions.has(element) &&
+      !element.closest(FOOTNOTE_CONTAINER_SELECTOR)
+      ? [element]
+      : null;
+  }
+
+  /**
+   * Get the list items of a footnotes container, leaving out nested lists
+   */
+  private getContainerDefinitions(container: Element): Element[] {
+    return Array.from(container.querySelectorAll('li')).filter(
+      (item) =>
+        item.parentElement?.closest(`li, ${FOOTNOTE_CONTAINER_SELECTOR}`) ===
+        container
+    );
+  }
+
+  /**
+   * Find every footnote definition linked to from the document
+   */
+  private findFootnoteDefinitions(root: HTMLElement): Set<Element> {
+    const definitions = new Set<Element>();
+    root.querySelectorAll('a[href]').forEach((link) => {
+      const definition = this.findFootnoteDefinition(link);
+      if (definition) definitions.add(definition);
+    });
+    return definitions;
+  }
+
+  /**
+   * Map an element of Turndown's copy back to the document through its id,
+   * or for a list item the id of an element inside it
+   */
+  private findSourceElement(node: Element): Element | null {
+    if (node.id) return this.findElementById(node.id);
+    if (node.nodeName !== 'LI') return null;
+
+    const inner = node.querySelector('[id]');
+    return (inner && this.findElementById(inner.id)?.closest('li')) || null;
+  }
+
+  /**
+   * Get the fragment of a link into the document being converted, which
+   * may already have been made absolute against the page URL
+   */
+  private getSameDocumentFragment(href: string): string {
+    if (href.startsWith('#')) return href.slice(1);
+    if (!this.currentBaseUrl) return '';
+
+    try {
+      const url = new URL(href, this.currentBaseUrl);
+      return this.stripHash(url.href) === this.stripHash(this.currentBaseUrl)
+        ? url.hash.slice(1)
+        : '';
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Look up an element by id in the document being converted
+   */
+  private findElementById(id: string): Element | null {
+    if (!this.currentRoot || !id) return null;
+
+    const escaped = id.replace(/["\\]/g, '\\$&');
+    return this.currentRoot.querySelector(`[id="${escaped}"]`);
+  }
+
+  private decodeFragment(fragment: string): string {
+    try {
+      return decodeURIComponent(fragment);
+    } catch {
+      return fragment;
+    }
+  }
+
+  /**
+   * Get (or assign) the footnote label for a definition
+   */
+  private getFootnoteLabel(definition: Element): number {
+    let label = this.footnotes.get(definition);
+    if (label === undefined) {
+      label = this.footnotes.size + 1;
+      this.footnotes.set(definition, label);
+    }
+    return label;
+  }
+
+  /**
+   * Render the dialect's definitions for every footnote collected so far
+   */
+  private renderFootnoteDefinitions(): string {
+    const definitions: string[] = [];
+
+    // Converting a definition may reference further footnotes, which the
+    // Map iterator still visits because they are appended to the end
+    this.footnotes.forEach((label, definition) => {
+      const content = this.turndownService
+        .turndown(this.getFootnoteContent(definition))
+        .trim();
+      definitions.push(this.dialect.formatFootnoteDefinition(label, content));
+    });
+
+    return definitions.join('\n');
+  }
+
+  /**
+   * Copy a footnote definition without the links back to its references
+   */
+  private getFootnoteContent(definition: Element): HTMLElement {
+    const clone = definition.cloneNode(true) as HTMLElement;
+    clone
+      .querySelectorAll(FOOTNOTE_BACKLINK_SELECTOR)
+      .forEach((el) => el.remove());
+    clone.querySelectorAll('a').forEach((link) => {
+      if (/^\s*[↩^][\s\uFE0E\uFE0F\d]*$/.test(link.textContent || '')) {
+        link.remove();
+      }
+    });
+    return clone;
+  }
+
+  /**
+   * Point in-page links at heading slugs and optionally normalize heading
+   * levels, returning the headings
+   */
+  private prepareHeadings(
+    root: HTMLElement,
+    options: ConversionOptions
+  ): HeadingEntry[] {
+    headingOutliner.stripPermalinks(root);
+    let headings = headingOutliner.outline(root);
+    if (headings.length === 0) return headings;
+
+    if (options.normalizeHeadings) {
+      const levels = headingOutliner.normalizeLevels(headings);
+      headings = headings.map((heading, index) => ({
+        ...heading,
+        element: this.setHeadingLevel(heading.element, levels[index]),
+        level: levels[index],
+      }));
+    }
+
+    // Markdown renderers give headings slug ids, so anchors to the page's
+    // own ids would otherwise lead nowhere
+    if (this.dialect.markdown) {
+      this.rewriteHeadingAnchors(root, headings);
+    }
+
+    return headings;
+  }
+
+  /**
+   * Place a table of contents under a lone leading H1, otherwise at the top
+   */
+  private insertTableOfContents(
+    root: HTMLElement,
+    headings: HeadingEntry[]
+  ): void {
+    if (headings.length === 0) return;
+
+    this.tableOfContents = this.dialect.formatTableOfContents(
+      headingOutliner.getTableOfContents(headings)
+    );
+
+    const placeholder = root.ownerDocument.createElement(TOC_PLACEHOLDER);
+    // Turndown drops empty elements before any rule sees them
+    placeholder.textContent = 'contents';
+    const [first] = headings;
+    const titles = headings.filter((heading) => heading.level === 1);
+    if (titles.length === 1 && titles[0] === first) {
+      first.element.after(placeholder);
+    } else {
+      root.prepend(placeholder);
+    }
+  }
+
+  /**
+   * Swap a heading for one at another level, keeping its content
+   */
+  private setHeadingLevel(heading: HTMLElement, level: number): HTMLElement {
+    if (Number(heading.nodeName.charAt(1)) === level) return heading;
+
+    const replacement = heading.ownerDocument.createElement(`h${level}`);
+    Array.from(heading.attributes).forEach((attribute) =>
+      replacement.setAttribute(attribute.name, attribute.value)
+    );
+    replacement.append(...Array.from(heading.childNodes));
+    heading.replaceWith(replacement);
+    return replacement;
+  }
 
-    // Light post-processing for any remaining formatting issues
-    markdown = this.cleanupMarkdown(markdown);
+  /**
+   * Rewrite #fragment links that target a heading, or an anchor inside or
+   * just before one, to the heading's slug
+   */
+  private rewriteHeadingAnchors(
+    root: HTMLElement,
+    headings: HeadingEntry[]
+  ): void {
+    const slugs = new Map<string, string>();
+    headings.forEach(({ element, slug }) => {
+      const previous = element.previousElementSibling;
+      const targets = [
+        element,
+        ...Array.from(element.querySelectorAll('[id], a[name]')),
+        ...(previous && !previous.textContent?.trim() ? [previous] : []),
+      ];
+      targets.forEach((target) => {
+        [target.getAttribute('id'), target.getAttribute('name')].forEach(
+          (id) => {
+            if (id && !slugs.has(id)) slugs.set(id, slug);
+          }
+        );
+      });
+    });
+
+    root.querySelectorAll('a[href^="#"]').forEach((link) => {
+      const fragment = this.decodeFragment(
+        (link.getAttribute('href') || '').slice(1)
+      );
+      const slug = slugs.get(fragment);
+      if (slug) link.setAttribute('href', `#${slug}`);
+    });
+
+    // Dialect rules look headings up by the new anchors
+    headings.forEach(({ element, slug }) => element.setAttribute('id', slug));
+  }
+
+  /**
+   * Determine the URL relative links resolve against: a <base> element in
+   * the HTML wins over the page URL
+   */
+  private getDocumentBaseUrl(
+    parsed: Document,
+    pageUrl?: string
+  ): string | null {
+    const baseHref = parsed.querySelector('base[href]')?.getAttribute('href');
+
+    try {
+      if (baseHref) {
+        return new URL(baseHref, pageUrl || undefined).href;
+      }
+      return pageUrl ? new URL(pageUrl).href : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Rewrite link and image URLs in the document to absolute form
+   */
+  private resolveUrls(
+    root: HTMLElement,
+    baseUrl: string,
+    relativeAnchors: boolean
+  ): void {
+    const resolve = (url: string): string => {
+      const trimmed = url.trim();
+      if (!trimmed) return url;
+
+      try {
+        const resolved = new URL(trimmed, baseUrl);
+
+        // Same-page anchors stay relative so they keep working in the note
+        if (
+          relativeAnchors &&
+          resolved.hash &&
+          (trimmed.startsWith('#') ||
+            this.stripHash(resolved.href) === this.stripHash(baseUrl))
+        ) {
+          return resolved.hash;
+        }
+
+        return resolved.href;
+      } catch {
+        return url;
+      }
+    };
+
+    const attributes: Array<[string, string]> = [
+      ['a[href]', 'href'],
+      ['area[href]', 'href'],
+      ['img[src]', 'src'],
+      ['source[src]', 'src'],
+      ['video[src]', 'src'],
+      ['video[poster]', 'poster'],
+      ['audio[src]', 'src'],
+      ['iframe[src]', 'src'],
+    ];
+
+    attributes.forEach(([selector, attribute]) => {
+      root.querySelectorAll(selector).forEach((el) => {
+        el.setAttribute(attribute, resolve(el.getAttribute(attribute) || ''));
+      });
+    });
+
+    root.querySelectorAll('img[srcset], source[srcset]').forEach((el) => {
+      const srcset = (el.getAttribute('srcset') || '')
+        .split(/,\s+/)
+        .map((candidate) => {
+          const [url, ...descriptors] = candidate.trim().split(/\s+/);
+          return [resolve(url), ...descriptors].join(' ');
+        })
+        .join(', ');
+      el.setAttribute('srcset', srcset);
+    });
+  }
+
+  private stripHash(url: string): string {
+    return url.replace(/#.*$/, '');
+  }
+
+  /**
+   * Run Turndown over the HTML and apply document-level post-processing
+   */
+  private toMarkdown(
+    html: string,
+    options: ConversionOptions = {}
+  ): Omit<ConversionResult, 'metadata'> {
+    const parsed = new DOMParser().parseFromString(html, 'text/html');
+    this.currentRoot = parsed.body;
+    this.currentOptions = options;
+    this.dialect = dialectRegistry.get(options.dialect);
+    this.turndownService = this.getService(this.dialect.id);
+    this.footnotes.clear();
+    this.linkReferences.clear();
+    this.report = { ...this.createReport(), htmlSize: this.byteSize(html) };
+
+    if ({ ...DEFAULT_NORMALIZATION, ...options.normalization }.emojiImages) {
+      textNormalizer.replaceEmojiImages(parsed.body);
+    }
+    // Text is normalized in the document, where code is easy to leave out
+    textNormalizer.normalizeTree(parsed.body, options.normalization);
+    imageResolver.resolveImages(parsed.body);
+    const baseUrl = this.getDocumentBaseUrl(parsed, options.baseUrl);
+    this.currentBaseUrl = baseUrl;
+    if (baseUrl) {
+      this.resolveUrls(parsed.body, baseUrl, options.relativeAnchors ?? true);
+    }
+    this.report.imagesMissingAlt = this.findImagesMissingAlt(parsed.body);
+    const cleanHtml = options.includeHtml
+      ? this.sanitizeElement(parsed.body).innerHTML
+      : undefined;
+    const headings = this.prepareHeadings(parsed.body, options);
+
+    this.footnoteDefinitions = this.findFootnoteDefinitions(parsed.body);
+
+    // The tree is built from the prepared document, before the table of
+    // contents placeholder goes in, with the same code, math, callout and
+    // footnote handling as the Markdown
+    const ast = options.includeAst
+      ? markdownAstBuilder.build(parsed.body, {
+          getCode: (element) => {
+            const block = this.getCodeBlock(element);
+            if (!block) return null;
+            return {
+              lang: block.language || null,
+              value: options.stripPrompts
+                ? this.stripPrompts(block.code, block.language)
+                : block.code,
+            };
+          },
+          getMath: (element) => {
+            const math = this.getMathSource(element);
+            return (
+              math && {
+                value: this.cleanTex(math.tex),
+                display: math.isDisplay,
+              }
+            );
+          },
+          getCallout: (element) =>
+            calloutDetector.isCallout(element)
+              ? calloutDetector.parse(element)
+              : null,
+          getFootnoteDefinition: (link) => this.findFootnoteDefinition(link),
+          getFootnoteDefinitions: (element) =>
+            this.getFootnoteDefinitionsIn(element),
+          getFootnoteContent: (definition) =>
+            this.getFootnoteContent(definition),
+        })
+      : undefined;
+
+    if (options.tableOfContents) {
+      this.insertTableOfContents(parsed.body, headings);
+    }
+
+    try {
+      let markdown = this.turndownService.turndown(this.currentRoot);
+
+      const footnotes = this.renderFootnoteDefinitions();
+      if (footnotes) {
+        markdown = `${markdown}\n\n${footnotes}`;
+      }
+
+      markdown = this.appendLinkReferences(
+        markdown,
+        options.linkTablePlacement
+      );
+
+      // Light post-processing for any remaining formatting issues
+      markdown = this.cleanupMarkdown(markdown);
+
+      // Hard line breaks are only soft in Markdown, so other dialects keep
+      // their paragraphs on one line
+      if (options.wrap && this.dialect.markdown) {
+        markdown = lineWrapper.wrap(markdown, options.wrap, options.wrapWidth);
+      }
+
+      const report = options.includeReport
+        ? { ...this.report, markdownSize: this.byteSize(markdown) }
+        : undefined;
+      return { markdown, ast, report, html: cleanHtml };
+    } finally {
+      this.currentRoot = null;
+      this.currentBaseUrl = null;
+      this.currentOptions = {};
+      this.dialect = dialectRegistry.get('gfm');
+      this.turndownService = this.getService('gfm');
+      this.footnotes.clear();
+      this.footnoteDefinitions.clear();
+      this.linkReferences.clear();
+      this.tableOfContents = '';
+      this.report = this.createReport();
+    }
+  }
+
+  private createReport(): ConversionReport {
+    return {
+      imagesMissingAlt: [],
+      tablesFlattened: 0,
+      tablesAsHtml: 0,
+      embedsSkipped: [],
+      htmlSize: 0,
+      markdownSize: 0,
+    };
+  }
+
+  /**
+   * List the images written without alt text; figure captions stand in
+   * for a missing alt
+   */
+  private findImagesMissingAlt(root: HTMLElement): string[] {
+    return Array.from(root.querySelectorAll('img'))
+      .filter(
+        (img) =>
+          !img.getAttribute('alt')?.trim() &&
+          !img.closest('figure')?.querySelector('figcaption')
+      )
+      .map((img) => img.getAttribute('src') || '');
+  }
+
+  private byteSize(text: string): number {
+    return new Blob([text]).size;
+  }
+
+  public convert(html: string, options: ConversionOptions = {}): string {
+    let { markdown } = this.toMarkdown(html, options);
 
     if (options.includeMetadata) {
-      const metadata = this.generateMetadata(options.baseUrl);
-      markdown = `${metadata}\n\n---\n\n${markdown}`;
+      markdown = this.applyTemplate(
+        markdown,
+        {
+          title: '',
+          url: options.baseUrl || '',
+          timestamp: new Date().toISOString(),
+        },
+        options
+      );
     }
 
     return markdown;
@@ -153,17 +1872,32 @@ class MarkdownConverter {
   public convertWithMetadata(
     html: string,
     title: string,
-    url: string
+    url: string,
+    options: ConversionOptions = {}
   ): ConversionResult {
     const timestamp = new Date().toISOString();
-    const metadata = `Source: [${title}](${url})\nCaptured: ${timestamp}`;
-    let markdown = this.turndownService.turndown(html);
-
-    // Light post-processing for any remaining formatting issues
-    markdown = this.cleanupMarkdown(markdown);
+    const {
+      markdown,
+      ast,
+      report,
+      html: cleanHtml,
+    } = this.toMarkdown(html, {
+      ...options,
+      baseUrl: options.baseUrl || url,
+    });
+    const output = this.applyTemplate(
+      markdown,
+      { title, url, timestamp },
+      options
+    );
 
     return {
-      markdown: `${metadata}\n\n---\n\n${markdown}`,
+      markdown: output,
+      ...(ast && { ast }),
+      ...(cleanHtml !== undefined && { html: cleanHtml }),
+      ...(report && {
+        report: { ...report, markdownSize: this.byteSize(output) },
+      }),
       metadata: {
         title,
         url,
@@ -172,6 +1906,88 @@ class MarkdownConverter {
     };
   }
 
+  /**
+   * Convert HTML along with a report of what it couldn't carry over
+   */
+  public convertWithReport(
+    html: string,
+    options: ConversionOptions = {}
+  ): { markdown: string; report: ConversionReport; html?: string } {
+    const {
+      markdown,
+      report,
+      html: cleanHtml,
+    } = this.toMarkdown(html, {
+      ...options,
+      includeReport: true,
+    });
+    return {
+      markdown,
+      report: report as ConversionReport,
+      ...(cleanHtml !== undefined && { html: cleanHtml }),
+    };
+  }
+
+  /**
+   * Build the mdast syntax tree for HTML, with each node mapped back to
+   * the DOM node it came from
+   */
+  public toAst(html: string, options: ConversionOptions = {}): MarkdownTree {
+    const { ast } = this.toMarkdown(html, { ...options, includeAst: true });
+    return ast as MarkdownTree;
+  }
+
+  /**
+   * Wrap converted content in the output envelope: the user's template
+   * when set, otherwise the built-in header or front matter layout
+   */
+  public applyTemplate(
+    content: string,
+    header: MetadataHeader,
+    options: ConversionOptions = {}
+  ): string {
+    const dialect = dialectRegistry.get(options.dialect);
+    const page = options.pageMetadata;
+
+    let { template } = options;
+    if (!template?.trim()) {
+      template =
+        options.metadataFormat === 'frontmatter' && dialect.markdown
+          ? TEMPLATE_PRESETS.frontmatter.template
+          : TEMPLATE_PRESETS.header.template;
+    }
+
+    return templateEngine.render(template, {
+      title: header.title,
+      url: header.url,
+      domain: templateEngine.getDomain(header.url),
+      date: new Date(header.timestamp),
+      timestamp: header.timestamp,
+      content,
+      selection: !!header.selection,
+      link: header.title
+        ? dialect.formatLink(header.title, header.url)
+        : header.url,
+      hr: dialect.horizontalRule,
+      author: page?.author,
+      description: page?.description,
+      published: page?.publishedTime,
+      canonical: page?.canonicalUrl,
+      tags: page?.tags,
+      frontmatter: frontMatterBuilder.build({
+        title: header.title,
+        url: header.url,
+        canonical: page?.canonicalUrl,
+        author: page?.author,
+        published: page?.publishedTime,
+        captured: header.timestamp,
+        description: page?.description,
+        tags: page?.tags,
+        selection: header.selection,
+      }),
+    });
+  }
+
   private cleanupMarkdown(markdown: string): string {
     let result = markdown;
 
@@ -187,19 +2003,11 @@ class MarkdownConverter {
     return result;
   }
 
-  private generateMetadata(url?: string): string {
-    const timestamp = new Date().toISOString();
-    const metadata = [`Captured: ${timestamp}`];
-
-    if (url) {
-      metadata.unshift(`Source: ${url}`);
-    }
-
-    return metadata.join('\n');
-  }
-
   public setOption(key: string, value: any): void {
-    (this.turndownService.options as any)[key] = value;
+    this.optionOverrides[key] = value;
+    this.services.forEach((service) => {
+      (service.options as any)[key] = value;
+    });
   }
 }
 
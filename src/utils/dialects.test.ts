@@ -0,0 +1,321 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import MarkdownConverter from './converter';
+import { dialectRegistry } from './dialects';
+
+describe('Output dialects', () => {
+  let markdownConverter: MarkdownConverter;
+
+  beforeEach(() => {
+    markdownConverter = new MarkdownConverter();
+  });
+
+  describe('DialectRegistry', () => {
+    it('should list every dialect', () => {
+      expect(dialectRegistry.list().map((dialect) => dialect.id)).toEqual([
+        'commonmark',
+        'gfm',
+        'obsidian',
+        'slack',
+        'jira',
+        'asciidoc',
+        'org',
+      ]);
+    });
+
+    it('should fall back to GFM for unknown ids', () => {
+      expect(dialectRegistry.get('textile').id).toBe('gfm');
+      expect(dialectRegistry.get().id).toBe('gfm');
+      expect(dialectRegistry.isDialect('jira')).toBe(true);
+      expect(dialectRegistry.isDialect('textile')).toBe(false);
+    });
+
+    it('should not take Object.prototype keys for dialects', () => {
+      ['constructor', 'toString', '__proto__'].forEach((id) => {
+        expect(dialectRegistry.isDialect(id)).toBe(false);
+        expect(dialectRegistry.get(id).id).toBe('gfm');
+      });
+    });
+  });
+
+  describe('GFM', () => {
+    it('should be the default dialect', () => {
+      const html = '<table><tr><th>A</th></tr><tr><td>1</td></tr></table>';
+      expect(markdownConverter.convert(html, { dialect: 'gfm' })).toBe(
+        markdownConverter.convert(html)
+      );
+    });
+  });
+
+  describe('CommonMark', () => {
+    it('should write admonitions as blockquotes with a bold title', () => {
+      const html = '<aside class="warning"><p>Careful</p></aside>';
+      const result = markdownConverter.convert(html, {
+        dialect: 'commonmark',
+      });
+      expect(result).toBe('> **Warning**\n>\n> Careful');
+    });
+
+    it('should keep tables as HTML', () => {
+      const html = '<table><tr><th>A</th></tr><tr><td>1</td></tr></table>';
+      const result = markdownConverter.convert(html, {
+        dialect: 'commonmark',
+      });
+      expect(result).toBe(
+        '<table><tbody><tr><th>A</th></tr><tr><td>1</td></tr></tbody></table>'
+      );
+    });
+
+    it('should write footnotes as superscripts and a numbered list', () => {
+      const html = `
+        <p>Claim<sup><a href="#fn1">1</a></sup></p>
+        <div class="footnotes"><ol><li id="fn1">Source</li></ol></div>
+      `;
+      const result = markdownConverter.convert(html, {
+        dialect: 'commonmark',
+      });
+      expect(result).toBe('Claim<sup>1</sup>\n\n1. Source');
+    });
+  });
+
+  describe('Obsidian', () => {
+    it('should turn in-page heading links into wikilinks', () => {
+      const html =
+        '<h2 id="setup">Setup</h2><p>See <a href="#setup">above</a> or <a href="#setup">Setup</a></p>';
+      const result = markdownConverter.convert(html, { dialect: 'obsidian' });
+      expect(result).toContain('See [[#Setup|above]] or [[#Setup]]');
+    });
+
+    it('should turn note boxes into callouts', () => {
+      const html =
+        '<div class="admonition warning"><p class="admonition-title">Careful</p><p>Hot stuff</p></div>';
+      const result = markdownConverter.convert(html, { dialect: 'obsidian' });
+      expect(result).toBe('> [!warning] Careful\n> Hot stuff');
+    });
+
+    it('should turn details into foldable callouts', () => {
+      const html = '<details><summary>More</summary><p>Hidden</p></details>';
+      const result = markdownConverter.convert(html, { dialect: 'obsidian' });
+      expect(result).toBe('> [!note]- More\n> Hidden');
+    });
+
+    it('should write highlights with ==', () => {
+      const result = markdownConverter.convert(
+        '<p>A <mark>key</mark> point</p>',
+        {
+          dialect: 'obsidian',
+        }
+      );
+      expect(result).toBe('A ==key== point');
+    });
+  });
+
+  describe('Slack mrkdwn', () => {
+    it('should use Slack emphasis and link syntax', () => {
+      const html =
+        '<p><strong>Bold</strong> <em>it</em> <del>old</del> <a href="https://e.com">site</a> &lt;tag&gt;</p>';
+      const result = markdownConverter.convert(html, { dialect: 'slack' });
+      expect(result).toBe('*Bold* _it_ ~old~ <https://e.com|site> &lt;tag&gt;');
+    });
+
+    it('should write headings as bold lines and bullets as •', () => {
+      const html = '<h2>Title</h2><ul><li>one</li><li>two</li></ul>';
+      const result = markdownConverter.convert(html, { dialect: 'slack' });
+      expect(result).toBe('*Title*\n\n• one\n• two');
+    });
+
+    it('should drop the language from code blocks', () => {
+      const html = '<pre><code class="language-js">a();</code></pre>';
+      const result = markdownConverter.convert(html, { dialect: 'slack' });
+      expect(result).toBe('```\na();\n```');
+    });
+  });
+
+  describe('Jira wiki markup', () => {
+    it('should write headings, emphasis and links', () => {
+      const html =
+        '<h3>Title</h3><p><b>Bold</b> <i>it</i> <code>x</code> <a href="https://e.com">site</a></p>';
+      const result = markdownConverter.convert(html, { dialect: 'jira' });
+      expect(result).toBe(
+        'h3. Title\n\n*Bold* _it_ {{x}} [site|https://e.com]'
+      );
+    });
+
+    it('should write admonitions as panels', () => {
+      const html =
+        '<div class="alert alert-info"><p><b>Heads up:</b> Deploy at 5</p></div>';
+      const result = markdownConverter.convert(html, { dialect: 'jira' });
+      expect(result).toBe('{info:title=Heads up}\nDeploy at 5\n{info}');
+    });
+
+    it('should italicize captions without nesting emphasis', () => {
+      const html =
+        '<figure><img src="a.png" alt="A"><figcaption>Cap <i>x</i></figcaption></figure>';
+      const result = markdownConverter.convert(html, { dialect: 'jira' });
+      expect(result).toBe('!a.png!\n_Cap x_');
+    });
+
+    it('should use the toc macro for tables of contents', () => {
+      const html = '<h1>Title</h1><h2>A</h2>';
+      const result = markdownConverter.convert(html, {
+        dialect: 'jira',
+        tableOfContents: true,
+      });
+      expect(result).toBe('h1. Title\n\n{toc}\n\nh2. A');
+    });
+
+    it('should spell out list nesting in the markers', () => {
+      const html =
+        '<ol><li>first<ul><li>bullet</li></ul></li><li>second</li></ol>';
+      const result = markdownConverter.convert(html, { dialect: 'jira' });
+      expect(result).toBe('# first\n#* bullet\n# second');
+    });
+
+    it('should write tables and code blocks', () => {
+      const html = `
+        <table><tr><th>A</th><th>B</th></tr><tr><td>1</td><td></td></tr></table>
+        <pre><code class="language-sql">SELECT 1;</code></pre>
+        <pre>plain</pre>
+      `;
+      const result = markdownConverter.convert(html, { dialect: 'jira' });
+      expect(result).toBe(
+        '||A||B||\n|1| |\n\n{code:sql}\nSELECT 1;\n{code}\n\n{noformat}\nplain\n{noformat}'
+      );
+    });
+
+    it('should escape markup characters in text', () => {
+      const result = markdownConverter.convert('<p>a*b [c]</p>', {
+        dialect: 'jira',
+      });
+      expect(result).toBe('a\\*b \\[c\\]');
+    });
+
+    it('should escape braces in inline code', () => {
+      const result = markdownConverter.convert('<p><code>a{b}</code></p>', {
+        dialect: 'jira',
+      });
+      expect(result).toBe('{{a\\{b\\}}}');
+    });
+  });
+
+  describe('AsciiDoc', () => {
+    it('should write sections, links and images', () => {
+      const html =
+        '<h2>Title</h2><p><a href="https://e.com">site</a> <img src="https://e.com/i.png" alt="pic"></p>';
+      const result = markdownConverter.convert(html, { dialect: 'asciidoc' });
+      expect(result).toBe(
+        '== Title\n\nlink:https://e.com[site] image:https://e.com/i.png[pic]'
+      );
+    });
+
+    it('should write admonition blocks', () => {
+      const html =
+        '<div class="admonition danger"><p class="admonition-title">Stop</p><p>Hot</p></div>';
+      const result = markdownConverter.convert(html, { dialect: 'asciidoc' });
+      expect(result).toBe('[CAUTION]\n.Stop\n====\nHot\n====');
+    });
+
+    it('should write source blocks and tables', () => {
+      const html = `
+        <pre><code class="language-ruby">puts 1</code></pre>
+        <table><tr><th>A</th><th>B</th></tr><tr><td>1</td><td>2</td></tr></table>
+      `;
+      const result = markdownConverter.convert(html, { dialect: 'asciidoc' });
+      expect(result).toBe(
+        '[source,ruby]\n----\nputs 1\n----\n\n|===\n|A |B\n\n|1 |2\n|==='
+      );
+    });
+
+    it('should write collapsible blocks, captions and description lists', () => {
+      const html = `
+        <details open><summary>More</summary><p>Hidden</p></details>
+        <figure><img src="a.png" alt="A"><figcaption>Caption</figcaption></figure>
+        <dl><dt>Term</dt><dd>Meaning</dd></dl>
+      `;
+      const result = markdownConverter.convert(html, { dialect: 'asciidoc' });
+      expect(result).toBe(
+        '.More\n[%collapsible%open]\n====\nHidden\n====\n\n.Caption\nimage:a.png[A]\n\nTerm::\nMeaning'
+      );
+    });
+
+    it('should escape lines that would open blocks and paired markup', () => {
+      const html =
+        '<p>= Not a title</p><p>* not a list</p><p>a *b* c_d {attr}</p>';
+      const result = markdownConverter.convert(html, { dialect: 'asciidoc' });
+      expect(result).toBe(
+        '{empty}= Not a title\n\n{empty}* not a list\n\na \\*b* c_d \\{attr}'
+      );
+    });
+
+    it('should repeat list markers for nesting', () => {
+      const html = '<ul><li>one<ul><li>nested</li></ul></li></ul>';
+      const result = markdownConverter.convert(html, { dialect: 'asciidoc' });
+      expect(result).toBe('* one\n** nested');
+    });
+  });
+
+  describe('Org-mode', () => {
+    it('should write headlines, emphasis and links', () => {
+      const html =
+        '<h1>Title</h1><p><em>it</em> <code>x</code> <a href="https://e.com">site</a></p>';
+      const result = markdownConverter.convert(html, { dialect: 'org' });
+      expect(result).toBe('* Title\n\n/it/ ~x~ [[https://e.com][site]]');
+    });
+
+    it('should comma-escape headline lines in source blocks', () => {
+      const html = '<pre><code class="language-org">* Heading</code></pre>';
+      const result = markdownConverter.convert(html, { dialect: 'org' });
+      expect(result).toBe('#+BEGIN_SRC org\n,* Heading\n#+END_SRC');
+    });
+
+    it('should escape headline stars and paired markup in text', () => {
+      const html =
+        '<p>* not a headline</p><p>#+TITLE: x</p><p>a *b* /usr/bin</p>';
+      const result = markdownConverter.convert(html, { dialect: 'org' });
+      expect(result).toBe(
+        '\u200B* not a headline\n\n\u200B#+TITLE: x\n\na \u200B*b* /usr/bin'
+      );
+    });
+
+    it('should write tables with a separator row', () => {
+      const html =
+        '<table><tr><th>A</th><th>B</th></tr><tr><td>1</td><td>2</td></tr></table>';
+      const result = markdownConverter.convert(html, { dialect: 'org' });
+      expect(result).toBe('| A | B |\n|---+---|\n| 1 | 2 |');
+    });
+
+    it('should write captions and description lists', () => {
+      const html = `
+        <figure><img src="a.png" alt="A"><figcaption>Caption</figcaption></figure>
+        <dl><dt>Term</dt><dd>Meaning</dd></dl>
+      `;
+      const result = markdownConverter.convert(html, { dialect: 'org' });
+      expect(result).toBe(
+        '#+CAPTION: Caption\n[[a.png]]\n\n- Term ::\n  Meaning'
+      );
+    });
+
+    it('should use org footnotes', () => {
+      const html = `
+        <p>Claim<sup><a href="#fn1">1</a></sup></p>
+        <div class="footnotes"><ol><li id="fn1">Source</li></ol></div>
+      `;
+      const result = markdownConverter.convert(html, { dialect: 'org' });
+      expect(result).toBe('Claim[fn:1]\n\n[fn:1] Source');
+    });
+  });
+
+  describe('Metadata', () => {
+    it('should write the source header in the dialect', () => {
+      const result = markdownConverter.convertWithMetadata(
+        '<p>Body</p>',
+        'Page',
+        'https://e.com',
+        { dialect: 'jira' }
+      );
+      expect(result.markdown).toMatch(
+        /^Source: \[Page\|https:\/\/e\.com\]\nCaptured: .+\n\n----\n\nBody$/
+      );
+    });
+  });
+});
@@ -0,0 +1,767 @@
+// Output dialects for Chrome Markdownify extension
+import type TurndownService from 'turndown';
+import type { ConversionOptions } from './converter';
+import type { TableOfContentsEntry } from './headings';
+
+import { AlertType, calloutDetector } from './callouts';
+
+export type OutputDialect =
+  | 'commonmark'
+  | 'gfm'
+  | 'obsidian'
+  | 'slack'
+  | 'jira'
+  | 'asciidoc'
+  | 'org';
+
+/**
+ * A table's cells, already converted to the dialect, padded to a rectangle
+ */
+export interface DialectTable {
+  header: string[] | null;
+  rows: string[][];
+}
+
+/**
+ * Converter state that dialect rules may consult during a conversion
+ */
+export interface DialectContext {
+  options(): ConversionOptions;
+  getTable(table: HTMLTableElement): DialectTable | null;
+  findElementById(id: string): Element | null;
+}
+
+/**
+ * Native delimiters for inline formatting Markdown has no syntax for; an
+ * element without one is kept as inline HTML in Markdown dialects and as
+ * plain text elsewhere
+ */
+export interface InlineSyntax {
+  strikethrough?: [string, string];
+  highlight?: [string, string];
+  insert?: [string, string];
+  subscript?: [string, string];
+  superscript?: [string, string];
+  keyboard?: [string, string];
+}
+
+export interface DialectDefinition {
+  id: OutputDialect;
+  label: string;
+  fileExtension: string;
+  // Markdown dialects share the converter's link, table and footnote syntax
+  markdown: boolean;
+  // Whether pipe tables exist; markdown dialects without them keep HTML
+  tables: boolean;
+  horizontalRule: string;
+  lineBreak?: string;
+  inlineSyntax: InlineSyntax;
+  // Checked and unchecked task list markers
+  taskMarkers: [string, string];
+  escape?: (text: string) => string;
+  configure?: (service: TurndownService, context: DialectContext) => void;
+  formatLink(text: string, url: string): string;
+  formatCodeBlock?: (code: string, language: string) => string;
+  formatFootnoteReference(label: number): string;
+  formatFootnoteDefinition(label: number, content: string): string;
+  // Collapsible sections; without one the summary is written above the body
+  formatDetails?: (summary: string, content: string, open: boolean) => string;
+  formatFigure(media: string, caption: string): string;
+  formatDefinitionTerm(term: string): string;
+  formatDefinitionDescription(description: string): string;
+  // Note/warning boxes; the title is '' when the box only names its type
+  formatCallout(type: string, title: string, content: string): string;
+  // '' when the dialect can't link to headings
+  formatTableOfContents(entries: TableOfContentsEntry[]): string;
+}
+
+/**
+ * Build a replacement that wraps inline content, keeping surrounding
+ * whitespace outside the markers
+ */
+export function wrapInline(open: string, close: string = open) {
+  return (content: string): string => {
+    if (!content.trim()) return '';
+
+    const leadingWhitespace = content.match(/^(\s*)/)?.[1] || '';
+    const trailingWhitespace = content.match(/(\s*)$/)?.[1] || '';
+
+    return `${leadingWhitespace}${open}${content.trim()}${close}${trailingWhitespace}`;
+  };
+}
+
+/**
+ * Get the lists enclosing a list item, outermost first
+ */
+function getListAncestors(item: Node): Element[] {
+  const lists: Element[] = [];
+  for (let node = item.parentElement; node; node = node.parentElement) {
+    if (node.nodeName === 'UL' || node.nodeName === 'OL') lists.unshift(node);
+  }
+  return lists;
+}
+
+/**
+ * Position of a list item in an ordered list, honouring start=""
+ */
+function getItemNumber(item: Node): number {
+  const list = item.parentElement;
+  const start = parseInt(list?.getAttribute('start') || '1', 10) || 1;
+  const index = list ? Array.from(list.children).indexOf(item as Element) : 0;
+  return start + index;
+}
+
+/**
+ * Add a list item rule; nested lists are either indented under their parent
+ * item or written flush with a longer marker (Jira, AsciiDoc)
+ */
+function addListItemRule(
+  service: TurndownService,
+  marker: (item: Node, lists: Element[]) => string,
+  indentNested: boolean
+): void {
+  service.addRule('listItem', {
+    filter: 'li',
+    replacement(content: string, node: Node) {
+      const prefix = `${marker(node, getListAncestors(node))} `;
+      let body = content.replace(/^\n+/, '').replace(/\n+$/, '\n');
+
+      body = indentNested
+        ? body.replace(/\n/gm, `\n${' '.repeat(prefix.length)}`)
+        : body.replace(/\n{2,}/g, '\n');
+
+      return (
+        prefix + body + (node.nextSibling && !/\n$/.test(body) ? '\n' : '')
+      );
+    },
+  });
+}
+
+/**
+ * Add rules for the elements every non-Markdown dialect writes differently
+ */
+function addInlineRules(
+  service: TurndownService,
+  markers: { strong: string; emphasis: string }
+): void {
+  service.addRule('strong', {
+    filter: ['strong', 'b'],
+    replacement: wrapInline(markers.strong),
+  });
+  service.addRule('emphasis', {
+    filter: ['em', 'i'],
+    replacement: wrapInline(markers.emphasis),
+  });
+}
+
+/**
+ * Add a link rule that honours the strip link style; reference links are a
+ * Markdown feature, so other dialects fall back to inline links
+ */
+function addLinkRules(
+  service: TurndownService,
+  context: DialectContext,
+  formatLink: (text: string, url: string) => string
+): void {
+  service.addRule('dialectLink', {
+    filter: (node): boolean =>
+      node.nodeName === 'A' && !!node.getAttribute('href'),
+    replacement(content: string, node: Node) {
+      if (context.options().linkStyle === 'strip' || !content.trim()) {
+        return content;
+      }
+      const url = (node as Element).getAttribute('href') || '';
+      return formatLink(content.trim(), url);
+    },
+  });
+}
+
+/**
+ * Add a heading rule that writes each heading on a single line
+ */
+function addHeadingRule(
+  service: TurndownService,
+  format: (text: string, level: number) => string
+): void {
+  service.addRule('heading', {
+    filter: ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'],
+    replacement(content: string, node: Node) {
+      const text = content.replace(/\s*\n+\s*/g, ' ').trim();
+      if (!text) return '';
+      return `\n\n${format(text, Number(node.nodeName.charAt(1)))}\n\n`;
+    },
+  });
+}
+
+/**
+ * Add a table rule built from the converter's padded cell grid
+ */
+function addTableRule(
+  service: TurndownService,
+  context: DialectContext,
+  format: (table: DialectTable) => string
+): void {
+  service.addRule('table', {
+    filter: ['table'],
+    replacement(_content: string, node: Node) {
+      const table = context.getTable(node as HTMLTableElement);
+      return table ? `\n\n${format(table)}\n\n` : '';
+    },
+  });
+}
+
+/**
+ * Add a blockquote rule that fences the quote between delimiter lines
+ */
+function addQuoteRule(
+  service: TurndownService,
+  open: string,
+  close: string
+): void {
+  service.addRule('blockquote', {
+    filter: 'blockquote',
+    replacement(content: string) {
+      const body = content.replace(/^\n+|\n+$/g, '');
+      return body ? `\n\n${open}\n${body}\n${close}\n\n` : '';
+    },
+  });
+}
+
+/**
+ * Add an inline code rule with its own delimiters
+ */
+function addInlineCodeRule(
+  service: TurndownService,
+  format: (code: string) => string
+): void {
+  service.addRule('code', {
+    filter: (node): boolean =>
+      node.nodeName === 'CODE' && node.parentNode?.nodeName !== 'PRE',
+    replacement(content: string) {
+      return content ? format(content.replace(/\r?\n|\r/g, ' ')) : '';
+    },
+  });
+}
+
+/**
+ * Add an image rule with its own syntax
+ */
+function addImageRule(
+  service: TurndownService,
+  format: (src: string, alt: string) => string
+): void {
+  service.addRule('image', {
+    filter: 'img',
+    replacement(_content: string, node: Node) {
+      const img = node as HTMLImageElement;
+      const src = img.getAttribute('src') || '';
+      return src ? format(src, img.getAttribute('alt') || '') : '';
+    },
+  });
+}
+
+/**
+ * Build a text escape for dialects that mark up plain characters: lines
+ * that would open a block get a prefix, and inline markers that have a
+ * closing partner get one so they print as themselves
+ */
+function escapeMarkup(
+  blockStart: RegExp,
+  linePrefix: string,
+  markers: string,
+  markerPrefix: string
+): (text: string) => string {
+  const set = markers.replace(/[\]\\^-]/g, '\\$&');
+  const inline = new RegExp(
+    `(^|[\\s({'"-])([${set}])(?=\\S(?:[^\\n]*?\\S)?\\2(?!\\w))`,
+    'gm'
+  );
+  return (text) =>
+    text
+      .replace(inline, `$1${markerPrefix}$2`)
+      .replace(blockStart, `$1${linePrefix}`);
+}
+
+// Line starts AsciiDoc reads as titles, lists, comments, attributes,
+// block delimiters or admonition labels
+const ASCIIDOC_BLOCK_START =
+  /^(\s*)(?==+\s|[*.-]+\s|\d+\.\s|\/\/|:[\w-]+:|\[|\|===|([-_.+*=])\2{3,}$|(?:NOTE|TIP|IMPORTANT|WARNING|CAUTION):\s)/gm;
+
+// Line starts Org reads as headlines, keywords, comments, drawers,
+// tables, lists or rules
+const ORG_BLOCK_START =
+  /^(\s*)(?=\*+\s|#\+|#(?:\s|$)|:(?:\s|$|[\w-]+:)|\||[-+]\s|\d+[.)]\s|-{5,})/gm;
+
+const escapeAsciiDoc = escapeMarkup(
+  ASCIIDOC_BLOCK_START,
+  '{empty}',
+  '*_`#+',
+  '\\'
+);
+
+/**
+ * Prefix each line with a quote marker, leaving blank lines bare
+ */
+function quoteLines(lines: string[], marker: string = '>'): string {
+  return lines.map((line) => (line ? `${marker} ${line}` : marker)).join('\n');
+}
+
+// _emphasis_ within a caption; \_ is a literal underscore
+const UNDERSCORE_EMPHASIS = /(^|[^\w\\])_(?=\S)([^_\n]*?\S)_(?!\w)/g;
+
+/**
+ * Italicize a figure caption with underscores, unwrapping underscore
+ * emphasis inside it so the markers don't pair up wrongly
+ */
+function italicizeCaption(caption: string): string {
+  return `_${caption.replace(UNDERSCORE_EMPHASIS, '$1$2')}_`;
+}
+
+/**
+ * Indent table of contents entries by depth under a list marker
+ */
+function formatNestedList(
+  entries: TableOfContentsEntry[],
+  format: (entry: TableOfContentsEntry) => string
+): string {
+  return entries
+    .map((entry) => `${'    '.repeat(entry.depth)}-   ${format(entry)}`)
+    .join('\n');
+}
+
+// Jira panel macros for each alert type
+const JIRA_PANELS: Record<AlertType, string> = {
+  note: 'info',
+  tip: 'tip',
+  important: 'note',
+  warning: 'note',
+  caution: 'warning',
+};
+
+// Shared by the Markdown dialects
+const MARKDOWN_DEFAULTS = {
+  markdown: true,
+  fileExtension: 'md',
+  horizontalRule: '---',
+  inlineSyntax: { strikethrough: ['~~', '~~'] } as InlineSyntax,
+  taskMarkers: ['[x]', '[ ]'] as [string, string],
+  formatLink: (text: string, url: string): string => `[${text}](${url})`,
+  formatFootnoteReference: (label: number): string => `[^${label}]`,
+  formatFootnoteDefinition: (label: number, content: string): string => {
+    // Continuation lines are indented so they stay in the footnote
+    const indented = content
+      .split('\n')
+      .map((line, index) => (index === 0 || !line ? line : `    ${line}`))
+      .join('\n');
+    return `[^${label}]: ${indented}`;
+  },
+  // GitHub and most renderers read Markdown inside <details> when it is set
+  // off by blank lines
+  formatDetails: (summary: string, content: string, open: boolean): string =>
+    [
+      `<details${open ? ' open' : ''}>`,
+      `<summary>${summary}</summary>`,
+      '',
+      content,
+      '',
+      '</details>',
+    ].join('\n'),
+  // An image keeps its caption in the same paragraph; anything else needs a
+  // blank line so the caption doesn't continue a quote or list. Emphasis
+  // inside the caption is written with *, so _ can wrap it
+  formatFigure: (media: string, caption: string): string =>
+    /^\[?!\[[^\n]*$/.test(media)
+      ? `${media}\n${italicizeCaption(caption)}`
+      : `${media}\n\n${italicizeCaption(caption)}`,
+  // PHP Markdown Extra and Pandoc definition lists; the bold term still
+  // reads as one where they aren't supported
+  formatDefinitionTerm: (term: string): string => `**${term}**`,
+  formatDefinitionDescription: (description: string): string =>
+    `:   ${description.replace(/\n(?=.)/g, '\n    ')}`,
+  // GitHub alerts have no titles, so a custom one leads the body in bold
+  formatCallout: (type: string, title: string, content: string): string => {
+    const alert = calloutDetector.toAlertType(type).toUpperCase();
+    const lines = title
+      ? [`**${title}**`, '', ...content.split('\n')]
+      : content.split('\n');
+    return quoteLines([`[!${alert}]`, ...lines]);
+  },
+  formatTableOfContents: (entries: TableOfContentsEntry[]): string =>
+    formatNestedList(
+      entries,
+      ({ text, slug }) => `[${text.replace(/([[\]])/g, '\\$1')}](#${slug})`
+    ),
+};
+
+const DIALECTS: Record<OutputDialect, DialectDefinition> = {
+  commonmark: {
+    ...MARKDOWN_DEFAULTS,
+    id: 'commonmark',
+    label: 'CommonMark',
+    tables: false,
+    // CommonMark has no strikethrough, so <del> stays HTML
+    inlineSyntax: {},
+    // CommonMark has no footnotes; fall back to superscripts and a list
+    formatFootnoteReference: (label) => `<sup>${label}</sup>`,
+    formatFootnoteDefinition: (label, content) =>
+      `${label}. ${content.replace(/\n/g, '\n   ')}`,
+    // No alerts either; a blockquote led by the bold title stands in
+    formatCallout: (type, title, content) =>
+      quoteLines([
+        `**${title || calloutDetector.getLabel(type)}**`,
+        '',
+        ...content.split('\n'),
+      ]),
+  },
+
+  gfm: {
+    ...MARKDOWN_DEFAULTS,
+    id: 'gfm',
+    label: 'GitHub Flavored Markdown',
+    tables: true,
+  },
+
+  obsidian: {
+    ...MARKDOWN_DEFAULTS,
+    id: 'obsidian',
+    label: 'Obsidian',
+    tables: true,
+    inlineSyntax: { strikethrough: ['~~', '~~'], highlight: ['==', '=='] },
+    formatCallout: (type, title, content) =>
+      quoteLines([
+        `[!${type}]${title ? ` ${title}` : ''}`,
+        ...content.split('\n'),
+      ]),
+    formatTableOfContents: (entries) =>
+      formatNestedList(
+        entries,
+        ({ text }) =>
+          `[[#${text
+            .replace(/[[\]|#^]/g, ' ')
+            .replace(/\s+/g, ' ')
+            .trim()}]]`
+      ),
+    // Foldable callouts, expanded when the section was open
+    formatDetails: (summary, content, open) =>
+      quoteLines([
+        `[!note]${open ? '+' : '-'} ${summary}`,
+        ...content.split('\n'),
+      ]),
+    configure(service, context) {
+      // In-page links to headings become wikilinks
+      service.addRule('wikilink', {
+        filter: (node): boolean => {
+          const href = node.getAttribute('href') || '';
+          if (node.nodeName !== 'A' || !/^#./.test(href)) return false;
+          const target = context.findElementById(href.slice(1));
+          return !!target && /^H[1-6]$/.test(target.nodeName);
+        },
+        replacement(content: string, node: Node) {
+          const href = (node as Element).getAttribute('href') || '';
+          const heading = (
+            context.findElementById(href.slice(1))?.textContent || ''
+          )
+            .replace(/[[\]|#^]/g, ' ')
+            .replace(/\s+/g, ' ')
+            .trim();
+          const text = content.trim();
+          if (!heading) return content;
+          return text && text !== heading
+            ? `[[#${heading}|${text}]]`
+            : `[[#${heading}]]`;
+        },
+      });
+    },
+  },
+
+  slack: {
+    id: 'slack',
+    label: 'Slack mrkdwn',
+    fileExtension: 'txt',
+    markdown: false,
+    tables: false,
+    horizontalRule: '———',
+    lineBreak: '',
+    inlineSyntax: { strikethrough: ['~', '~'], keyboard: ['`', '`'] },
+    taskMarkers: ['☑', '☐'],
+    // Slack only treats &, < and > specially
+    escape: (text) =>
+      text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;'),
+    formatLink: (text, url) => (text === url ? `<${url}>` : `<${url}|${text}>`),
+    formatCodeBlock: (code) => `\`\`\`\n${code}\n\`\`\``,
+    formatFootnoteReference: (label) => `[${label}]`,
+    formatFootnoteDefinition: (label, content) => `[${label}] ${content}`,
+    formatFigure: (media, caption) => `${media}\n${italicizeCaption(caption)}`,
+    formatDefinitionTerm: (term) => `*${term}*`,
+    formatDefinitionDescription: (description) => description,
+    // Messages have no heading anchors to link to
+    formatTableOfContents: () => '',
+    formatCallout: (type, title, content) =>
+      quoteLines([
+        `*${title || calloutDetector.getLabel(type)}*`,
+        ...content.split('\n'),
+      ]),
+    configure(service, context) {
+      addInlineRules(service, { strong: '*', emphasis: '_' });
+      addLinkRules(service, context, DIALECTS.slack.formatLink);
+      addHeadingRule(service, (text) => `*${text}*`);
+      addImageRule(service, (src, alt) =>
+        DIALECTS.slack.formatLink(alt || src, src)
+      );
+      addListItemRule(
+        service,
+        (item, lists) =>
+          lists[lists.length - 1]?.nodeName === 'OL'
+            ? `${getItemNumber(item)}.`
+            : '•',
+        true
+      );
+      // Slack has no tables; keep each row on its own line
+      addTableRule(service, context, ({ header, rows }) =>
+        [...(header ? [header.map((cell) => `*${cell}*`)] : []), ...rows]
+          .map((row) => row.join(' | '))
+          .join('\n')
+      );
+    },
+  },
+
+  jira: {
+    id: 'jira',
+    label: 'Jira wiki markup',
+    fileExtension: 'txt',
+    markdown: false,
+    tables: false,
+    horizontalRule: '----',
+    lineBreak: '\\\\',
+    inlineSyntax: {
+      strikethrough: ['-', '-'],
+      insert: ['+', '+'],
+      subscript: ['~', '~'],
+      superscript: ['^', '^'],
+      keyboard: ['{{', '}}'],
+    },
+    // Jira's tick and minus icons
+    taskMarkers: ['(/)', '(-)'],
+    escape: (text) => text.replace(/([*_{}[\]|^~])/g, '\\$1'),
+    formatLink: (text, url) => (text === url ? `[${url}]` : `[${text}|${url}]`),
+    formatCodeBlock: (code, language) =>
+      language
+        ? `{code:${language}}\n${code}\n{code}`
+        : `{noformat}\n${code}\n{noformat}`,
+    formatFootnoteReference: (label) => `^${label}^`,
+    formatFootnoteDefinition: (label, content) => `^${label}^ ${content}`,
+    formatFigure: (media, caption) => `${media}\n${italicizeCaption(caption)}`,
+    formatDefinitionTerm: (term) => `*${term}*`,
+    formatDefinitionDescription: (description) => `bq. ${description}`,
+    formatTableOfContents: () => '{toc}',
+    formatCallout: (type, title, content) => {
+      const panel = JIRA_PANELS[calloutDetector.toAlertType(type)];
+      const parameter = title ? `:title=${title.replace(/[|}]/g, '')}` : '';
+      return `{${panel}${parameter}}\n${content}\n{${panel}}`;
+    },
+    configure(service, context) {
+      addInlineRules(service, { strong: '*', emphasis: '_' });
+      addLinkRules(service, context, DIALECTS.jira.formatLink);
+      addHeadingRule(service, (text, level) => `h${level}. ${text}`);
+      // Braces in the code would close the monospace early
+      addInlineCodeRule(
+        service,
+        (code) => `{{${code.replace(/[{}]/g, '\\$&')}}}`
+      );
+      addImageRule(service, (src) => `!${src}!`);
+      addQuoteRule(service, '{quote}', '{quote}');
+      // Markers spell out the nesting: "#*" is a bullet in a numbered list
+      addListItemRule(
+        service,
+        (_item, lists) =>
+          lists.map((list) => (list.nodeName === 'OL' ? '#' : '*')).join(''),
+        false
+      );
+      addTableRule(service, context, ({ header, rows }) =>
+        [
+          ...(header ? [`||${header.map((c) => c || ' ').join('||')}||`] : []),
+          ...rows.map((row) => `|${row.map((c) => c || ' ').join('|')}|`),
+        ].join('\n')
+      );
+    },
+  },
+
+  asciidoc: {
+    id: 'asciidoc',
+    label: 'AsciiDoc',
+    fileExtension: 'adoc',
+    markdown: false,
+    tables: false,
+    horizontalRule: "'''",
+    lineBreak: ' +',
+    inlineSyntax: {
+      strikethrough: ['[.line-through]#', '#'],
+      highlight: ['#', '#'],
+      insert: ['[.underline]#', '#'],
+      subscript: ['~', '~'],
+      superscript: ['^', '^'],
+      keyboard: ['kbd:[', ']'],
+    },
+    taskMarkers: ['[x]', '[ ]'],
+    // {empty} keeps a line from opening a block; attribute references are
+    // backslash-escaped like paired markup
+    escape: (text) => escapeAsciiDoc(text.replace(/\{(?=[\w-]+\})/g, '\\{')),
+    formatLink: (text, url) =>
+      `link:${url.replace(/ /g, '%20')}[${text.replace(/]/g, '\\]')}]`,
+    formatCodeBlock: (code, language) =>
+      `${language ? `[source,${language}]\n` : ''}----\n${code}\n----`,
+    formatFootnoteReference: (label) => `^${label}^`,
+    formatFootnoteDefinition: (label, content) => `${label}. ${content}`,
+    formatDetails: (summary, content, open) =>
+      `.${summary}\n[%collapsible${open ? '%open' : ''}]\n====\n${content}\n====`,
+    // A block title captions the paragraph holding the image
+    formatFigure: (media, caption) => `.${caption}\n${media}`,
+    formatDefinitionTerm: (term) => `${term}::`,
+    // Natural cross references resolve by section title
+    formatTableOfContents: (entries) =>
+      entries
+        .map(({ depth, text }) => `${'*'.repeat(depth + 1)} <<${text}>>`)
+        .join('\n'),
+    formatCallout: (type, title, content) =>
+      [
+        `[${calloutDetector.toAlertType(type).toUpperCase()}]`,
+        ...(title ? [`.${title}`] : []),
+        '====',
+        content,
+        '====',
+      ].join('\n'),
+    // Further paragraphs are attached with list continuations
+    formatDefinitionDescription: (description) =>
+      description.replace(/\n{2,}/g, '\n+\n'),
+    configure(service, context) {
+      addInlineRules(service, { strong: '*', emphasis: '_' });
+      addLinkRules(service, context, DIALECTS.asciidoc.formatLink);
+      addHeadingRule(service, (text, level) => `${'='.repeat(level)} ${text}`);
+      addImageRule(
+        service,
+        (src, alt) => `image:${src.replace(/ /g, '%20')}[${alt}]`
+      );
+      addQuoteRule(service, '____', '____');
+      addListItemRule(
+        service,
+        (_item, lists) =>
+          (lists[lists.length - 1]?.nodeName === 'OL' ? '.' : '*').repeat(
+            lists.length
+          ),
+        false
+      );
+      addTableRule(service, context, ({ header, rows }) => {
+        const formatRow = (row: string[]) =>
+          row.map((cell) => `|${cell.replace(/\|/g, '\\|')}`).join(' ');
+        const lines = ['|==='];
+        if (header) lines.push(formatRow(header), '');
+        lines.push(...rows.map(formatRow), '|===');
+        return lines.join('\n');
+      });
+    },
+  },
+
+  org: {
+    id: 'org',
+    label: 'Org-mode',
+    fileExtension: 'org',
+    markdown: false,
+    tables: false,
+    horizontalRule: '-----',
+    lineBreak: '\\\\',
+    inlineSyntax: {
+      strikethrough: ['+', '+'],
+      insert: ['_', '_'],
+      subscript: ['_{', '}'],
+      superscript: ['^{', '}'],
+      keyboard: ['=', '='],
+    },
+    taskMarkers: ['[X]', '[ ]'],
+    // Org's escape character is a zero-width space
+    escape: escapeMarkup(ORG_BLOCK_START, '\u200B', '*/_=~+', '\u200B'),
+    formatLink: (text, url) =>
+      text === url ? `[[${url}]]` : `[[${url}][${text}]]`,
+    // Lines that would read as headlines or keywords get a comma escape
+    formatCodeBlock: (code, language) => {
+      const escaped = code.replace(/^(\s*)(\*|#\+)/gm, '$1,$2');
+      return language
+        ? `#+BEGIN_SRC ${language}\n${escaped}\n#+END_SRC`
+        : `#+BEGIN_EXAMPLE\n${escaped}\n#+END_EXAMPLE`;
+    },
+    formatFootnoteReference: (label) => `[fn:${label}]`,
+    formatFootnoteDefinition: (label, content) => `[fn:${label}] ${content}`,
+    formatFigure: (media, caption) => `#+CAPTION: ${caption}\n${media}`,
+    formatDefinitionTerm: (term) => `- ${term} ::`,
+    formatTableOfContents: () => '#+TOC: headlines 6',
+    // Special blocks, exported as <div class="warning"> and the like
+    formatCallout: (type, title, content) => {
+      const block = calloutDetector.toAlertType(type);
+      const heading = title ? `*${title}*\n` : '';
+      return `#+BEGIN_${block}\n${heading}${content}\n#+END_${block}`;
+    },
+    formatDefinitionDescription: (description) =>
+      description.replace(/^(?=.)/gm, '  '),
+    configure(service, context) {
+      addInlineRules(service, { strong: '*', emphasis: '/' });
+      addLinkRules(service, context, DIALECTS.org.formatLink);
+      addHeadingRule(service, (text, level) => `${'*'.repeat(level)} ${text}`);
+      addInlineCodeRule(service, (code) =>
+        code.includes('~') ? `=${code}=` : `~${code}~`
+      );
+      addImageRule(service, (src) => `[[${src}]]`);
+      addQuoteRule(service, '#+BEGIN_QUOTE', '#+END_QUOTE');
+      addListItemRule(
+        service,
+        (item, lists) =>
+          lists[lists.length - 1]?.nodeName === 'OL'
+            ? `${getItemNumber(item)}.`
+            : '-',
+        true
+      );
+      addTableRule(service, context, ({ header, rows }) => {
+        const formatRow = (row: string[]) =>
+          `| ${row.map((cell) => cell.replace(/\|/g, '\\vert{}')).join(' | ')} |`;
+        const lines = rows.map(formatRow);
+        if (header) {
+          const separator = `|${header.map((cell) => '-'.repeat(cell.length + 2)).join('+')}|`;
+          lines.unshift(formatRow(header), separator);
+        }
+        return lines.join('\n');
+      });
+    },
+  },
+};
+
+/**
+ * Registry of the output dialects the converter can write
+ */
+class DialectRegistry {
+  /**
+   * Get a dialect definition, falling back to GFM for unknown ids
+   */
+  public get(id?: string): DialectDefinition {
+    return this.isDialect(id) ? DIALECTS[id] : DIALECTS.gfm;
+  }
+
+  /**
+   * List every dialect in display order
+   */
+  public list(): DialectDefinition[] {
+    return Object.values(DIALECTS);
+  }
+
+  /**
+   * Check whether a value names a known dialect
+   */
+  public isDialect(id: unknown): id is OutputDialect {
+    // Own keys only, so names like "constructor" aren't taken for dialects
+    return (
+      typeof id === 'string' &&
+      Object.prototype.hasOwnProperty.call(DIALECTS, id)
+    );
+  }
+}
+
+// Export singleton instance and class
+export const dialectRegistry = new DialectRegistry();
+export default DialectRegistry;
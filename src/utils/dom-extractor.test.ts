@@ -191,6 +191,19 @@ describe('DOMExtractor', () => {
       expect(result.html).toContain('<article>');
       expect(result.html).toContain('Article Title');
     });
+
+    it('should report the main content rule and removed elements', () => {
+      const { html, report } = extractor.extractFullPage();
+
+      expect(report.mainContentSelector).toBe('main');
+      expect(report.removedElements).toEqual({
+        script: 1,
+        style: 1,
+        '.advertisement': 1,
+        '.social-share': 1,
+      });
+      expect(report.pageSize).toBeGreaterThan(html.length);
+    });
   });
 
   describe('extractSelection', () => {
@@ -274,6 +287,24 @@ describe('DOMExtractor', () => {
 
       expect(metadata.description).toBe('This is a test page description');
     });
+
+    it('should extract the canonical URL and tags', () => {
+      const canonical = document.createElement('link');
+      canonical.rel = 'canonical';
+      canonical.href = 'https://example.com/canonical';
+      const keywords = document.createElement('meta');
+      keywords.name = 'keywords';
+      keywords.content = 'alpha, beta,, alpha';
+      document.head.append(canonical, keywords);
+
+      const metadata: PageMetadata = extractor.extractPageMetadata();
+
+      expect(metadata.canonicalUrl).toBe('https://example.com/canonical');
+      expect(metadata.tags).toEqual(['alpha', 'beta']);
+
+      canonical.remove();
+      keywords.remove();
+    });
   });
 
   describe('extractFromSelector', () => {
@@ -442,5 +473,47 @@ describe('DOMExtractor', () => {
       expect(element.innerHTML).not.toContain('Hidden content');
       expect(element.innerHTML).not.toContain('Also hidden');
     });
+
+    it('should remove copy buttons from code blocks', () => {
+      const element = document.createElement('div');
+      element.innerHTML = `
+        <div class="code-toolbar"><pre><button>Copy</button><code>x</code></pre><div class="toolbar">Copy</div></div>
+      `;
+
+      (extractor as any).removeUnwantedElements(element);
+
+      expect(element.innerHTML).toContain('<code>x</code>');
+      expect(element.innerHTML).not.toContain('button');
+      expect(element.querySelector('.toolbar')).toBeNull();
+    });
+
+    it('should resolve lazy-loaded images before removing data attributes', () => {
+      const element = document.createElement('div');
+      element.innerHTML = `
+        <img src="data:image/gif;base64,R0lG" data-src="/photo.jpg" alt="Photo">
+        <img src="/pixel.gif" width="1" height="1">
+      `;
+
+      (extractor as any).removeUnwantedElements(element);
+
+      expect(element.querySelectorAll('img')).toHaveLength(1);
+      expect(element.querySelector('img')?.getAttribute('src')).toBe(
+        '/photo.jpg'
+      );
+      expect(element.innerHTML).not.toContain('data-src');
+    });
+
+    it('should keep math sources for the converter', () => {
+      const element = document.createElement('div');
+      element.innerHTML = `
+        <script type="math/tex">x^2</script>
+        <span style="display: none"><math alttext="y"><mi>y</mi></math></span>
+      `;
+
+      (extractor as any).removeUnwantedElements(element);
+
+      expect(element.innerHTML).toContain('x^2');
+      expect(element.innerHTML).toContain('<math');
+    });
   });
 });
@@ -1,23 +1,41 @@
+import { imageResolver } from './images';
+
 export interface PageMetadata {
   title: string;
   url: string;
   description?: string;
   author?: string;
   publishedTime?: string;
+  canonicalUrl?: string;
+  tags?: string[];
+}
+
+/**
+ * What extraction kept and dropped, for the conversion report
+ */
+export interface ExtractionReport {
+  mainContentSelector: string | null; // Rule that found the main content; null when everything was kept
+  removedElements: Record<string, number>; // Elements removed, by rule
+  pageSize: number; // HTML bytes before cleanup
 }
 
 export interface ExtractedContent {
   html: string;
   text: string;
   metadata: PageMetadata;
+  report: ExtractionReport;
 }
 
 export interface SelectionContent {
   html: string;
   text: string;
   context?: string;
+  report: ExtractionReport;
 }
 
+// Reported when findMainContent falls back to the block with most text
+const LARGEST_BLOCK = 'largest content block';
+
 class DOMExtractor {
   /**
    * Extract the full page content from the current document
@@ -25,17 +43,19 @@ class DOMExtractor {
   public extractFullPage(): ExtractedContent {
     // Clone the body to avoid modifying the original
     const bodyClone = document.body.cloneNode(true) as HTMLElement;
+    const report = this.createReport(bodyClone);
 
     // Remove script and style elements
-    this.removeUnwantedElements(bodyClone);
+    this.removeUnwantedElements(bodyClone, report);
 
     // Get the main content area if it exists
-    const mainContent = this.findMainContent(bodyClone) || bodyClone;
+    const mainContent = this.findMainContent(bodyClone, report) || bodyClone;
 
     return {
       html: mainContent.innerHTML,
       text: mainContent.innerText || mainContent.textContent || '',
       metadata: this.extractPageMetadata(),
+      report,
     };
   }
 
@@ -55,9 +75,10 @@ class DOMExtractor {
     // Clone the contents of the selection
     const clonedContents = range.cloneContents();
     container.appendChild(clonedContents);
+    const report = this.createReport(container);
 
     // Clean up the cloned content
-    this.removeUnwantedElements(container);
+    this.removeUnwantedElements(container, report);
 
     // Get the parent context if available
     let context: string | undefined;
@@ -73,6 +94,7 @@ class DOMExtractor {
       html: container.innerHTML,
       text: selection.toString(),
       context,
+      report,
     };
   }
 
@@ -114,6 +136,29 @@ class DOMExtractor {
         publishedMeta.getAttribute('content') || undefined;
     }
 
+    // Try to get the canonical URL
+    const canonicalLink = document.querySelector('link[rel="canonical"]');
+    if (canonicalLink) {
+      metadata.canonicalUrl =
+        (canonicalLink as HTMLLinkElement).href ||
+        canonicalLink.getAttribute('href') ||
+        undefined;
+    }
+
+    // Try to get tags from article:tag or keywords
+    const tagMetas = document.querySelectorAll('meta[property="article:tag"]');
+    const keywordsMeta = document.querySelector('meta[name="keywords"]');
+    const tags = tagMetas.length
+      ? Array.from(tagMetas).map((meta) => meta.getAttribute('content') || '')
+      : (keywordsMeta?.getAttribute('content') || '').split(',');
+    const uniqueTags = Array.from(
+      new Set(tags.map((tag) => tag.trim()).filter(Boolean))
+    );
+
+    if (uniqueTags.length > 0) {
+      metadata.tags = uniqueTags;
+    }
+
     return metadata;
   }
 
@@ -128,12 +173,15 @@ class DOMExtractor {
     }
 
     const clonedElement = element.cloneNode(true) as HTMLElement;
-    this.removeUnwantedElements(clonedElement);
+    const report = this.createReport(clonedElement);
+    report.mainContentSelector = selector;
+    this.removeUnwantedElements(clonedElement, report);
 
     return {
       html: clonedElement.innerHTML,
       text: clonedElement.innerText || clonedElement.textContent || '',
       metadata: this.extractPageMetadata(),
+      report,
     };
   }
 
@@ -149,20 +197,35 @@ class DOMExtractor {
   /**
    * Remove unwanted elements from the DOM tree
    */
-  private removeUnwantedElements(element: HTMLElement): void {
-    // Remove script tags
-    const scripts = element.querySelectorAll('script');
-    scripts.forEach((script) => script.remove());
+  private removeUnwantedElements(
+    element: HTMLElement,
+    report?: ExtractionReport
+  ): void {
+    const remove = (rule: string, elements: Element[]) => {
+      elements.forEach((el) => el.remove());
+      this.countRemoved(report, rule, elements.length);
+    };
 
-    // Remove style tags
-    const styles = element.querySelectorAll('style');
-    styles.forEach((style) => style.remove());
+    // Remove script tags, keeping MathJax TeX sources for the converter
+    remove(
+      'script',
+      Array.from(element.querySelectorAll('script')).filter(
+        (script) => !/^math\/tex/i.test(script.getAttribute('type') || '')
+      )
+    );
 
-    // Remove hidden elements
-    const hidden = element.querySelectorAll(
-      '[style*="display: none"], [style*="display:none"]'
+    // Remove style tags
+    remove('style', Array.from(element.querySelectorAll('style')));
+
+    // Remove hidden elements (except hidden MathML kept for accessibility)
+    remove(
+      'hidden',
+      Array.from(
+        element.querySelectorAll(
+          '[style*="display: none"], [style*="display:none"]'
+        )
+      ).filter((el) => !el.querySelector('math'))
     );
-    hidden.forEach((el) => el.remove());
 
     // Remove common ad/tracking elements
     const unwantedSelectors = [
@@ -173,20 +236,42 @@ class DOMExtractor {
       '[class*="cookie-consent"]',
       '.social-share',
       '.newsletter-signup',
-      'iframe[src*="youtube.com"]',
-      'iframe[src*="twitter.com"]',
+      // Code block chrome: copy buttons, toolbars and line-number gutters
+      'pre button',
+      'clipboard-copy',
+      '.copy-button',
+      '.copy-code-button',
+      '.btn-clipboard',
+      '.code-toolbar > .toolbar',
+      '.line-numbers-rows',
     ];
 
     unwantedSelectors.forEach((selector) => {
-      const elements = element.querySelectorAll(selector);
-      elements.forEach((el) => el.remove());
+      remove(selector, Array.from(element.querySelectorAll(selector)));
     });
 
-    // Remove data attributes to reduce size
+    // Settle image sources while lazy-loading attributes are still there
+    this.countRemoved(
+      report,
+      'tracking pixels and empty images',
+      imageResolver.resolveImages(element)
+    );
+
+    // Remove data attributes to reduce size, keeping code language and
+    // callout type hints
+    const keptDataAttributes = [
+      'data-lang',
+      'data-language',
+      'data-code-language',
+      'data-callout',
+    ];
     const allElements = element.querySelectorAll('*');
     allElements.forEach((el) => {
       Array.from(el.attributes).forEach((attr) => {
-        if (attr.name.startsWith('data-')) {
+        if (
+          attr.name.startsWith('data-') &&
+          !keptDataAttributes.includes(attr.name)
+        ) {
           el.removeAttribute(attr.name);
         }
       });
@@ -196,7 +281,10 @@ class DOMExtractor {
   /**
    * Try to find the main content area of the page
    */
-  private findMainContent(element: HTMLElement): HTMLElement | null {
+  private findMainContent(
+    element: HTMLElement,
+    report?: ExtractionReport
+  ): HTMLElement | null {
     // Common main content selectors
     const mainSelectors = [
       'main',
@@ -215,6 +303,7 @@ class DOMExtractor {
     for (const selector of mainSelectors) {
       const mainElement = element.querySelector(selector) as HTMLElement;
       if (mainElement) {
+        if (report) report.mainContentSelector = selector;
         return mainElement;
       }
     }
@@ -235,9 +324,32 @@ class DOMExtractor {
       }
     });
 
+    if (report && largestBlock) report.mainContentSelector = LARGEST_BLOCK;
     return largestBlock;
   }
 
+  /**
+   * Start a report for content about to be cleaned up
+   */
+  private createReport(element: HTMLElement): ExtractionReport {
+    return {
+      mainContentSelector: null,
+      removedElements: {},
+      pageSize: new Blob([element.innerHTML]).size,
+    };
+  }
+
+  private countRemoved(
+    report: ExtractionReport | undefined,
+    rule: string,
+    count: number
+  ): void {
+    if (report && count > 0) {
+      report.removedElements[rule] =
+        (report.removedElements[rule] || 0) + count;
+    }
+  }
+
   /**
    * Sanitize HTML to remove potentially harmful content
    */
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import EmbedResolver, { embedResolver } from './embeds';
+
+function parseElement(markup: string): Element {
+  const container = document.createElement('div');
+  container.innerHTML = markup;
+  return container.firstElementChild as Element;
+}
+
+describe('EmbedResolver', () => {
+  let resolver: EmbedResolver;
+
+  beforeEach(() => {
+    resolver = new EmbedResolver();
+  });
+
+  describe('resolve', () => {
+    it('should resolve YouTube embeds to the watch page and thumbnail', () => {
+      const frame = parseElement(
+        '<iframe src="https://www.youtube-nocookie.com/embed/abc123XYZ?start=5" title="Talk"></iframe>'
+      );
+      expect(resolver.resolve(frame)).toEqual({
+        type: 'video',
+        provider: 'YouTube',
+        url: 'https://www.youtube.com/watch?v=abc123XYZ',
+        title: 'Talk',
+        thumbnail: 'https://img.youtube.com/vi/abc123XYZ/hqdefault.jpg',
+      });
+    });
+
+    it('should read page URLs carried in the query string', () => {
+      const frame = parseElement(
+        '<iframe src="https://w.soundcloud.com/player/?url=https%3A%2F%2Fsoundcloud.com%2Fartist%2Ftrack"></iframe>'
+      );
+      expect(resolver.resolve(frame)).toMatchObject({
+        type: 'audio',
+        provider: 'SoundCloud',
+        url: 'https://soundcloud.com/artist/track',
+      });
+    });
+
+    it('should fall back to a generic frame named after its host', () => {
+      const frame = parseElement(
+        '<iframe src="//www.example.org/widget" aria-label="Live  chart"></iframe>'
+      );
+      expect(resolver.resolve(frame)).toEqual({
+        type: 'frame',
+        provider: 'example.org',
+        url: 'https://www.example.org/widget',
+        title: 'Live chart',
+      });
+    });
+
+    it('should use the source and poster of native media', () => {
+      const video = parseElement(
+        '<video poster="poster.jpg"><source src="clip.webm"></video>'
+      );
+      expect(resolver.resolve(video)).toMatchObject({
+        type: 'video',
+        url: 'clip.webm',
+        thumbnail: 'poster.jpg',
+      });
+      expect(
+        resolver.resolve(parseElement('<audio src="talk.mp3"></audio>'))
+      ).toMatchObject({ type: 'audio', url: 'talk.mp3', thumbnail: undefined });
+    });
+
+    it('should return null without a usable source', () => {
+      expect(resolver.resolve(parseElement('<iframe></iframe>'))).toBeNull();
+      expect(
+        resolver.resolve(parseElement('<iframe src="about:blank"></iframe>'))
+      ).toBeNull();
+      expect(resolver.resolve(parseElement('<video></video>'))).toBeNull();
+    });
+  });
+
+  describe('Singleton instance', () => {
+    it('should export a singleton instance', () => {
+      expect(embedResolver).toBeInstanceOf(EmbedResolver);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+// Media embed detection for Chrome Markdownify extension
+
+/**
+ * Embed categories, each with its own output style
+ */
+export type EmbedType = 'video' | 'audio' | 'frame';
+
+/**
+ * How an embed is written: a linked thumbnail where one can be derived, a
+ * labeled link, or nothing
+ */
+export type EmbedStyle = 'thumbnail' | 'link' | 'remove';
+
+export interface Embed {
+  type: EmbedType;
+  provider: string;
+  url: string;
+  title: string;
+  thumbnail?: string;
+}
+
+export const DEFAULT_EMBED_STYLES: Record<EmbedType, EmbedStyle> = {
+  video: 'thumbnail',
+  audio: 'link',
+  frame: 'link',
+};
+
+interface EmbedProvider {
+  name: string;
+  type: EmbedType;
+  // Matched against the embed URL without its protocol
+  pattern: RegExp;
+  // Page URL for the embedded content, from the pattern's match
+  getUrl: (match: RegExpMatchArray, src: URL) => string;
+  getThumbnail?: (match: RegExpMatchArray) => string;
+}
+
+// Read a URL-encoded page address from an embed's query string
+const fromQuery =
+  (parameter: string) =>
+  (_match: RegExpMatchArray, src: URL): string =>
+    src.searchParams.get(parameter) || src.href;
+
+const PROVIDERS: EmbedProvider[] = [
+  {
+    name: 'YouTube',
+    type: 'video',
+    pattern:
+      /^(?:www\.)?youtube(?:-nocookie)?\.com\/(?:embed|shorts)\/([\w-]{6,})/,
+    getUrl: ([, id]) => `https://www.youtube.com/watch?v=${id}`,
+    getThumbnail: ([, id]) => `https://img.youtube.com/vi/${id}/hqdefault.jpg`,
+  },
+  {
+    name: 'Vimeo',
+    type: 'video',
+    pattern: /^player\.vimeo\.com\/video\/(\d+)/,
+    getUrl: ([, id]) => `https://vimeo.com/${id}`,
+  },
+  {
+    name: 'Loom',
+    type: 'video',
+    pattern: /^(?:www\.)?loom\.com\/embed\/(\w+)/,
+    getUrl: ([, id]) => `https://www.loom.com/share/${id}`,
+  },
+  {
+    name: 'Spotify',
+    type: 'audio',
+    pattern: /^open\.spotify\.com\/embed\/(\w+)\/(\w+)/,
+    getUrl: ([, kind, id]) => `https://open.spotify.com/${kind}/${id}`,
+  },
+  {
+    name: 'SoundCloud',
+    type: 'audio',
+    pattern: /^w\.soundcloud\.com\/player\//,
+    getUrl: fromQuery('url'),
+  },
+  {
+    name: 'CodePen',
+    type: 'frame',
+    pattern: /^codepen\.io\/([\w-]+)\/embed\/(?:preview\/)?(\w+)/,
+    getUrl: ([, user, id]) => `https://codepen.io/${user}/pen/${id}`,
+  },
+  {
+    name: 'CodeSandbox',
+    type: 'frame',
+    pattern: /^codesandbox\.io\/embed\/([\w-]+)/,
+    getUrl: ([, id]) => `https://codesandbox.io/s/${id}`,
+  },
+  {
+    name: 'Figma',
+    type: 'frame',
+    pattern: /^(?:www\.|embed\.)?figma\.com\/embed/,
+    getUrl: fromQuery('url'),
+  },
+  {
+    name: 'Google Maps',
+    type: 'frame',
+    pattern: /^(?:www\.|maps\.)?google\.[a-z.]+\/maps/,
+    getUrl: (_match, src) => src.href,
+  },
+  {
+    name: 'Twitter',
+    type: 'frame',
+    pattern: /^platform\.twitter\.com\/embed\/.*[?&]id=(\d+)/,
+    getUrl: ([, id]) => `https://twitter.com/i/status/${id}`,
+  },
+];
+
+/**
+ * Work out what an <iframe>, <video> or <audio> embeds and where its
+ * content can be opened
+ */
+class EmbedResolver {
+  /**
+   * Describe an embed element; null when it has no usable source
+   */
+  public resolve(element: Element): Embed | null {
+    switch (element.nodeName) {
+      case 'IFRAME':
+        return this.resolveFrame(element);
+      case 'VIDEO':
+      case 'AUDIO':
+        return this.resolveMedia(element);
+      default:
+        return null;
+    }
+  }
+
+  private resolveFrame(frame: Element): Embed | null {
+    const src = this.parseUrl(frame.getAttribute('src') || '');
+    if (!src) return null;
+
+    const title = this.getTitle(frame);
+    const address = `${src.host}${src.pathname}${src.search}`;
+
+    for (const provider of PROVIDERS) {
+      const match = address.match(provider.pattern);
+      if (match) {
+        return {
+          type: provider.type,
+          provider: provider.name,
+          url: provider.getUrl(match, src),
+          title,
+          thumbnail: provider.getThumbnail?.(match),
+        };
+      }
+    }
+
+    return {
+      type: 'frame',
+      provider: src.hostname.replace(/^www\./, ''),
+      url: src.href,
+      title,
+    };
+  }
+
+  private resolveMedia(media: Element): Embed | null {
+    const source =
+      media.getAttribute('src') ||
+      media.querySelector('source[src]')?.getAttribute('src') ||
+      '';
+    if (!source) return null;
+
+    const isVideo = media.nodeName === 'VIDEO';
+    return {
+      type: isVideo ? 'video' : 'audio',
+      provider: isVideo ? 'Video' : 'Audio',
+      url: source,
+      title: this.getTitle(media),
+      thumbnail: (isVideo && media.getAttribute('poster')) || undefined,
+    };
+  }
+
+  private getTitle(element: Element): string {
+    return (
+      element.getAttribute('title') ||
+      element.getAttribute('aria-label') ||
+      ''
+    )
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private parseUrl(url: string): URL | null {
+    // Protocol-relative embeds are common in older markup
+    const absolute = url.startsWith('//') ? `https:${url}` : url;
+    try {
+      const parsed = new URL(absolute);
+      return /^https?:$/.test(parsed.protocol) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Export singleton instance and class
+export const embedResolver = new EmbedResolver();
+export default EmbedResolver;
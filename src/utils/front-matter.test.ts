@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+
+import { frontMatterBuilder } from './front-matter';
+
+describe('FrontMatterBuilder', () => {
+  describe('build', () => {
+    it('should write every field in order', () => {
+      const result = frontMatterBuilder.build({
+        title: 'My Page',
+        url: 'https://example.com/a',
+        canonical: 'https://example.com/canonical',
+        author: 'Jane',
+        published: '2024-01-01',
+        captured: '2024-02-03T04:05:06.000Z',
+        description: 'About things',
+        tags: ['one', 'two'],
+        selection: true,
+      });
+
+      expect(result).toBe(
+        [
+          '---',
+          'title: My Page',
+          'url: https://example.com/a',
+          'canonical: https://example.com/canonical',
+          'author: Jane',
+          'published: 2024-01-01',
+          'captured: 2024-02-03T04:05:06.000Z',
+          'description: About things',
+          'tags:',
+          '  - one',
+          '  - two',
+          'selection: true',
+          '---',
+        ].join('\n')
+      );
+    });
+
+    it('should skip empty fields and a canonical URL equal to the URL', () => {
+      const result = frontMatterBuilder.build({
+        title: 'Page',
+        url: 'https://example.com',
+        canonical: 'https://example.com',
+        author: '  ',
+        captured: 'now',
+        tags: [],
+      });
+
+      expect(result).toBe(
+        '---\ntitle: Page\nurl: https://example.com\ncaptured: now\nselection: false\n---'
+      );
+    });
+  });
+
+  describe('formatScalar', () => {
+    it('should leave plain strings unquoted', () => {
+      expect(frontMatterBuilder.formatScalar('Hello world')).toBe(
+        'Hello world'
+      );
+      expect(frontMatterBuilder.formatScalar('a:b')).toBe('a:b');
+    });
+
+    it('should quote values YAML would misread', () => {
+      expect(frontMatterBuilder.formatScalar('Note: read this')).toBe(
+        '"Note: read this"'
+      );
+      expect(frontMatterBuilder.formatScalar('yes')).toBe('"yes"');
+      expect(frontMatterBuilder.formatScalar('null')).toBe('"null"');
+      expect(frontMatterBuilder.formatScalar('1.5')).toBe('"1.5"');
+      expect(frontMatterBuilder.formatScalar('- item')).toBe('"- item"');
+      expect(frontMatterBuilder.formatScalar('[draft]')).toBe('"[draft]"');
+      expect(frontMatterBuilder.formatScalar('C# #tips')).toBe('"C# #tips"');
+      expect(frontMatterBuilder.formatScalar('@handle')).toBe('"@handle"');
+    });
+
+    it('should escape quotes, backslashes and control characters', () => {
+      expect(frontMatterBuilder.formatScalar('"Hi" \\ there')).toBe(
+        '"\\"Hi\\" \\\\ there"'
+      );
+      expect(frontMatterBuilder.formatScalar('line\nbreak\ttab')).toBe(
+        '"line\\nbreak\\ttab"'
+      );
+      expect(frontMatterBuilder.formatScalar('bell\u0007')).toBe(
+        '"bell\\u0007"'
+      );
+    });
+  });
+});
@@ -0,0 +1,98 @@
+// YAML front matter generation for Chrome Markdownify extension
+
+export interface FrontMatterFields {
+  title: string;
+  url: string;
+  canonical?: string;
+  author?: string;
+  published?: string;
+  captured: string;
+  description?: string;
+  tags?: string[];
+  selection?: boolean;
+}
+
+// Plain scalars YAML would read as something other than a string
+const RESERVED_SCALAR =
+  /^(true|false|yes|no|on|off|y|n|null|~|[-+]?\.(inf|nan)|[-+]?(\d[\d_]*)?\.?\d[\d_]*([eE][-+]?\d+)?|0x[\da-f]+|0o[0-7]+)$/i;
+
+// Characters that start YAML syntax when they lead a plain scalar
+const INDICATOR_START = /^[-?:,[\]{}#&*!|>'"%@`]/;
+
+// Characters that can only appear escaped inside a double-quoted scalar
+const CONTROL_CHARACTERS = /[\p{Cc}\u2028\u2029]/gu;
+
+/**
+ * Write page metadata as a YAML front matter block that Obsidian, Hugo,
+ * Jekyll and other static-site tooling can read
+ */
+class FrontMatterBuilder {
+  /**
+   * Build the --- delimited block, skipping empty fields
+   */
+  public build(fields: FrontMatterFields): string {
+    const lines: string[] = [];
+    const add = (key: string, value?: string) => {
+      if (value && value.trim()) {
+        lines.push(`${key}: ${this.formatScalar(value.trim())}`);
+      }
+    };
+
+    add('title', fields.title);
+    add('url', fields.url);
+    if (fields.canonical !== fields.url) add('canonical', fields.canonical);
+    add('author', fields.author);
+    add('published', fields.published);
+    add('captured', fields.captured);
+    add('description', fields.description);
+
+    const tags = (fields.tags || []).map((tag) => tag.trim()).filter(Boolean);
+    if (tags.length > 0) {
+      lines.push('tags:');
+      tags.forEach((tag) => lines.push(`  - ${this.formatScalar(tag)}`));
+    }
+
+    lines.push(`selection: ${fields.selection ? 'true' : 'false'}`);
+
+    return ['---', ...lines, '---'].join('\n');
+  }
+
+  /**
+   * Write a string as a YAML scalar, quoting it whenever a plain scalar
+   * would change its meaning or type
+   */
+  public formatScalar(value: string): string {
+    const needsQuotes =
+      value === '' ||
+      value !== value.trim() ||
+      RESERVED_SCALAR.test(value) ||
+      INDICATOR_START.test(value) ||
+      /:(\s|$)|\s#/.test(value) ||
+      value.search(CONTROL_CHARACTERS) !== -1;
+
+    return needsQuotes ? this.quote(value) : value;
+  }
+
+  /**
+   * Double-quote a string, escaping backslashes, quotes and control
+   * characters
+   */
+  private quote(value: string): string {
+    const escaped = value
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(/\t/g, '\\t')
+      .replace(
+        CONTROL_CHARACTERS,
+        (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+      );
+
+    return `"${escaped}"`;
+  }
+}
+
+// Export singleton instance and class
+export const frontMatterBuilder = new FrontMatterBuilder();
+export default FrontMatterBuilder;
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import HeadingOutliner, { headingOutliner } from './headings';
+
+function parseBody(markup: string): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = markup;
+  return container;
+}
+
+describe('HeadingOutliner', () => {
+  let outliner: HeadingOutliner;
+
+  beforeEach(() => {
+    outliner = new HeadingOutliner();
+  });
+
+  describe('slugify', () => {
+    it('should match GitHub heading anchors', () => {
+      expect(outliner.slugify('Getting Started')).toBe('getting-started');
+      expect(outliner.slugify('What is `npm`?')).toBe('what-is-npm');
+      expect(outliner.slugify('snake_case & more')).toBe('snake_case--more');
+      expect(outliner.slugify('Überblick')).toBe('überblick');
+    });
+  });
+
+  describe('outline', () => {
+    it('should number repeated slugs and skip empty headings', () => {
+      const root = parseBody(
+        '<h2>Usage</h2><h3>Usage</h3><h3></h3><h2>Usage</h2>'
+      );
+      expect(outliner.outline(root).map((heading) => heading.slug)).toEqual([
+        'usage',
+        'usage-1',
+        'usage-2',
+      ]);
+    });
+
+    it('should leave permalink markers out of the text', () => {
+      const root = parseBody(
+        '<h2>Install<a class="headerlink" href="#install">¶</a></h2>'
+      );
+      expect(outliner.outline(root)[0].text).toBe('Install');
+    });
+  });
+
+  describe('normalizeLevels', () => {
+    it('should promote a lone top-level heading to H1', () => {
+      const root = parseBody('<h3>Title</h3><h4>A</h4><h5>B</h5>');
+      expect(outliner.normalizeLevels(outliner.outline(root))).toEqual([
+        1, 2, 3,
+      ]);
+    });
+
+    it('should keep the first heading as the only H1', () => {
+      const root = parseBody('<h1>One</h1><h1>Two</h1><h2>Sub</h2>');
+      expect(outliner.normalizeLevels(outliner.outline(root))).toEqual([
+        1, 2, 3,
+      ]);
+    });
+  });
+
+  describe('getTableOfContents', () => {
+    it('should leave out a lone H1 and never skip a depth', () => {
+      const root = parseBody('<h1>Title</h1><h2>A</h2><h4>Deep</h4><h2>B</h2>');
+      const entries = outliner.getTableOfContents(outliner.outline(root));
+      expect(entries.map((entry) => [entry.depth, entry.text])).toEqual([
+        [0, 'A'],
+        [1, 'Deep'],
+        [0, 'B'],
+      ]);
+    });
+  });
+
+  describe('Singleton instance', () => {
+    it('should export a singleton instance', () => {
+      expect(headingOutliner).toBeInstanceOf(HeadingOutliner);
+    });
+  });
+});
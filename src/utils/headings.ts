@@ -0,0 +1,122 @@
+// Heading outlines and slugs for Chrome Markdownify extension
+
+export interface HeadingEntry {
+  element: HTMLElement;
+  level: number;
+  text: string;
+  slug: string;
+}
+
+export interface TableOfContentsEntry {
+  depth: number;
+  text: string;
+  slug: string;
+}
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+
+// Permalink markers docs generators append to headings
+const PERMALINK_SELECTOR = '.headerlink, .anchor, .anchorjs-link, .hash-link';
+
+/**
+ * Outline a document's headings with GitHub-style slugs, normalize their
+ * levels and list them for a table of contents
+ */
+class HeadingOutliner {
+  /**
+   * List the headings under a root in document order, with unique slugs
+   */
+  public outline(root: Element): HeadingEntry[] {
+    const used = new Map<string, number>();
+
+    return Array.from(root.querySelectorAll<HTMLElement>(HEADING_SELECTOR))
+      .map((element) => ({
+        element,
+        level: Number(element.nodeName.charAt(1)),
+        text: this.getText(element),
+      }))
+      .filter((heading) => heading.text)
+      .map((heading) => {
+        // Repeated headings get -1, -2... like GitHub
+        const base = this.slugify(heading.text);
+        const count = used.get(base) || 0;
+        used.set(base, count + 1);
+        return { ...heading, slug: count ? `${base}-${count}` : base };
+      });
+  }
+
+  /**
+   * Remove the permalink markers (¶, #) docs generators put in headings
+   */
+  public stripPermalinks(root: Element): void {
+    root
+      .querySelectorAll(HEADING_SELECTOR)
+      .forEach((heading) =>
+        heading
+          .querySelectorAll(PERMALINK_SELECTOR)
+          .forEach((link) => link.remove())
+      );
+  }
+
+  /**
+   * Convert heading text to the anchor GitHub generates for it
+   */
+  public slugify(text: string): string {
+    return text
+      .trim()
+      .toLowerCase()
+      .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '')
+      .replace(/ /g, '-');
+  }
+
+  /**
+   * Work out levels that give the document a single H1: the only top-level
+   * heading becomes the H1, or when there are several the first heading
+   * does and the rest move down under it
+   */
+  public normalizeLevels(headings: HeadingEntry[]): number[] {
+    if (headings.length === 0) return [];
+
+    const top = Math.min(...headings.map((heading) => heading.level));
+    const topCount = headings.filter((heading) => heading.level === top).length;
+
+    if (topCount === 1 && headings[0].level === top) {
+      return headings.map((heading) => heading.level - top + 1);
+    }
+
+    return headings.map((heading, index) =>
+      index === 0 ? 1 : Math.min(6, heading.level - top + 2)
+    );
+  }
+
+  /**
+   * List the headings for a table of contents, leaving out a lone H1 that
+   * titles the document; depths start at 0 and never skip a level
+   */
+  public getTableOfContents(headings: HeadingEntry[]): TableOfContentsEntry[] {
+    const titles = headings.filter((heading) => heading.level === 1);
+    const entries =
+      titles.length === 1
+        ? headings.filter((heading) => heading !== titles[0])
+        : headings;
+    if (entries.length === 0) return [];
+
+    const top = Math.min(...entries.map((heading) => heading.level));
+    let previousDepth = -1;
+    return entries.map((heading) => {
+      const depth = Math.min(heading.level - top, previousDepth + 1);
+      previousDepth = depth;
+      return { depth, text: heading.text, slug: heading.slug };
+    });
+  }
+
+  private getText(element: HTMLElement): string {
+    const clone = element.cloneNode(true) as HTMLElement;
+    clone.querySelectorAll(PERMALINK_SELECTOR).forEach((link) => link.remove());
+    return (clone.textContent || '').replace(/\s+/g, ' ').trim();
+  }
+}
+
+// Export singleton instance and class
+export const headingOutliner = new HeadingOutliner();
+export default HeadingOutliner;
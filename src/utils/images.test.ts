@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import ImageResolver, { imageResolver } from './images';
+
+function parseBody(markup: string): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = markup;
+  return container;
+}
+
+describe('ImageResolver', () => {
+  let resolver: ImageResolver;
+
+  beforeEach(() => {
+    resolver = new ImageResolver();
+  });
+
+  describe('getBestCandidate', () => {
+    it('should pick the widest or densest candidate', () => {
+      expect(
+        resolver.getBestCandidate('s.jpg 480w, l.jpg 1200w,m.jpg 800w')
+      ).toBe('l.jpg');
+      expect(resolver.getBestCandidate('a.png, a@3x.png 3x, a@2x.png 2x')).toBe(
+        'a@3x.png'
+      );
+    });
+
+    it('should skip placeholder candidates', () => {
+      expect(resolver.getBestCandidate('data:image/gif;base64,R0lG 2x')).toBe(
+        null
+      );
+    });
+  });
+
+  describe('resolveImages', () => {
+    it('should take the source from lazy-loading attributes', () => {
+      const root = parseBody(
+        '<img src="data:image/gif;base64,R0lG" data-lazy-src="/real.jpg" data-srcset="" alt="A">'
+      );
+      resolver.resolveImages(root);
+      expect(root.innerHTML).toBe('<img src="/real.jpg" alt="A">');
+    });
+
+    it('should prefer the largest srcset candidate across <picture> sources', () => {
+      const root = parseBody(
+        '<picture><source srcset="a.webp 1x, a@2x.webp 2x"><img src="a.jpg" srcset="a-1x.jpg 1x" sizes="50vw"></picture>'
+      );
+      resolver.resolveImages(root);
+      const img = root.querySelector('img');
+      expect(img?.getAttribute('src')).toBe('a@2x.webp');
+      expect(img?.hasAttribute('srcset')).toBe(false);
+    });
+
+    it('should fall back to the image in a following <noscript>', () => {
+      const root = parseBody('<img src="data:image/gif;base64,R0lG" alt="A">');
+      const noscript = document.createElement('noscript');
+      noscript.textContent = '<img src="/full.jpg" alt="A">';
+      root.appendChild(noscript);
+
+      resolver.resolveImages(root);
+      expect(root.innerHTML).toBe('<img src="/full.jpg" alt="A">');
+    });
+
+    it('should replace a <noscript> without a placeholder by its image', () => {
+      const root = parseBody('<p>Text</p>');
+      const noscript = document.createElement('noscript');
+      noscript.textContent = '<img src="/only.jpg">';
+      root.appendChild(noscript);
+
+      resolver.resolveImages(root);
+      expect(root.querySelector('noscript')).toBeNull();
+      expect(root.querySelector('img')?.getAttribute('src')).toBe('/only.jpg');
+    });
+
+    it('should drop tracking pixels, spacers and empty placeholders', () => {
+      const root = parseBody(
+        '<img src="/t?id=1" width="1" height="1"><img src="/img/spacer.gif"><img src="data:image/gif;base64,R0lG"><img src="/kept.png" width="1">'
+      );
+      resolver.resolveImages(root);
+      expect(
+        Array.from(root.querySelectorAll('img')).map((img) =>
+          img.getAttribute('src')
+        )
+      ).toEqual(['/kept.png']);
+    });
+
+    it('should keep inline images when there is nothing better', () => {
+      const root = parseBody('<img src="data:image/png;base64,iVBO">');
+      resolver.resolveImages(root);
+      expect(root.querySelector('img')?.getAttribute('src')).toBe(
+        'data:image/png;base64,iVBO'
+      );
+    });
+  });
+
+  describe('Singleton instance', () => {
+    it('should export a singleton instance', () => {
+      expect(imageResolver).toBeInstanceOf(ImageResolver);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+// Responsive and lazy-loaded image sources for Chrome Markdownify extension
+
+// Attributes lazy-loading libraries keep the real image in
+const LAZY_SRC_ATTRIBUTES = [
+  'data-src',
+  'data-lazy-src',
+  'data-original',
+  'data-lazy',
+];
+const LAZY_SRCSET_ATTRIBUTES = ['data-srcset', 'data-lazy-srcset'];
+
+// Spacer GIFs and tracking beacons that never show content
+const SPACER_PATTERN =
+  /(?:^|\/)(?:spacer|blank|clear|transparent|pixel|1x1|beacon)\.(?:gif|png)(?:[?#]|$)/i;
+
+/**
+ * Give every image the best source it declares, from srcset, <picture>
+ * sources, lazy-loading attributes and <noscript> fallbacks, and drop the
+ * spacers and tracking pixels that carry no content
+ */
+class ImageResolver {
+  /**
+   * Resolve the images under a root in place, returning how many were
+   * dropped
+   */
+  public resolveImages(root: Element): number {
+    const fallbacks = this.takeNoscriptFallbacks(root);
+    let removed = 0;
+
+    root.querySelectorAll('img').forEach((img) => {
+      const src = this.getBestSource(img, fallbacks.get(img));
+      if (src) {
+        img.setAttribute('src', src);
+      }
+      [
+        ...LAZY_SRC_ATTRIBUTES,
+        ...LAZY_SRCSET_ATTRIBUTES,
+        'srcset',
+        'sizes',
+      ].forEach((attribute) => img.removeAttribute(attribute));
+
+      if (!src || this.isTrackingPixel(img)) {
+        img.remove();
+        removed++;
+      }
+    });
+
+    return removed;
+  }
+
+  /**
+   * Pick the widest (or densest) candidate in a srcset
+   */
+  public getBestCandidate(srcset: string): string | null {
+    let best: string | null = null;
+    let bestSize = 0;
+
+    for (const candidate of srcset.split(/,\s+|(?<=\s[\d.]+[wx]),/)) {
+      const [url = '', descriptor = '1x'] = candidate.trim().split(/\s+/);
+      const size = parseFloat(descriptor) || 1;
+      if (!this.isPlaceholder(url) && size > bestSize) {
+        best = url;
+        bestSize = size;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Whether a URL is an inline data URI or spacer image standing in for
+   * the real one
+   */
+  public isPlaceholder(url: string): boolean {
+    const trimmed = url.trim();
+    return !trimmed || /^data:/i.test(trimmed) || SPACER_PATTERN.test(trimmed);
+  }
+
+  /**
+   * Whether an image is a 1×1 pixel or spacer GIF
+   */
+  public isTrackingPixel(img: Element): boolean {
+    const tiny = (attribute: string) => {
+      const value = img.getAttribute(attribute);
+      return value !== null && parseFloat(value) <= 1;
+    };
+    return (
+      (tiny('width') && tiny('height')) ||
+      SPACER_PATTERN.test(img.getAttribute('src') || '')
+    );
+  }
+
+  private getBestSource(img: Element, fallback?: string): string | null {
+    const picture =
+      img.parentElement?.nodeName === 'PICTURE' ? img.parentElement : null;
+    const srcsets = [
+      ...[...LAZY_SRCSET_ATTRIBUTES, 'srcset'].map((attribute) =>
+        img.getAttribute(attribute)
+      ),
+      ...Array.from(picture?.querySelectorAll('source') || []).flatMap(
+        (source) =>
+          [...LAZY_SRCSET_ATTRIBUTES, 'srcset'].map((attribute) =>
+            source.getAttribute(attribute)
+          )
+      ),
+    ].filter((srcset): srcset is string => !!srcset);
+
+    const fromSrcset = this.getBestCandidate(srcsets.join(', '));
+    if (fromSrcset) return fromSrcset;
+
+    for (const attribute of [...LAZY_SRC_ATTRIBUTES, 'src']) {
+      const value = img.getAttribute(attribute) || '';
+      if (!this.isPlaceholder(value)) return value.trim();
+    }
+    if (fallback) return fallback;
+
+    // Inline images are kept when there is nothing better, except the
+    // transparent GIFs lazy loaders use
+    const src = img.getAttribute('src') || '';
+    return /^data:image\/(?!gif)/i.test(src) ? src : null;
+  }
+
+  /**
+   * Map placeholder images to the source in the <noscript> after them, and
+   * replace <noscript> blocks that stand alone with their image
+   */
+  private takeNoscriptFallbacks(root: Element): Map<Element, string> {
+    const fallbacks = new Map<Element, string>();
+
+    root.querySelectorAll('noscript').forEach((noscript) => {
+      const fallback = this.getNoscriptImage(noscript);
+      const src = fallback?.getAttribute('src') || '';
+      if (!fallback || this.isPlaceholder(src)) return;
+
+      const previous = noscript.previousElementSibling;
+      const target =
+        previous?.nodeName === 'IMG'
+          ? previous
+          : previous?.querySelector('img');
+      if (target) {
+        fallbacks.set(target, src);
+        noscript.remove();
+      } else {
+        noscript.replaceWith(fallback);
+      }
+    });
+
+    return fallbacks;
+  }
+
+  private getNoscriptImage(noscript: Element): Element | null {
+    const img = noscript.querySelector('img');
+    if (img) return img;
+
+    // With scripting on, <noscript> content is kept as raw markup
+    const template = noscript.ownerDocument.createElement('template');
+    template.innerHTML = noscript.textContent || '';
+    const parsed = template.content.querySelector('img');
+    return parsed ? noscript.ownerDocument.importNode(parsed, true) : null;
+  }
+}
+
+// Export singleton instance and class
+export const imageResolver = new ImageResolver();
+export default ImageResolver;
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import MarkdownAstBuilder, {
+  markdownAstBuilder,
+  MdastCode,
+  MdastHeading,
+  MdastLink,
+  MdastList,
+  MdastTable,
+} from './markdown-ast';
+
+function parseBody(markup: string): HTMLElement {
+  return new DOMParser().parseFromString(markup, 'text/html').body;
+}
+
+describe('MarkdownAstBuilder', () => {
+  let builder: MarkdownAstBuilder;
+
+  beforeEach(() => {
+    builder = new MarkdownAstBuilder();
+  });
+
+  describe('build', () => {
+    it('should build headings and paragraphs with inline content', () => {
+      const { root } = builder.build(
+        parseBody(
+          '<h2>Title</h2><p>Some <strong>bold</strong>\n  and <em>it</em></p>'
+        )
+      );
+      expect(root).toEqual({
+        type: 'root',
+        children: [
+          {
+            type: 'heading',
+            depth: 2,
+            children: [{ type: 'text', value: 'Title' }],
+          },
+          {
+            type: 'paragraph',
+            children: [
+              { type: 'text', value: 'Some ' },
+              { type: 'strong', children: [{ type: 'text', value: 'bold' }] },
+              { type: 'text', value: ' and ' },
+              { type: 'emphasis', children: [{ type: 'text', value: 'it' }] },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should wrap loose inline content in containers in paragraphs', () => {
+      const { root } = builder.build(
+        parseBody('<div>Loose <a href="https://e.com">link</a><hr></div>')
+      );
+      expect(root.children.map((node) => node.type)).toEqual([
+        'paragraph',
+        'thematicBreak',
+      ]);
+      const [link] = builder.findAll<MdastLink>(root, 'link');
+      expect(link.url).toBe('https://e.com');
+      expect(builder.toText(link)).toBe('link');
+    });
+
+    it('should build lists with task items', () => {
+      const { root } = builder.build(
+        parseBody(
+          '<ol start="3"><li><input type="checkbox" checked> Done</li><li>Plain</li></ol>'
+        )
+      );
+      const list = root.children[0] as MdastList;
+      expect(list.ordered).toBe(true);
+      expect(list.start).toBe(3);
+      expect(list.children.map((item) => item.checked)).toEqual([true, null]);
+      expect(builder.toText(list.children[0])).toBe('Done');
+    });
+
+    it('should build code blocks with their language', () => {
+      const { root } = builder.build(
+        parseBody('<pre><code class="language-py">print(1)\n</code></pre>')
+      );
+      expect(root.children[0]).toEqual({
+        type: 'code',
+        lang: 'py',
+        meta: null,
+        value: 'print(1)',
+      });
+    });
+
+    it('should build tables with column alignment', () => {
+      const { root } = builder.build(
+        parseBody(
+          '<table><tr><th>A</th><th align="right">B</th></tr><tr><td>1</td><td>2</td></tr></table>'
+        )
+      );
+      const table = root.children[0] as MdastTable;
+      expect(table.align).toEqual([null, 'right']);
+      expect(table.children).toHaveLength(2);
+      expect(builder.toText(table.children[1])).toBe('12');
+    });
+
+    it('should map nodes back to their DOM source', () => {
+      const body = parseBody('<h1 id="t">Title</h1><pre>code</pre>');
+      const tree = builder.build(body);
+      const [heading] = builder.findAll<MdastHeading>(tree.root, 'heading');
+      const [code] = builder.findAll<MdastCode>(tree.root, 'code');
+
+      expect(tree.sourceOf(heading)).toBe(body.querySelector('#t'));
+      expect(tree.sourceOf(code)).toBe(body.querySelector('pre'));
+      expect(tree.sourceOf(heading.children[0])).toBe(
+        body.querySelector('#t')?.firstChild
+      );
+      expect(tree.sourceOf(tree.root)).toBe(body);
+    });
+  });
+
+  describe('Singleton instance', () => {
+    it('should export a singleton instance', () => {
+      expect(markdownAstBuilder).toBeInstanceOf(MarkdownAstBuilder);
+    });
+  });
+});
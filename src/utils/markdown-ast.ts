@@ -0,0 +1,741 @@
+// Markdown syntax tree (mdast) for Chrome Markdownify extension
+import type { Callout } from './callouts';
+
+import { codeLanguageDetector } from './code-language';
+
+// mdast node types (https://github.com/syntax-tree/mdast), limited to the
+// constructs the converter produces
+export interface MdastRoot {
+  type: 'root';
+  children: MdastFlowContent[];
+}
+
+export interface MdastHeading {
+  type: 'heading';
+  depth: 1 | 2 | 3 | 4 | 5 | 6;
+  children: MdastPhrasingContent[];
+}
+
+export interface MdastParagraph {
+  type: 'paragraph';
+  children: MdastPhrasingContent[];
+}
+
+export interface MdastBlockquote {
+  type: 'blockquote';
+  // Set for note/warning boxes, written as alerts or callouts
+  data?: { callout: { type: string; title: string } };
+  children: MdastFlowContent[];
+}
+
+export interface MdastList {
+  type: 'list';
+  ordered: boolean;
+  start: number | null;
+  spread: boolean;
+  children: MdastListItem[];
+}
+
+export interface MdastListItem {
+  type: 'listItem';
+  checked: boolean | null;
+  spread: boolean;
+  children: MdastFlowContent[];
+}
+
+export interface MdastCode {
+  type: 'code';
+  lang: string | null;
+  meta: null;
+  value: string;
+}
+
+// Display math (mdast-util-math)
+export interface MdastMath {
+  type: 'math';
+  meta: null;
+  value: string;
+}
+
+export interface MdastFootnoteDefinition {
+  type: 'footnoteDefinition';
+  identifier: string;
+  label: string;
+  children: MdastFlowContent[];
+}
+
+export interface MdastThematicBreak {
+  type: 'thematicBreak';
+}
+
+export type MdastAlign = 'left' | 'right' | 'center' | null;
+
+export interface MdastTable {
+  type: 'table';
+  align: MdastAlign[];
+  children: MdastTableRow[];
+}
+
+export interface MdastTableRow {
+  type: 'tableRow';
+  children: MdastTableCell[];
+}
+
+export interface MdastTableCell {
+  type: 'tableCell';
+  children: MdastPhrasingContent[];
+}
+
+export interface MdastText {
+  type: 'text';
+  value: string;
+}
+
+export interface MdastEmphasis {
+  type: 'emphasis';
+  children: MdastPhrasingContent[];
+}
+
+export interface MdastStrong {
+  type: 'strong';
+  children: MdastPhrasingContent[];
+}
+
+export interface MdastDelete {
+  type: 'delete';
+  children: MdastPhrasingContent[];
+}
+
+export interface MdastInlineCode {
+  type: 'inlineCode';
+  value: string;
+}
+
+export interface MdastInlineMath {
+  type: 'inlineMath';
+  value: string;
+}
+
+export interface MdastFootnoteReference {
+  type: 'footnoteReference';
+  identifier: string;
+  label: string;
+}
+
+export interface MdastBreak {
+  type: 'break';
+}
+
+export interface MdastLink {
+  type: 'link';
+  url: string;
+  title: string | null;
+  children: MdastPhrasingContent[];
+}
+
+export interface MdastImage {
+  type: 'image';
+  url: string;
+  title: string | null;
+  alt: string;
+}
+
+export type MdastFlowContent =
+  | MdastHeading
+  | MdastParagraph
+  | MdastBlockquote
+  | MdastList
+  | MdastCode
+  | MdastMath
+  | MdastThematicBreak
+  | MdastTable
+  | MdastFootnoteDefinition;
+
+export type MdastPhrasingContent =
+  | MdastText
+  | MdastEmphasis
+  | MdastStrong
+  | MdastDelete
+  | MdastInlineCode
+  | MdastInlineMath
+  | MdastFootnoteReference
+  | MdastBreak
+  | MdastLink
+  | MdastImage;
+
+export type MdastNode =
+  | MdastRoot
+  | MdastFlowContent
+  | MdastListItem
+  | MdastTableRow
+  | MdastTableCell
+  | MdastPhrasingContent;
+
+/**
+ * A syntax tree and the DOM node each of its nodes was built from
+ */
+export interface MarkdownTree {
+  root: MdastRoot;
+  sourceOf(node: MdastNode): Node | null;
+}
+
+/**
+ * How the converter reads code, math, callouts and footnotes, so the tree
+ * says what the Markdown says. Without them <pre> blocks are read as
+ * plain text and the rest as ordinary elements
+ */
+export interface AstBuildOptions {
+  // Code of a <pre> block or a highlighter's code table; null otherwise
+  getCode?: (
+    element: HTMLElement
+  ) => { lang: string | null; value: string } | null;
+  // TeX of a math element ('' to leave it out); null otherwise
+  getMath?: (element: Element) => { value: string; display: boolean } | null;
+  // Parts of a note/warning box; null otherwise
+  getCallout?: (element: Element) => Callout | null;
+  // Footnote definition an in-page link points to; null otherwise
+  getFootnoteDefinition?: (link: Element) => Element | null;
+  // Definitions an element holds, which go at the end; null otherwise
+  getFootnoteDefinitions?: (element: Element) => Element[] | null;
+  // Copy of a definition without its back links
+  getFootnoteContent?: (definition: Element) => HTMLElement;
+}
+
+interface BuildContext {
+  sources: WeakMap<MdastNode, Node>;
+  options: AstBuildOptions;
+  // Footnote definitions in label order
+  footnotes: Map<Element, number>;
+}
+
+// Elements that start a new block rather than continuing a paragraph
+const BLOCK_ELEMENTS = [
+  'ADDRESS',
+  'ARTICLE',
+  'ASIDE',
+  'BLOCKQUOTE',
+  'BODY',
+  'DD',
+  'DETAILS',
+  'DIV',
+  'DL',
+  'DT',
+  'FIELDSET',
+  'FIGCAPTION',
+  'FIGURE',
+  'FOOTER',
+  'FORM',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'H5',
+  'H6',
+  'HEADER',
+  'HR',
+  'LI',
+  'MAIN',
+  'NAV',
+  'OL',
+  'P',
+  'PRE',
+  'SECTION',
+  'SUMMARY',
+  'TABLE',
+  'UL',
+];
+
+// Elements with no Markdown content
+const SKIPPED_ELEMENTS = [
+  'SCRIPT',
+  'STYLE',
+  'NOSCRIPT',
+  'TEMPLATE',
+  'BUTTON',
+  'INPUT',
+  'SELECT',
+  'TEXTAREA',
+];
+
+/**
+ * Build an mdast syntax tree from the same DOM the converter turns into
+ * Markdown, so other modules can walk headings, links and code blocks
+ * without re-parsing the output
+ */
+class MarkdownAstBuilder {
+  /**
+   * Build the tree for the contents of a root element
+   */
+  public build(root: Element, options: AstBuildOptions = {}): MarkdownTree {
+    const sources = new WeakMap<MdastNode, Node>();
+    const context = { sources, options, footnotes: new Map<Element, number>() };
+
+    const tree: MdastRoot = {
+      type: 'root',
+      children: this.flow(Array.from(root.childNodes), root, context),
+    };
+    sources.set(tree, root);
+
+    // Definitions follow the content, as in the Markdown; ones referenced
+    // from inside a definition are added to the map while it is walked
+    context.footnotes.forEach((label, definition) => {
+      const content = options.getFootnoteContent
+        ? options.getFootnoteContent(definition)
+        : definition;
+      const node: MdastFootnoteDefinition = {
+        type: 'footnoteDefinition',
+        identifier: String(label),
+        label: String(label),
+        children: this.flow(Array.from(content.childNodes), content, context),
+      };
+      sources.set(node, definition);
+      tree.children.push(node);
+    });
+
+    return {
+      root: tree,
+      sourceOf: (node) => sources.get(node) || null,
+    };
+  }
+
+  /**
+   * Collect every node of a type below (and including) a node, in
+   * document order
+   */
+  public findAll<T extends MdastNode>(node: MdastNode, type: T['type']): T[] {
+    const matches: T[] = [];
+    const walk = (current: MdastNode) => {
+      if (current.type === type) matches.push(current as T);
+      if ('children' in current) {
+        (current.children as MdastNode[]).forEach(walk);
+      }
+    };
+    walk(node);
+    return matches;
+  }
+
+  /**
+   * Get the plain text of a node, e.g. a heading's title
+   */
+  public toText(node: MdastNode): string {
+    if (
+      node.type === 'text' ||
+      node.type === 'inlineCode' ||
+      node.type === 'inlineMath' ||
+      node.type === 'math'
+    ) {
+      return node.value;
+    }
+    if (node.type === 'image') return node.alt;
+    if (node.type === 'break') return '\n';
+    if ('children' in node) {
+      return (node.children as MdastNode[])
+        .map((child) => this.toText(child))
+        .join('');
+    }
+    return '';
+  }
+
+  /**
+   * Convert a run of sibling nodes to flow content, wrapping loose inline
+   * content in paragraphs
+   */
+  private flow(
+    nodes: Node[],
+    parent: Element,
+    context: BuildContext
+  ): MdastFlowContent[] {
+    const blocks: MdastFlowContent[] = [];
+    let inline: Node[] = [];
+
+    const flush = () => {
+      const children = this.trimPhrasing(this.phrasing(inline, context));
+      if (children.length > 0) {
+        const paragraph: MdastParagraph = { type: 'paragraph', children };
+        context.sources.set(paragraph, inline[0].parentNode || parent);
+        blocks.push(paragraph);
+      }
+      inline = [];
+    };
+
+    nodes.forEach((node) => {
+      if (node.nodeType !== Node.ELEMENT_NODE) {
+        inline.push(node);
+      } else if (this.registerFootnotes(node as Element, context)) {
+        // Definitions are left out here and listed at the end
+      } else if (this.isBlock(node as Element, context)) {
+        flush();
+        blocks.push(...this.block(node as HTMLElement, context));
+      } else {
+        inline.push(node);
+      }
+    });
+    flush();
+
+    return blocks;
+  }
+
+  private block(
+    element: HTMLElement,
+    context: BuildContext
+  ): MdastFlowContent[] {
+    const children = Array.from(element.childNodes);
+    let node: MdastFlowContent | null = null;
+
+    const math = context.options.getMath?.(element);
+    const callout = context.options.getCallout?.(element);
+    const code = this.getCode(element, context);
+    if (math) {
+      if (!math.value) return [];
+      const inlineMath: MdastInlineMath = {
+        type: 'inlineMath',
+        value: math.value,
+      };
+      node = math.display
+        ? { type: 'math', meta: null, value: math.value }
+        : { type: 'paragraph', children: [inlineMath] };
+    } else if (callout) {
+      node = this.callout(callout, context);
+    } else if (code) {
+      node = code;
+    }
+    if (node || math || callout) {
+      if (node) context.sources.set(node, element);
+      return node ? [node] : [];
+    }
+
+    switch (element.nodeName) {
+      case 'H1':
+      case 'H2':
+      case 'H3':
+      case 'H4':
+      case 'H5':
+      case 'H6':
+        node = {
+          type: 'heading',
+          depth: Number(element.nodeName.charAt(1)) as MdastHeading['depth'],
+          children: this.trimPhrasing(this.phrasing(children, context)),
+        };
+        break;
+      case 'P': {
+        // Display math breaks a paragraph in two
+        if (children.some((child) => this.isBlock(child, context))) {
+          return this.flow(children, element, context);
+        }
+        const phrasing = this.trimPhrasing(this.phrasing(children, context));
+        if (phrasing.length === 0) return [];
+        node = { type: 'paragraph', children: phrasing };
+        break;
+      }
+      case 'BLOCKQUOTE':
+        node = {
+          type: 'blockquote',
+          children: this.flow(children, element, context),
+        };
+        break;
+      case 'UL':
+      case 'OL':
+        node = this.list(element, context);
+        break;
+      case 'HR':
+        node = { type: 'thematicBreak' };
+        break;
+      case 'TABLE':
+        node = this.table(element as HTMLTableElement, context);
+        break;
+      default:
+        // Containers such as <div> and <section> only group their content
+        return this.flow(children, element, context);
+    }
+
+    if (node) context.sources.set(node, element);
+    return node ? [node] : [];
+  }
+
+  /**
+   * Get the code block for a <pre> or code table, or null for any other
+   * element
+   */
+  private getCode(
+    element: HTMLElement,
+    context: BuildContext
+  ): MdastCode | null {
+    const code = context.options.getCode
+      ? context.options.getCode(element)
+      : element.nodeName === 'PRE' && {
+          lang: codeLanguageDetector.detect(element) || null,
+          value: (element.textContent || '').replace(/\n$/, ''),
+        };
+    return code ? { type: 'code', meta: null, ...code } : null;
+  }
+
+  /**
+   * Build a note/warning box as a blockquote led by its title, if any
+   */
+  private callout(
+    { type, title, body }: Callout,
+    context: BuildContext
+  ): MdastBlockquote | null {
+    const children = this.flow(Array.from(body.childNodes), body, context);
+    if (title) {
+      children.unshift({
+        type: 'paragraph',
+        children: [
+          { type: 'strong', children: [{ type: 'text', value: title }] },
+        ],
+      });
+    }
+    if (children.length === 0) return null;
+
+    return { type: 'blockquote', data: { callout: { type, title } }, children };
+  }
+
+  /**
+   * Register the footnote definitions an element holds, returning whether
+   * it held any (and so is left out where it stands)
+   */
+  private registerFootnotes(element: Element, context: BuildContext): boolean {
+    const definitions = context.options.getFootnoteDefinitions?.(element);
+    if (!definitions) return false;
+
+    definitions.forEach((definition) =>
+      this.getFootnoteLabel(definition, context)
+    );
+    return true;
+  }
+
+  /**
+   * Build a reference to the footnote a link points to, or null for other
+   * links
+   */
+  private footnoteReference(
+    link: Element,
+    context: BuildContext
+  ): MdastFootnoteReference | null {
+    const definition = context.options.getFootnoteDefinition?.(link);
+    if (!definition) return null;
+
+    const label = String(this.getFootnoteLabel(definition, context));
+    return { type: 'footnoteReference', identifier: label, label };
+  }
+
+  private getFootnoteLabel(definition: Element, context: BuildContext): number {
+    let label = context.footnotes.get(definition);
+    if (label === undefined) {
+      label = context.footnotes.size + 1;
+      context.footnotes.set(definition, label);
+    }
+    return label;
+  }
+
+  private list(element: HTMLElement, context: BuildContext): MdastList | null {
+    const ordered = element.nodeName === 'OL';
+    const start = parseInt(element.getAttribute('start') || '1', 10) || 1;
+
+    const items = Array.from(element.children)
+      .filter(
+        (child) =>
+          child.nodeName === 'LI' && !this.registerFootnotes(child, context)
+      )
+      .map((item) => {
+        const checkbox = item.querySelector('input[type="checkbox"]');
+        const isTask = !!checkbox && checkbox.closest('li') === item;
+        const listItem: MdastListItem = {
+          type: 'listItem',
+          checked: isTask ? checkbox.hasAttribute('checked') : null,
+          spread: false,
+          children: this.flow(Array.from(item.childNodes), item, context),
+        };
+        context.sources.set(listItem, item);
+        return listItem;
+      });
+
+    if (items.length === 0) return null;
+
+    return {
+      type: 'list',
+      ordered,
+      start: ordered ? start : null,
+      spread: false,
+      children: items,
+    };
+  }
+
+  private table(table: HTMLTableElement, context: BuildContext): MdastTable {
+    const rows = Array.from(table.rows).map((row) => {
+      const tableRow: MdastTableRow = {
+        type: 'tableRow',
+        children: Array.from(row.cells).map((cell) => {
+          const tableCell: MdastTableCell = {
+            type: 'tableCell',
+            children: this.trimPhrasing(
+              this.phrasing(Array.from(cell.childNodes), context)
+            ),
+          };
+          context.sources.set(tableCell, cell);
+          return tableCell;
+        }),
+      };
+      context.sources.set(tableRow, row);
+      return tableRow;
+    });
+
+    const firstRow = table.rows[0];
+    const align = firstRow
+      ? Array.from(firstRow.cells).map((cell) => this.getAlignment(cell))
+      : [];
+
+    return { type: 'table', align, children: rows };
+  }
+
+  /**
+   * Convert nodes to phrasing content, merging adjacent text
+   */
+  private phrasing(
+    nodes: Node[],
+    context: BuildContext
+  ): MdastPhrasingContent[] {
+    const result: MdastPhrasingContent[] = [];
+
+    const push = (node: MdastPhrasingContent) => {
+      const previous = result[result.length - 1];
+      if (node.type === 'text' && previous?.type === 'text') {
+        previous.value += node.value;
+      } else {
+        result.push(node);
+      }
+    };
+
+    nodes.forEach((node) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        const value = (node.textContent || '').replace(/\s+/g, ' ');
+        if (value) {
+          const text: MdastText = { type: 'text', value };
+          context.sources.set(text, node);
+          push(text);
+        }
+        return;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+      const element = node as HTMLElement;
+      if (this.registerFootnotes(element, context)) return;
+
+      const math = context.options.getMath?.(element);
+      if (math) {
+        if (math.value) push({ type: 'inlineMath', value: math.value });
+        return;
+      }
+      if (SKIPPED_ELEMENTS.includes(element.nodeName)) return;
+
+      const converted = this.inline(element, context);
+      converted.forEach((child) => {
+        if (!context.sources.has(child)) context.sources.set(child, element);
+        push(child);
+      });
+    });
+
+    return result;
+  }
+
+  private inline(
+    element: HTMLElement,
+    context: BuildContext
+  ): MdastPhrasingContent[] {
+    const children = () =>
+      this.phrasing(Array.from(element.childNodes), context);
+
+    switch (element.nodeName) {
+      case 'STRONG':
+      case 'B':
+        return [{ type: 'strong', children: children() }];
+      case 'EM':
+      case 'I':
+        return [{ type: 'emphasis', children: children() }];
+      case 'DEL':
+      case 'S':
+      case 'STRIKE':
+        return [{ type: 'delete', children: children() }];
+      case 'CODE':
+        return [{ type: 'inlineCode', value: element.textContent || '' }];
+      case 'BR':
+        return [{ type: 'break' }];
+      case 'IMG': {
+        const url = element.getAttribute('src') || '';
+        if (!url) return [];
+        return [
+          {
+            type: 'image',
+            url,
+            title: element.getAttribute('title') || null,
+            alt: element.getAttribute('alt') || '',
+          },
+        ];
+      }
+      case 'SUP': {
+        // <sup><a href="#fn1">1</a></sup> is one reference, brackets and all
+        const links = element.querySelectorAll('a');
+        const reference =
+          links.length === 1 && this.footnoteReference(links[0], context);
+        return reference ? [reference] : children();
+      }
+      case 'A': {
+        const reference =
+          element.parentElement?.nodeName !== 'SUP' &&
+          this.footnoteReference(element, context);
+        if (reference) return [reference];
+
+        const url = element.getAttribute('href') || '';
+        if (!url) return children();
+        return [
+          {
+            type: 'link',
+            url,
+            title: element.getAttribute('title') || null,
+            children: children(),
+          },
+        ];
+      }
+      default:
+        // Other inline elements (<span>, <mark>...) keep only their content
+        return children();
+    }
+  }
+
+  /**
+   * Drop leading and trailing whitespace from a run of phrasing content
+   */
+  private trimPhrasing(nodes: MdastPhrasingContent[]): MdastPhrasingContent[] {
+    const result = [...nodes];
+    const first = result[0];
+    if (first?.type === 'text') first.value = first.value.replace(/^\s+/, '');
+    const last = result[result.length - 1];
+    if (last?.type === 'text') last.value = last.value.replace(/\s+$/, '');
+    return result.filter((node) => node.type !== 'text' || node.value);
+  }
+
+  private getAlignment(cell: HTMLTableCellElement): MdastAlign {
+    const styleAlign = (cell.getAttribute('style') || '').match(
+      /text-align\s*:\s*(left|center|right)/i
+    )?.[1];
+    const alignment = (styleAlign || cell.getAttribute('align') || '')
+      .toLowerCase()
+      .trim();
+
+    return ['left', 'center', 'right'].includes(alignment)
+      ? (alignment as MdastAlign)
+      : null;
+  }
+
+  private isBlock(node: Node, context: BuildContext): boolean {
+    if (node.nodeType !== Node.ELEMENT_NODE) return false;
+    return (
+      BLOCK_ELEMENTS.includes(node.nodeName) ||
+      !!context.options.getMath?.(node as Element)?.display
+    );
+  }
+}
+
+// Export singleton instance and class
+export const markdownAstBuilder = new MarkdownAstBuilder();
+export default MarkdownAstBuilder;
@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import MarkdownRenderer, { markdownRenderer } from './markdown-renderer';
+
+describe('MarkdownRenderer', () => {
+  let renderer: MarkdownRenderer;
+
+  beforeEach(() => {
+    renderer = new MarkdownRenderer();
+  });
+
+  describe('render', () => {
+    it('should render ATX and setext headings', () => {
+      expect(renderer.render('## Title ##\n\nOther\n=====')).toBe(
+        '<h2>Title</h2>\n<h1>Other</h1>'
+      );
+    });
+
+    it('should render paragraphs with hard line breaks', () => {
+      expect(renderer.render('One  \ntwo\\\nthree\nfour')).toBe(
+        '<p>One<br>\ntwo<br>\nthree\nfour</p>'
+      );
+    });
+
+    it('should render fenced code with its language', () => {
+      expect(renderer.render('```ts\nconst a = "<b>";\n```')).toBe(
+        '<pre><code class="language-ts">const a = "&lt;b&gt;";</code></pre>'
+      );
+    });
+
+    it('should render tight and loose lists', () => {
+      expect(renderer.render('-   one\n-   two\n    -   nested')).toBe(
+        '<ul>\n<li>one</li>\n<li>two\n<ul>\n<li>nested</li>\n</ul></li>\n</ul>'
+      );
+      expect(renderer.render('3.  a\n\n4.  b')).toBe(
+        '<ol start="3">\n<li><p>a</p></li>\n<li><p>b</p></li>\n</ol>'
+      );
+    });
+
+    it('should render task list checkboxes as characters', () => {
+      expect(renderer.render('- [ ] todo\n- [x] done')).toBe(
+        '<ul>\n<li>☐ todo</li>\n<li>☑ done</li>\n</ul>'
+      );
+    });
+
+    it('should render blockquotes and alerts', () => {
+      expect(renderer.render('> [!TIP]\n> Read *this*')).toBe(
+        '<blockquote>\n<p><strong>Tip</strong></p>\n<p>Read <em>this</em></p>\n</blockquote>'
+      );
+    });
+
+    it('should render tables with alignment and inline borders', () => {
+      const html = renderer.render('| A | B |\n| :-: | --- |\n| 1 \\| 2 | x |');
+      expect(html).toContain('<table style="border-collapse: collapse">');
+      expect(html).toContain('text-align: center">A</th>');
+      expect(html).toContain('padding: 6px 12px">x</td>');
+      expect(html).toContain('>1 | 2</td>');
+    });
+
+    it('should resolve reference links and drop their definitions', () => {
+      expect(
+        renderer.render('See [the docs][docs].\n\n[docs]: https://a.com "Docs"')
+      ).toBe('<p>See <a href="https://a.com" title="Docs">the docs</a>.</p>');
+    });
+
+    it('should escape raw HTML instead of passing it through', () => {
+      expect(renderer.render('<script>alert(1)</script>')).toBe(
+        '<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>'
+      );
+    });
+  });
+
+  describe('renderInline', () => {
+    it('should render emphasis, strikethrough and code', () => {
+      expect(
+        renderer.renderInline('***a*** **b** __c__ *d* _e_ ~~f~~ `*g*`')
+      ).toBe(
+        '<strong><em>a</em></strong> <strong>b</strong> <strong>c</strong> <em>d</em> <em>e</em> <del>f</del> <code>*g*</code>'
+      );
+    });
+
+    it('should leave underscores inside words alone', () => {
+      expect(renderer.renderInline('snake_case_name')).toBe('snake_case_name');
+    });
+
+    it('should render links, images and linked thumbnails', () => {
+      expect(
+        renderer.renderInline('[![Video](https://i.com/t.jpg)](https://v.com)')
+      ).toBe(
+        '<a href="https://v.com"><img src="https://i.com/t.jpg" alt="Video"></a>'
+      );
+      expect(renderer.renderInline('[a](https://w.org/A_(b))')).toBe(
+        '<a href="https://w.org/A_(b)">a</a>'
+      );
+    });
+
+    it('should render autolinks without emphasis in the URL', () => {
+      expect(renderer.renderInline('<https://a.com/x_y_z>')).toBe(
+        '<a href="https://a.com/x_y_z">https://a.com/x_y_z</a>'
+      );
+    });
+
+    it('should keep only the text of links with unsafe URLs', () => {
+      expect(renderer.renderInline('[click](javascript:alert(1))')).toBe(
+        'click'
+      );
+      expect(renderer.renderInline('![pic](vbscript:x)')).toBe('pic');
+    });
+
+    it('should honour backslash escapes', () => {
+      expect(renderer.renderInline('\\*not em\\* \\<b\\>')).toBe(
+        '*not em* &lt;b&gt;'
+      );
+    });
+  });
+
+  describe('sanitizeUrl', () => {
+    it('should allow web, mail and relative URLs', () => {
+      expect(renderer.sanitizeUrl('https://a.com')).toBe('https://a.com');
+      expect(renderer.sanitizeUrl('mailto:a@b.com')).toBe('mailto:a@b.com');
+      expect(renderer.sanitizeUrl('/docs#intro')).toBe('/docs#intro');
+    });
+
+    it('should reject script URLs however they are written', () => {
+      expect(renderer.sanitizeUrl('\tjavascript:alert(1)')).toBeNull();
+      expect(renderer.sanitizeUrl(' JavaScript:alert(1)')).toBeNull();
+      expect(renderer.sanitizeUrl('\u0001javascript:alert(1)')).toBeNull();
+      expect(renderer.sanitizeUrl('data:text/html,<b>')).toBeNull();
+    });
+
+    it('should allow inline image data only for images', () => {
+      const uri = 'data:image/png;base64,AAAA';
+      expect(renderer.sanitizeUrl(uri, true)).toBe(uri);
+      expect(renderer.sanitizeUrl(uri)).toBeNull();
+    });
+  });
+
+  describe('escapeHtml', () => {
+    it('should escape markup but keep character references', () => {
+      expect(renderer.escapeHtml('<a> & &amp; &#169;')).toBe(
+        '&lt;a&gt; &amp; &amp; &#169;'
+      );
+    });
+  });
+
+  describe('Singleton instance', () => {
+    it('should export a singleton instance', () => {
+      expect(markdownRenderer).toBeInstanceOf(MarkdownRenderer);
+    });
+  });
+});
@@ -0,0 +1,555 @@
+// Markdown to HTML rendering for Chrome Markdownify extension
+
+interface LinkDefinition {
+  url: string;
+  title: string;
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,}|\$\$)\s*([^\s`]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)\s*$/;
+const THEMATIC_BREAK = /^ {0,3}(?:(?:-\s*){3,}|(?:\*\s*){3,}|(?:_\s*){3,})$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])( +|$)/;
+const TASK = /^\[([ xX])\]\s+/;
+const TABLE_DELIMITER = /^ {0,3}\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const INDENTED_CODE = /^(?: {4}|\t)/;
+const DEFINITION =
+  /^ {0,3}\[([^\]^][^\]]*)\]:\s*<?([^\s>]+)>?(?:\s+["'(](.*)["')])?\s*$/;
+const INLINE_TARGET =
+  /\[((?:[^[\]]|\[[^\]]*\])*)\]\(\s*<?((?:[^\s()<>]|\([^\s()]*\))*)>?(?:\s+["'(]([^"')]*)["')])?\s*\)/;
+const REFERENCE_TARGET = /\[((?:[^[\]]|\[[^\]]*\])*)\]\[([^\]]*)\]/;
+const ALERT = /^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\]\s*$/i;
+
+// Link targets that are safe to paste into another document
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+const IMAGE_DATA_URI = /^data:image\/(?:png|gif|jpe?g|webp)[;,]/i;
+
+// Editors drop stylesheets on paste, so table borders are inlined
+const CELL_STYLE = 'border: 1px solid #d0d7de; padding: 6px 12px';
+
+// Marks text already rendered to HTML while the rest of a line is formatted
+const PLACEHOLDER = /\uE000(\d+)\uE000/g;
+
+/**
+ * Render Markdown to HTML for pasting into rich-text editors (Gmail, Google
+ * Docs, Confluence). Raw HTML in the source is escaped rather than passed
+ * through, and only web, mail and phone links survive, so the output is
+ * safe to put on the clipboard
+ */
+class MarkdownRenderer {
+  private definitions = new Map<string, LinkDefinition>();
+
+  /**
+   * Render a Markdown document to an HTML fragment
+   */
+  public render(markdown: string): string {
+    const lines = this.takeDefinitions(
+      markdown.replace(/\r\n?/g, '\n').split('\n')
+    );
+    try {
+      return this.renderBlocks(lines).join('\n');
+    } finally {
+      this.definitions = new Map();
+    }
+  }
+
+  /**
+   * Render the inline Markdown of one block: code, links, images, emphasis
+   * and hard line breaks
+   */
+  public renderInline(text: string): string {
+    const tokens: string[] = [];
+    const keep = (html: string) => `\uE000${tokens.push(html) - 1}\uE000`;
+
+    let result = text
+      .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_match, _ticks, code: string) =>
+        keep(
+          `<code>${this.escapeHtml(
+            code.replace(/\n/g, ' ').replace(/^ (.+) $/, '$1')
+          )}</code>`
+        )
+      )
+      .replace(/(?: {2,}|\\)\n/g, () => keep('<br>\n'))
+      .replace(/\\([!-/:-@[-`{-~])/g, (_match, character: string) =>
+        keep(this.escapeHtml(character))
+      )
+      .replace(/<((?:https?|mailto):[^\s<>]+)>/gi, (match, url: string) =>
+        keep(
+          this.renderLink(url, this.escapeHtml(url)) ?? this.escapeHtml(match)
+        )
+      )
+      .replace(/\[\^([^\]]+)\]/g, (_match, label: string) =>
+        keep(`<sup>${this.escapeHtml(label)}</sup>`)
+      );
+
+    // Images first, so linked thumbnails render inside their links
+    [true, false].forEach((isImage) => {
+      const prefix = isImage ? '!' : '';
+      result = result
+        .replace(
+          new RegExp(`${prefix}${INLINE_TARGET.source}`, 'g'),
+          (_match, label: string, url: string, title = '') =>
+            keep(this.renderTarget(isImage, label, url, title))
+        )
+        .replace(
+          new RegExp(`${prefix}${REFERENCE_TARGET.source}`, 'g'),
+          (match, label: string, reference: string) => {
+            const definition = this.definitions.get(
+              this.normalizeLabel(reference || label)
+            );
+            return definition
+              ? keep(
+                  this.renderTarget(
+                    isImage,
+                    label,
+                    definition.url,
+                    definition.title
+                  )
+                )
+              : match;
+          }
+        );
+    });
+
+    const restore = (html: string): string =>
+      html.replace(PLACEHOLDER, (_match, index: string) =>
+        restore(tokens[Number(index)])
+      );
+    return restore(this.formatText(result));
+  }
+
+  /**
+   * Return a URL if it is safe to link to, or null for script and other
+   * unsafe schemes. Images may also use inline image data
+   */
+  public sanitizeUrl(url: string, isImage: boolean = false): string | null {
+    const trimmed = url.trim();
+    if (isImage && IMAGE_DATA_URI.test(trimmed)) return trimmed;
+
+    // Parse the way the browser will, so obfuscated schemes are caught;
+    // relative URLs resolve against a placeholder web origin
+    try {
+      const { protocol } = new URL(trimmed, 'https://relative.invalid/');
+      return SAFE_PROTOCOLS.includes(protocol) ? trimmed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Escape text for HTML, leaving existing character references intact
+   */
+  public escapeHtml(text: string): string {
+    return text
+      .replace(/&(?!#?\w+;)/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  private escapeAttribute(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/"/g, '&quot;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  /**
+   * Remember reference link definitions and drop their lines
+   */
+  private takeDefinitions(lines: string[]): string[] {
+    let inFence = false;
+
+    return lines.filter((line) => {
+      if (FENCE.test(line)) inFence = !inFence;
+      const match = !inFence && line.match(DEFINITION);
+      if (!match) return true;
+
+      const label = this.normalizeLabel(match[1]);
+      if (!this.definitions.has(label)) {
+        this.definitions.set(label, { url: match[2], title: match[3] || '' });
+      }
+      return false;
+    });
+  }
+
+  private normalizeLabel(label: string): string {
+    return label.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  private renderBlocks(lines: string[]): string[] {
+    const output: string[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+      index = this.renderBlock(lines, index, output);
+    }
+
+    return output;
+  }
+
+  /**
+   * Render the block starting at a line to the output, returning the index
+   * of the line after it
+   */
+  private renderBlock(
+    lines: string[],
+    start: number,
+    output: string[]
+  ): number {
+    const line = lines[start];
+    if (!line.trim()) return start + 1;
+
+    const fence = line.match(FENCE);
+    if (fence) return this.renderFence(lines, start, fence, output);
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      output.push(
+        `<h${level}>${this.renderInline(heading[2] || '')}</h${level}>`
+      );
+      return start + 1;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      output.push('<hr>');
+      return start + 1;
+    }
+
+    if (BLOCKQUOTE.test(line))
+      return this.renderBlockquote(lines, start, output);
+    if (LIST_ITEM.test(line)) return this.renderList(lines, start, output);
+    if (this.startsTable(lines, start)) {
+      return this.renderTable(lines, start, output);
+    }
+
+    if (INDENTED_CODE.test(line)) {
+      let index = start;
+      const code: string[] = [];
+      while (
+        index < lines.length &&
+        (INDENTED_CODE.test(lines[index]) || !lines[index].trim())
+      ) {
+        code.push(lines[index].replace(INDENTED_CODE, ''));
+        index++;
+      }
+      while (code.length && !code[code.length - 1].trim()) code.pop();
+      output.push(
+        `<pre><code>${this.escapeHtml(code.join('\n'))}</code></pre>`
+      );
+      return start + code.length;
+    }
+
+    return this.renderParagraph(lines, start, output);
+  }
+
+  private renderFence(
+    lines: string[],
+    start: number,
+    [opening, fence, language]: RegExpMatchArray,
+    output: string[]
+  ): number {
+    const indent = opening.match(/^ */)?.[0].length || 0;
+    const code: string[] = [];
+    let index = start + 1;
+
+    // A one-line $$...$$ block has no body to collect
+    const rest = lines[start].trim().slice(fence.length);
+    if (fence === '$$' && rest.endsWith('$$')) {
+      code.push(rest.slice(0, -2).trim());
+    } else {
+      while (
+        index < lines.length &&
+        !lines[index]
+          .trim()
+          .match(/^(`{3,}|~{3,}|\$\$)\s*$/)?.[1]
+          .startsWith(fence)
+      ) {
+        code.push(lines[index].replace(new RegExp(`^ {0,${indent}}`), ''));
+        index++;
+      }
+      index++;
+    }
+
+    const type = fence === '$$' ? 'math' : language;
+    const attribute = type
+      ? ` class="language-${this.escapeAttribute(type)}"`
+      : '';
+    output.push(
+      `<pre><code${attribute}>${this.escapeHtml(code.join('\n'))}</code></pre>`
+    );
+    return index;
+  }
+
+  private renderBlockquote(
+    lines: string[],
+    start: number,
+    output: string[]
+  ): number {
+    const quoted: string[] = [];
+    let index = start;
+    while (index < lines.length && BLOCKQUOTE.test(lines[index])) {
+      quoted.push(lines[index].replace(BLOCKQUOTE, ''));
+      index++;
+    }
+
+    // GitHub alerts get their type as a bold first line
+    const alert = quoted[0].match(ALERT)?.[1];
+    const body = this.renderBlocks(alert ? quoted.slice(1) : quoted);
+    if (alert) {
+      const label =
+        alert.charAt(0).toUpperCase() + alert.slice(1).toLowerCase();
+      body.unshift(`<p><strong>${label}</strong></p>`);
+    }
+
+    output.push(`<blockquote>\n${body.join('\n')}\n</blockquote>`);
+    return index;
+  }
+
+  private renderList(lines: string[], start: number, output: string[]): number {
+    const first = lines[start].match(LIST_ITEM) as RegExpMatchArray;
+    const ordered = /\d/.test(first[2]);
+    const items: string[][] = [];
+    let loose = false;
+    let index = start;
+
+    while (index < lines.length) {
+      const match = lines[index].match(LIST_ITEM);
+      if (!match || /\d/.test(match[2]) !== ordered) break;
+
+      // Item content lines up with the first character after the marker
+      const spacing = match[3].length > 4 ? 1 : match[3].length || 1;
+      const contentIndent = match[1].length + match[2].length + spacing;
+      const item = [lines[index].slice(match[0].length)];
+      index++;
+
+      while (index < lines.length) {
+        const next = lines[index];
+        const indent = next.match(/^ */)?.[0].length || 0;
+        if (!next.trim()) {
+          const following = lines.slice(index).find((rest) => rest.trim());
+          if (!following || !following.startsWith(' '.repeat(contentIndent))) {
+            break;
+          }
+          item.push('');
+        } else if (indent >= contentIndent) {
+          item.push(next.slice(contentIndent));
+        } else if (item[item.length - 1].trim() && !this.startsBlock(next)) {
+          // Lazy continuation of the item's paragraph
+          item.push(next.trim());
+        } else {
+          break;
+        }
+        index++;
+      }
+      items.push(item);
+
+      // Blank lines between items make the list loose
+      let next = index;
+      while (next < lines.length && !lines[next].trim()) next++;
+      const sibling = lines[next]?.match(LIST_ITEM);
+      if (next > index && sibling && /\d/.test(sibling[2]) === ordered) {
+        loose = true;
+        index = next;
+      }
+      if (item.slice(1).includes('')) loose = true;
+    }
+
+    const tag = ordered ? 'ol' : 'ul';
+    const startNumber = ordered ? parseInt(first[2], 10) : 1;
+    const opening =
+      startNumber !== 1 ? `<${tag} start="${startNumber}">` : `<${tag}>`;
+    output.push(
+      [
+        opening,
+        ...items.map((item) => this.renderListItem(item, loose)),
+        `</${tag}>`,
+      ].join('\n')
+    );
+    return index;
+  }
+
+  private renderListItem(item: string[], loose: boolean): string {
+    // Task checkboxes become characters, which every editor keeps
+    const task = item[0].match(TASK);
+    const lines = task
+      ? [`${task[1] === ' ' ? '☐' : '☑'} ${item[0].slice(task[0].length)}`]
+      : [item[0]];
+    const blocks = this.renderBlocks([...lines, ...item.slice(1)]);
+    const content = loose
+      ? blocks
+      : blocks.map((block) => block.replace(/^<p>([\s\S]*)<\/p>$/, '$1'));
+
+    return `<li>${content.join('\n')}</li>`;
+  }
+
+  private startsTable(lines: string[], start: number): boolean {
+    const delimiter = lines[start + 1];
+    return (
+      lines[start].includes('|') &&
+      !!delimiter &&
+      delimiter.includes('|') &&
+      TABLE_DELIMITER.test(delimiter)
+    );
+  }
+
+  private renderTable(
+    lines: string[],
+    start: number,
+    output: string[]
+  ): number {
+    const alignments = this.splitRow(lines[start + 1]).map((cell) => {
+      if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+      if (cell.endsWith(':')) return 'right';
+      if (cell.startsWith(':')) return 'left';
+      return '';
+    });
+    const renderRow = (line: string, tag: 'th' | 'td') =>
+      `<tr>${alignments
+        .map((alignment, column) => {
+          const style = alignment
+            ? `${CELL_STYLE}; text-align: ${alignment}`
+            : CELL_STYLE;
+          const cell = this.splitRow(line)[column] || '';
+          return `<${tag} style="${style}">${this.renderInline(cell)}</${tag}>`;
+        })
+        .join('')}</tr>`;
+
+    const rows: string[] = [];
+    let index = start + 2;
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      lines[index].includes('|')
+    ) {
+      rows.push(renderRow(lines[index], 'td'));
+      index++;
+    }
+
+    output.push(
+      [
+        '<table style="border-collapse: collapse">',
+        `<thead>${renderRow(lines[start], 'th')}</thead>`,
+        ...(rows.length ? [`<tbody>${rows.join('')}</tbody>`] : []),
+        '</table>',
+      ].join('\n')
+    );
+    return index;
+  }
+
+  private splitRow(line: string): string[] {
+    return line
+      .trim()
+      .replace(/^\|/, '')
+      .replace(/(?<!\\)\|$/, '')
+      .split(/(?<!\\)\|/)
+      .map((cell) => cell.trim());
+  }
+
+  private renderParagraph(
+    lines: string[],
+    start: number,
+    output: string[]
+  ): number {
+    const text = [lines[start].replace(/^\s+/, '')];
+    let index = start + 1;
+
+    while (index < lines.length && lines[index].trim()) {
+      // A paragraph underlined with = or - is a setext heading
+      const underline = lines[index].match(SETEXT_UNDERLINE)?.[1];
+      if (underline) {
+        const level = underline.startsWith('=') ? 1 : 2;
+        output.push(
+          `<h${level}>${this.renderInline(text.join('\n'))}</h${level}>`
+        );
+        return index + 1;
+      }
+      if (this.startsBlock(lines[index]) || this.startsTable(lines, index)) {
+        break;
+      }
+      text.push(lines[index].replace(/^\s+/, ''));
+      index++;
+    }
+
+    output.push(`<p>${this.renderInline(text.join('\n').trimEnd())}</p>`);
+    return index;
+  }
+
+  /**
+   * Whether a line interrupts the paragraph before it
+   */
+  private startsBlock(line: string): boolean {
+    return (
+      FENCE.test(line) ||
+      HEADING.test(line) ||
+      THEMATIC_BREAK.test(line) ||
+      BLOCKQUOTE.test(line) ||
+      LIST_ITEM.test(line)
+    );
+  }
+
+  /**
+   * Render a link or image, falling back to its text when the URL is unsafe
+   */
+  private renderTarget(
+    isImage: boolean,
+    label: string,
+    url: string,
+    title: string
+  ): string {
+    const titleAttribute = title
+      ? ` title="${this.escapeAttribute(title)}"`
+      : '';
+
+    if (isImage) {
+      const src = this.sanitizeUrl(url, true);
+      return src
+        ? `<img src="${this.escapeAttribute(src)}" alt="${this.escapeAttribute(
+            label.replace(PLACEHOLDER, '')
+          )}"${titleAttribute}>`
+        : this.escapeHtml(label);
+    }
+
+    const text = this.formatText(label);
+    return this.renderLink(url, text, titleAttribute) ?? text;
+  }
+
+  /**
+   * Wrap rendered link text in an anchor, or return null when the URL is
+   * unsafe
+   */
+  private renderLink(
+    url: string,
+    html: string,
+    titleAttribute: string = ''
+  ): string | null {
+    const href = this.sanitizeUrl(url);
+    if (href === null) return null;
+    return `<a href="${this.escapeAttribute(href)}"${titleAttribute}>${html}</a>`;
+  }
+
+  /**
+   * Escape plain text and apply emphasis, leaving placeholders in place
+   */
+  private formatText(text: string): string {
+    return this.escapeHtml(text)
+      .replace(
+        /\*\*\*(?=\S)([\s\S]*?\S)\*\*\*/g,
+        '<strong><em>$1</em></strong>'
+      )
+      .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+      .replace(
+        /(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g,
+        '$1<strong>$2</strong>'
+      )
+      .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+      .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+      .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+  }
+}
+
+// Export singleton instance and class
+export const markdownRenderer = new MarkdownRenderer();
+export default MarkdownRenderer;
@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import MathMLConverter, { mathmlConverter } from './mathml';
+
+function parseMath(markup: string): Element {
+  const container = document.createElement('div');
+  container.innerHTML = markup;
+  return container.querySelector('math') as Element;
+}
+
+describe('MathMLConverter', () => {
+  let converter: MathMLConverter;
+
+  beforeEach(() => {
+    converter = new MathMLConverter();
+  });
+
+  describe('toLatex', () => {
+    it('should convert identifiers, numbers and operators', () => {
+      const math = parseMath(
+        '<math><mi>x</mi><mo>+</mo><mn>2</mn><mo>≤</mo><mi>α</mi></math>'
+      );
+      expect(converter.toLatex(math)).toBe('x+2\\leq\\alpha');
+    });
+
+    it('should convert scripts and fractions', () => {
+      const math = parseMath(
+        '<math><msubsup><mi>x</mi><mi>i</mi><mn>2</mn></msubsup><mo>=</mo><mfrac><mrow><mi>a</mi><mo>+</mo><mi>b</mi></mrow><mn>2</mn></mfrac></math>'
+      );
+      expect(converter.toLatex(math)).toBe('x_i^2=\\frac{a+b}{2}');
+    });
+
+    it('should convert roots', () => {
+      const math = parseMath(
+        '<math><mroot><mi>x</mi><mn>3</mn></mroot><msqrt><mi>y</mi></msqrt></math>'
+      );
+      expect(converter.toLatex(math)).toBe('\\sqrt[3]{x}\\sqrt{y}');
+    });
+
+    it('should attach limits to large operators', () => {
+      const math = parseMath(
+        '<math><munderover><mo>∑</mo><mrow><mi>i</mi><mo>=</mo><mn>1</mn></mrow><mi>n</mi></munderover><msub><mi>a</mi><mi>i</mi></msub></math>'
+      );
+      expect(converter.toLatex(math)).toBe('\\sum_{i=1}^n a_i');
+    });
+
+    it('should convert accents and function names', () => {
+      const math = parseMath(
+        '<math><mover accent="true"><mi>v</mi><mo>→</mo></mover><mi>sin</mi><mi>θ</mi></math>'
+      );
+      expect(converter.toLatex(math)).toBe('\\vec{v}\\sin\\theta');
+    });
+
+    it('should convert matrices', () => {
+      const math = parseMath(
+        '<math><mtable><mtr><mtd><mn>1</mn></mtd><mtd><mn>0</mn></mtd></mtr><mtr><mtd><mn>0</mn></mtd><mtd><mn>1</mn></mtd></mtr></mtable></math>'
+      );
+      expect(converter.toLatex(math)).toBe(
+        '\\begin{matrix}1 & 0 \\\\ 0 & 1\\end{matrix}'
+      );
+    });
+
+    it('should ignore annotations inside semantics', () => {
+      const math = parseMath(
+        '<math><semantics><mi>x</mi><annotation encoding="application/x-tex">x</annotation></semantics></math>'
+      );
+      expect(converter.toLatex(math)).toBe('x');
+    });
+  });
+
+  describe('getTexAnnotation', () => {
+    it('should prefer the TeX annotation', () => {
+      const math = parseMath(
+        '<math alttext="ignored"><semantics><mi>x</mi><annotation encoding="application/x-tex">x^{2}</annotation></semantics></math>'
+      );
+      expect(converter.getTexAnnotation(math)).toBe('x^{2}');
+    });
+
+    it('should fall back to alttext', () => {
+      const math = parseMath('<math alttext="\\pi r^2"><mi>π</mi></math>');
+      expect(converter.getTexAnnotation(math)).toBe('\\pi r^2');
+    });
+
+    it('should return null without a TeX source', () => {
+      const math = parseMath('<math><mi>x</mi></math>');
+      expect(converter.getTexAnnotation(math)).toBeNull();
+    });
+  });
+
+  describe('isDisplayMath', () => {
+    it('should detect display="block"', () => {
+      expect(
+        converter.isDisplayMath(parseMath('<math display="block"></math>'))
+      ).toBe(true);
+      expect(converter.isDisplayMath(parseMath('<math></math>'))).toBe(false);
+    });
+  });
+
+  it('should export a working singleton instance', () => {
+    const math = parseMath('<math><mi>x</mi></math>');
+    expect(mathmlConverter.toLatex(math)).toBe('x');
+  });
+});
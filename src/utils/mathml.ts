@@ -0,0 +1,462 @@
+// MathML to LaTeX conversion for Chrome Markdownify extension
+
+// Unicode characters that have a dedicated LaTeX command
+const SYMBOLS: Record<string, string> = {
+  α: '\\alpha',
+  β: '\\beta',
+  γ: '\\gamma',
+  δ: '\\delta',
+  ε: '\\epsilon',
+  ϵ: '\\epsilon',
+  ζ: '\\zeta',
+  η: '\\eta',
+  θ: '\\theta',
+  ϑ: '\\vartheta',
+  ι: '\\iota',
+  κ: '\\kappa',
+  λ: '\\lambda',
+  μ: '\\mu',
+  ν: '\\nu',
+  ξ: '\\xi',
+  π: '\\pi',
+  ρ: '\\rho',
+  σ: '\\sigma',
+  ς: '\\varsigma',
+  τ: '\\tau',
+  υ: '\\upsilon',
+  φ: '\\phi',
+  ϕ: '\\phi',
+  χ: '\\chi',
+  ψ: '\\psi',
+  ω: '\\omega',
+  Γ: '\\Gamma',
+  Δ: '\\Delta',
+  Θ: '\\Theta',
+  Λ: '\\Lambda',
+  Ξ: '\\Xi',
+  Π: '\\Pi',
+  Σ: '\\Sigma',
+  Υ: '\\Upsilon',
+  Φ: '\\Phi',
+  Ψ: '\\Psi',
+  Ω: '\\Omega',
+  '∑': '\\sum',
+  '∏': '\\prod',
+  '∫': '\\int',
+  '∬': '\\iint',
+  '∮': '\\oint',
+  '∞': '\\infty',
+  '∂': '\\partial',
+  '∇': '\\nabla',
+  '±': '\\pm',
+  '∓': '\\mp',
+  '×': '\\times',
+  '÷': '\\div',
+  '·': '\\cdot',
+  '⋅': '\\cdot',
+  '∘': '\\circ',
+  '≤': '\\leq',
+  '≥': '\\geq',
+  '≠': '\\neq',
+  '≈': '\\approx',
+  '≡': '\\equiv',
+  '∼': '\\sim',
+  '≃': '\\simeq',
+  '∝': '\\propto',
+  '≪': '\\ll',
+  '≫': '\\gg',
+  '∈': '\\in',
+  '∉': '\\notin',
+  '∋': '\\ni',
+  '⊂': '\\subset',
+  '⊃': '\\supset',
+  '⊆': '\\subseteq',
+  '⊇': '\\supseteq',
+  '∪': '\\cup',
+  '∩': '\\cap',
+  '∅': '\\emptyset',
+  '∀': '\\forall',
+  '∃': '\\exists',
+  '¬': '\\neg',
+  '∧': '\\wedge',
+  '∨': '\\vee',
+  '→': '\\to',
+  '←': '\\leftarrow',
+  '↔': '\\leftrightarrow',
+  '⇒': '\\Rightarrow',
+  '⇐': '\\Leftarrow',
+  '⇔': '\\Leftrightarrow',
+  '↦': '\\mapsto',
+  '…': '\\ldots',
+  '⋯': '\\cdots',
+  '⋮': '\\vdots',
+  '⋱': '\\ddots',
+  '′': "'",
+  '″': "''",
+  '⟨': '\\langle',
+  '⟩': '\\rangle',
+  '⌊': '\\lfloor',
+  '⌋': '\\rfloor',
+  '⌈': '\\lceil',
+  '⌉': '\\rceil',
+  '‖': '\\|',
+  ℝ: '\\mathbb{R}',
+  ℕ: '\\mathbb{N}',
+  ℤ: '\\mathbb{Z}',
+  ℚ: '\\mathbb{Q}',
+  ℂ: '\\mathbb{C}',
+  ℓ: '\\ell',
+  ℏ: '\\hbar',
+  '\u2061': '', // function application
+  '\u2062': '', // invisible times
+  '\u2063': '', // invisible separator
+  '\u2064': '', // invisible plus
+};
+
+// Characters that must be escaped when they appear literally
+const ESCAPED_CHARACTERS: Record<string, string> = {
+  '{': '\\{',
+  '}': '\\}',
+  '%': '\\%',
+  '#': '\\#',
+  $: '\\$',
+  '&': '\\&',
+  _: '\\_',
+};
+
+// Multi-letter identifiers LaTeX knows as operators
+const FUNCTION_NAMES = [
+  'sin',
+  'cos',
+  'tan',
+  'cot',
+  'sec',
+  'csc',
+  'arcsin',
+  'arccos',
+  'arctan',
+  'sinh',
+  'cosh',
+  'tanh',
+  'log',
+  'ln',
+  'exp',
+  'lim',
+  'max',
+  'min',
+  'sup',
+  'inf',
+  'det',
+  'dim',
+  'ker',
+  'gcd',
+  'deg',
+  'arg',
+  'Pr',
+];
+
+// Accent characters used in <mover> and their LaTeX commands
+const ACCENTS: Record<string, string> = {
+  '^': '\\hat',
+  ˆ: '\\hat',
+  '¯': '\\bar',
+  '‾': '\\overline',
+  _: '\\underline',
+  '→': '\\vec',
+  '⃗': '\\vec',
+  '~': '\\tilde',
+  '˜': '\\tilde',
+  '˙': '\\dot',
+  '¨': '\\ddot',
+  '⏞': '\\overbrace',
+  '⏟': '\\underbrace',
+};
+
+// Large operators whose limits attach as sub/superscripts
+const LARGE_OPERATORS = ['\\sum', '\\prod', '\\int', '\\lim', '\\bigcup'];
+
+/**
+ * Convert MathML element trees into LaTeX source
+ */
+class MathMLConverter {
+  /**
+   * Convert a <math> element (or any MathML node) to LaTeX
+   */
+  public toLatex(node: Element): string {
+    return this.convertNode(node).replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Get the original TeX from a MathML annotation or alttext, if present
+   */
+  public getTexAnnotation(node: Element): string | null {
+    const annotation = Array.from(node.querySelectorAll('annotation')).find(
+      (el) => /^application\/x-tex$/i.test(el.getAttribute('encoding') || '')
+    );
+    const tex = annotation?.textContent?.trim();
+    if (tex) return tex;
+
+    const alttext = node.getAttribute('alttext')?.trim();
+    return alttext || null;
+  }
+
+  /**
+   * Check whether a <math> element is rendered as display (block) math
+   */
+  public isDisplayMath(node: Element): boolean {
+    return (
+      node.getAttribute('display') === 'block' ||
+      node.getAttribute('mode') === 'display'
+    );
+  }
+
+  private convertNode(node: Node): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return this.convertText(node.textContent || '');
+    }
+
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const element = node as Element;
+    const children = Array.from(element.children);
+    const name = element.localName.toLowerCase().replace(/^m:/, '');
+
+    switch (name) {
+      case 'math':
+      case 'mrow':
+      case 'mstyle':
+      case 'mpadded':
+      case 'merror':
+      case 'mtd':
+        return this.convertChildren(element);
+      case 'semantics':
+        // The first child is the presentation markup, the rest annotations
+        return children.length > 0 ? this.convertNode(children[0]) : '';
+      case 'annotation':
+      case 'annotation-xml':
+      case 'mphantom':
+      case 'none':
+        return '';
+      case 'mi':
+        return this.convertIdentifier(element);
+      case 'mn':
+        return element.textContent?.trim() || '';
+      case 'mo':
+        return this.convertOperator(element);
+      case 'mtext':
+      case 'ms':
+        return this.convertTextElement(element);
+      case 'mspace':
+        return '\\ ';
+      case 'msup':
+        return `${this.group(children[0])}^${this.group(children[1])}`;
+      case 'msub':
+        return `${this.group(children[0])}_${this.group(children[1])}`;
+      case 'msubsup':
+        return `${this.group(children[0])}_${this.group(children[1])}^${this.group(children[2])}`;
+      case 'mfrac':
+        return this.convertFraction(element, children);
+      case 'msqrt':
+        return `\\sqrt{${this.convertChildren(element)}}`;
+      case 'mroot':
+        return `\\sqrt[${this.convertNode(children[1])}]{${this.convertNode(children[0])}}`;
+      case 'mover':
+        return this.convertOver(element, children);
+      case 'munder':
+        return this.convertUnder(children);
+      case 'munderover':
+        return `${this.group(children[0])}_${this.group(children[1])}^${this.group(children[2])}`;
+      case 'mfenced':
+        return this.convertFenced(element, children);
+      case 'menclose':
+        return this.convertEnclose(element);
+      case 'mtable':
+        return this.convertTable(children);
+      case 'mtr':
+      case 'mlabeledtr':
+        return children.map((cell) => this.convertNode(cell)).join(' & ');
+      case 'mmultiscripts':
+        return this.convertMultiscripts(children);
+      default:
+        return this.convertChildren(element);
+    }
+  }
+
+  private convertChildren(element: Element): string {
+    return Array.from(element.childNodes)
+      .map((child) =>
+        // Whitespace between MathML elements carries no meaning
+        child.nodeType === Node.TEXT_NODE ? '' : this.convertNode(child)
+      )
+      .filter((part) => part !== '')
+      .reduce((latex, part) => {
+        // Keep commands and scripts from running into following letters
+        const separator =
+          /(\\[a-zA-Z]+|[_^][a-zA-Z0-9])$/.test(latex) &&
+          /^[a-zA-Z]/.test(part);
+        return `${latex}${separator ? ' ' : ''}${part}`;
+      }, '');
+  }
+
+  /**
+   * Wrap a converted node in braces unless it is a single character
+   */
+  private group(node?: Element): string {
+    if (!node) return '{}';
+
+    const latex = this.convertNode(node).trim();
+    if (/^[a-zA-Z0-9]$/.test(latex) || /^\\[a-zA-Z]+$/.test(latex)) {
+      return latex;
+    }
+    return `{${latex}}`;
+  }
+
+  private convertText(text: string): string {
+    return Array.from(text)
+      .map((char) => SYMBOLS[char] ?? ESCAPED_CHARACTERS[char] ?? char)
+      .join('');
+  }
+
+  private convertIdentifier(element: Element): string {
+    const text = element.textContent?.trim() || '';
+    if (FUNCTION_NAMES.includes(text)) return `\\${text}`;
+
+    const converted = this.convertText(text);
+    if (text.length > 1 && /^[a-zA-Z]+$/.test(text)) {
+      return `\\mathrm{${text}}`;
+    }
+
+    const variant = element.getAttribute('mathvariant');
+    if (variant === 'bold') return `\\mathbf{${converted}}`;
+    if (variant === 'double-struck') return `\\mathbb{${converted}}`;
+    if (variant === 'script') return `\\mathcal{${converted}}`;
+    if (variant === 'fraktur') return `\\mathfrak{${converted}}`;
+
+    return converted;
+  }
+
+  private convertOperator(element: Element): string {
+    const text = element.textContent?.trim() || '';
+    if (FUNCTION_NAMES.includes(text)) return `\\${text}`;
+
+    return this.convertText(text);
+  }
+
+  private convertTextElement(element: Element): string {
+    const text = element.textContent || '';
+    if (!text.trim()) return '\\ ';
+    return `\\text{${text.replace(/[{}]/g, (char) => `\\${char}`)}}`;
+  }
+
+  private convertFraction(element: Element, children: Element[]): string {
+    const numerator = this.convertNode(children[0]);
+    const denominator = this.convertNode(children[1]);
+
+    if (element.getAttribute('linethickness') === '0') {
+      return `{${numerator} \\atop ${denominator}}`;
+    }
+    return `\\frac{${numerator}}{${denominator}}`;
+  }
+
+  private convertOver(element: Element, children: Element[]): string {
+    const base = this.convertNode(children[0]);
+    const over = children[1]?.textContent?.trim() || '';
+    const accent = ACCENTS[over];
+
+    if (
+      accent &&
+      (element.getAttribute('accent') !== 'false' || over.length === 1)
+    ) {
+      return `${accent}{${base}}`;
+    }
+
+    if (LARGE_OPERATORS.includes(base)) {
+      return `${base}^${this.group(children[1])}`;
+    }
+
+    return `\\overset{${this.convertNode(children[1])}}{${base}}`;
+  }
+
+  private convertUnder(children: Element[]): string {
+    const base = this.convertNode(children[0]);
+    const under = children[1]?.textContent?.trim() || '';
+
+    if (under === '_' || under === '‾') return `\\underline{${base}}`;
+    if (under === '⏟') return `\\underbrace{${base}}`;
+
+    if (
+      LARGE_OPERATORS.includes(base) ||
+      FUNCTION_NAMES.includes(base.slice(1))
+    ) {
+      return `${base}_${this.group(children[1])}`;
+    }
+
+    return `\\underset{${this.convertNode(children[1])}}{${base}}`;
+  }
+
+  private convertFenced(element: Element, children: Element[]): string {
+    const open = this.convertText(element.getAttribute('open') ?? '(');
+    const close = this.convertText(element.getAttribute('close') ?? ')');
+    const separators = (element.getAttribute('separators') ?? ',').replace(
+      /\s/g,
+      ''
+    );
+
+    const inner = children
+      .map((child, index) => {
+        const separator =
+          index < children.length - 1
+            ? separators[Math.min(index, separators.length - 1)] || ''
+            : '';
+        return `${this.convertNode(child)}${separator}`;
+      })
+      .join(' ');
+
+    return `\\left${open || '.'}${inner}\\right${close || '.'}`;
+  }
+
+  private convertEnclose(element: Element): string {
+    const content = this.convertChildren(element);
+    const notation = element.getAttribute('notation') || 'longdiv';
+
+    if (notation.includes('box') || notation.includes('roundedbox')) {
+      return `\\boxed{${content}}`;
+    }
+    if (notation.includes('updiagonalstrike')) return `\\cancel{${content}}`;
+    return content;
+  }
+
+  private convertTable(rows: Element[]): string {
+    const body = rows.map((row) => this.convertNode(row)).join(' \\\\ ');
+    return `\\begin{matrix}${body}\\end{matrix}`;
+  }
+
+  private convertMultiscripts(children: Element[]): string {
+    const [base, ...rest] = children;
+    const prescriptsIndex = rest.findIndex(
+      (child) => child.localName === 'mprescripts'
+    );
+    const post = prescriptsIndex === -1 ? rest : rest.slice(0, prescriptsIndex);
+    const pre = prescriptsIndex === -1 ? [] : rest.slice(prescriptsIndex + 1);
+
+    const scripts = (pairs: Element[]) => {
+      let latex = '';
+      for (let i = 0; i < pairs.length; i += 2) {
+        if (pairs[i] && pairs[i].localName !== 'none') {
+          latex += `_${this.group(pairs[i])}`;
+        }
+        if (pairs[i + 1] && pairs[i + 1].localName !== 'none') {
+          latex += `^${this.group(pairs[i + 1])}`;
+        }
+      }
+      return latex;
+    };
+
+    const prefix = pre.length > 0 ? `{}${scripts(pre)}` : '';
+    return `${prefix}${this.group(base)}${scripts(post)}`;
+  }
+}
+
+// Export singleton instance and class
+export const mathmlConverter = new MathMLConverter();
+export default MathMLConverter;
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import CaptureReporter, { captureReporter, formatSize } from './report';
+
+describe('CaptureReporter', () => {
+  let reporter: CaptureReporter;
+
+  beforeEach(() => {
+    reporter = new CaptureReporter();
+  });
+
+  const extraction = {
+    mainContentSelector: 'article',
+    removedElements: { script: 2, '.advertisement': 5 },
+    pageSize: 204800,
+  };
+  const conversion = {
+    imagesMissingAlt: ['/a.png'],
+    tablesFlattened: 0,
+    tablesAsHtml: 1,
+    embedsSkipped: [],
+    htmlSize: 51200,
+    markdownSize: 1536,
+  };
+
+  describe('combine', () => {
+    it('should merge both reports with the capture details', () => {
+      const report = reporter.combine(
+        extraction,
+        conversion,
+        'https://example.com'
+      );
+      expect(report).toMatchObject({
+        ...extraction,
+        ...conversion,
+        url: 'https://example.com',
+      });
+      expect(Date.parse(report.timestamp)).not.toBeNaN();
+    });
+  });
+
+  describe('summarize', () => {
+    it('should describe sizes, removals and losses', () => {
+      const report = reporter.combine(extraction, conversion, '');
+      expect(reporter.summarize(report)).toEqual([
+        'Main content: article',
+        'Removed: .advertisement (5), script (2)',
+        'Size: 200 KB page → 50 KB HTML → 1.5 KB output',
+        'Images without alt text: 1',
+        'Tables kept as HTML: 1',
+      ]);
+    });
+
+    it('should say when the whole page was kept', () => {
+      const report = reporter.combine(
+        { mainContentSelector: null, removedElements: {}, pageSize: 0 },
+        { ...conversion, imagesMissingAlt: [], tablesAsHtml: 0 },
+        ''
+      );
+      expect(reporter.summarize(report).slice(0, 2)).toEqual([
+        'Main content: whole page',
+        'Removed: nothing',
+      ]);
+    });
+  });
+
+  describe('formatSize', () => {
+    it('should format byte counts with binary units', () => {
+      expect(formatSize(0)).toBe('0 B');
+      expect(formatSize(512)).toBe('512 B');
+      expect(formatSize(1536)).toBe('1.5 KB');
+      expect(formatSize(1048576)).toBe('1 MB');
+    });
+  });
+
+  describe('Singleton instance', () => {
+    it('should export a singleton instance', () => {
+      expect(captureReporter).toBeInstanceOf(CaptureReporter);
+    });
+  });
+});
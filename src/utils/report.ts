@@ -0,0 +1,83 @@
+// Capture fidelity reports for Chrome Markdownify extension
+
+import type { ConversionReport } from './converter';
+import type { ExtractionReport } from './dom-extractor';
+
+/**
+ * Everything extraction and conversion dropped or changed for a capture
+ */
+export interface CaptureReport extends ExtractionReport, ConversionReport {
+  timestamp: string;
+  url: string;
+}
+
+/**
+ * Format a byte count for display
+ */
+export function formatSize(bytes: number): string {
+  if (bytes === 0) return '0 B';
+
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+
+  return `${parseFloat((bytes / k ** i).toFixed(1))} ${sizes[i]}`;
+}
+
+/**
+ * Combine extraction and conversion reports and describe them for the
+ * popup and debug logs
+ */
+class CaptureReporter {
+  /**
+   * Merge the reports of one capture
+   */
+  public combine(
+    extraction: ExtractionReport,
+    conversion: ConversionReport,
+    url: string
+  ): CaptureReport {
+    return {
+      ...extraction,
+      ...conversion,
+      timestamp: new Date().toISOString(),
+      url,
+    };
+  }
+
+  /**
+   * Describe a report as short lines of text
+   */
+  public summarize(report: CaptureReport): string[] {
+    const removed = Object.entries(report.removedElements)
+      .sort(([, a], [, b]) => b - a)
+      .map(([rule, count]) => `${rule} (${count})`);
+
+    const lines = [
+      `Main content: ${report.mainContentSelector || 'whole page'}`,
+      `Removed: ${removed.length ? removed.join(', ') : 'nothing'}`,
+      `Size: ${formatSize(report.pageSize)} page → ${formatSize(
+        report.htmlSize
+      )} HTML → ${formatSize(report.markdownSize)} output`,
+    ];
+
+    if (report.imagesMissingAlt.length) {
+      lines.push(`Images without alt text: ${report.imagesMissingAlt.length}`);
+    }
+    if (report.tablesFlattened) {
+      lines.push(`Tables flattened: ${report.tablesFlattened}`);
+    }
+    if (report.tablesAsHtml) {
+      lines.push(`Tables kept as HTML: ${report.tablesAsHtml}`);
+    }
+    if (report.embedsSkipped.length) {
+      lines.push(`Embeds skipped: ${report.embedsSkipped.length}`);
+    }
+
+    return lines;
+  }
+}
+
+// Export singleton instance and class
+export const captureReporter = new CaptureReporter();
+export default CaptureReporter;
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  TEMPLATE_PRESETS,
+  templateEngine,
+  TemplateVariables,
+} from './template';
+
+const variables: TemplateVariables = {
+  title: 'Page Title',
+  url: 'https://www.example.com/post',
+  domain: 'example.com',
+  date: new Date(2024, 2, 5, 9, 7, 3),
+  timestamp: '2024-03-05T09:07:03.000Z',
+  content: 'Line one\n\nLine {{title}}',
+  selection: false,
+  tags: ['a', 'b'],
+};
+
+describe('TemplateEngine', () => {
+  describe('render', () => {
+    it('should substitute variables', () => {
+      expect(
+        templateEngine.render('[{{title}}]({{url}}) on {{domain}}', variables)
+      ).toBe('[Page Title](https://www.example.com/post) on example.com');
+    });
+
+    it('should format dates', () => {
+      expect(
+        templateEngine.render('{{date:YYYY-MM-DD HH:mm:ss}}', variables)
+      ).toBe('2024-03-05 09:07:03');
+    });
+
+    it('should not expand template syntax inside page content', () => {
+      expect(templateEngine.render('{{content}}', variables)).toBe(
+        'Line one\n\nLine {{title}}'
+      );
+    });
+
+    it('should render conditional sections', () => {
+      const template =
+        '{{#selection}}Excerpt{{/selection}}{{^selection}}Page{{/selection}}{{#tags}}: {{tags}}{{/tags}}';
+
+      expect(templateEngine.render(template, variables)).toBe('Page: a, b');
+      expect(
+        templateEngine.render(template, {
+          ...variables,
+          selection: true,
+          tags: [],
+        })
+      ).toBe('Excerpt');
+    });
+
+    it('should render sections nested in other sections', () => {
+      expect(
+        templateEngine.render(
+          '{{#url}}{{#selection}}Excerpt{{/selection}}{{^selection}}Page{{/selection}}: {{url}}{{/url}}',
+          variables
+        )
+      ).toBe('Page: https://www.example.com/post');
+      expect(
+        templateEngine.render('{{#url}}{{#tags}}{{tags}}{{/tags}}{{/url}}', {
+          ...variables,
+          url: '',
+        })
+      ).toBe('');
+    });
+
+    it('should quote content line by line', () => {
+      expect(
+        templateEngine.render('{{content:quote}}', {
+          ...variables,
+          content: 'One\n\nTwo',
+        })
+      ).toBe('> One\n>\n> Two');
+    });
+
+    it('should leave unknown variables in place', () => {
+      expect(templateEngine.render('{{titel}} {{author}}', variables)).toBe(
+        '{{titel}} '
+      );
+    });
+
+    it('should render the quote preset', () => {
+      expect(
+        templateEngine.render(TEMPLATE_PRESETS.quote.template, {
+          ...variables,
+          content: 'Said',
+          link: '[Page Title](https://www.example.com/post)',
+        })
+      ).toBe(
+        '> Said\n>\n> — [Page Title](https://www.example.com/post), example.com'
+      );
+    });
+  });
+
+  describe('getDomain', () => {
+    it('should strip www. and ignore invalid URLs', () => {
+      expect(templateEngine.getDomain('https://www.example.com/a')).toBe(
+        'example.com'
+      );
+      expect(templateEngine.getDomain('not a url')).toBe('');
+    });
+  });
+});
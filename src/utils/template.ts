@@ -0,0 +1,180 @@
+// Output envelope templates for Chrome Markdownify extension
+
+/**
+ * Values a template can reference as {{name}}
+ */
+export interface TemplateVariables {
+  title: string;
+  url: string;
+  domain: string;
+  date: Date;
+  timestamp: string;
+  content: string;
+  selection: boolean;
+  link?: string;
+  hr?: string;
+  author?: string;
+  description?: string;
+  published?: string;
+  canonical?: string;
+  tags?: string[];
+  frontmatter?: string;
+}
+
+// Every variable name, including the optional ones
+export const TEMPLATE_VARIABLES: Array<keyof TemplateVariables> = [
+  'title',
+  'url',
+  'domain',
+  'date',
+  'timestamp',
+  'content',
+  'selection',
+  'link',
+  'hr',
+  'author',
+  'description',
+  'published',
+  'canonical',
+  'tags',
+  'frontmatter',
+];
+
+export interface TemplatePreset {
+  label: string;
+  template: string;
+}
+
+export type TemplatePresetId = 'header' | 'frontmatter' | 'prompt' | 'quote';
+
+export const TEMPLATE_PRESETS: Record<TemplatePresetId, TemplatePreset> = {
+  header: {
+    label: 'Source/Captured header',
+    template: [
+      '{{#url}}{{#selection}}Selection from{{/selection}}{{^selection}}Source{{/selection}}: {{link}}',
+      '{{/url}}Captured: {{timestamp}}',
+      '',
+      '{{hr}}',
+      '',
+      '{{content}}',
+    ].join('\n'),
+  },
+  frontmatter: {
+    label: 'Front matter note',
+    template: '{{frontmatter}}\n\n{{content}}',
+  },
+  prompt: {
+    label: 'Chat prompt preamble',
+    template: [
+      'Below is {{#selection}}an excerpt from{{/selection}}{{^selection}}the content of{{/selection}} "{{title}}" ({{url}}), captured {{date:YYYY-MM-DD}}. Use it as context for my next question.',
+      '',
+      '<document>',
+      '{{content}}',
+      '</document>',
+    ].join('\n'),
+  },
+  quote: {
+    label: 'Quote with attribution',
+    template: '{{content:quote}}\n>\n> — {{link}}, {{domain}}',
+  },
+};
+
+// {{#name}}shown when set{{/name}} and {{^name}}shown when unset{{/name}}
+const SECTION_PATTERN = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+
+// {{name}} or {{name:modifier}}
+const VARIABLE_PATTERN = /\{\{(\w+)(?::([^}]*))?\}\}/g;
+
+/**
+ * Render output envelopes from templates with {{variables}}, date formats
+ * and conditional sections
+ */
+class TemplateEngine {
+  /**
+   * Render a template; unknown variables are left in place so typos show
+   */
+  public render(template: string, variables: TemplateVariables): string {
+    const values = variables as unknown as Record<string, unknown>;
+
+    // Sections are resolved first so their bodies can hold variables (and
+    // other sections), and variables are substituted in one pass so
+    // inserted page content is never read as template syntax
+    let expanded = template;
+    let previous;
+    do {
+      previous = expanded;
+      expanded = previous.replace(
+        SECTION_PATTERN,
+        (_match, kind: string, name: string, body: string) =>
+          this.isSet(values[name]) === (kind === '#') ? body : ''
+      );
+    } while (expanded !== previous);
+
+    return expanded.replace(
+      VARIABLE_PATTERN,
+      (match, name: string, modifier?: string) =>
+        TEMPLATE_VARIABLES.includes(name as keyof TemplateVariables)
+          ? this.formatValue(values[name], modifier)
+          : match
+    );
+  }
+
+  /**
+   * Format a date with YYYY, MM, DD, HH, mm and ss tokens (local time)
+   */
+  public formatDate(date: Date, format: string): string {
+    if (Number.isNaN(date.getTime())) return '';
+
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const tokens: Record<string, string> = {
+      YYYY: String(date.getFullYear()),
+      MM: pad(date.getMonth() + 1),
+      DD: pad(date.getDate()),
+      HH: pad(date.getHours()),
+      mm: pad(date.getMinutes()),
+      ss: pad(date.getSeconds()),
+    };
+
+    return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => tokens[token]);
+  }
+
+  /**
+   * Get the domain of a URL without its www. prefix
+   */
+  public getDomain(url: string): string {
+    try {
+      return new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+      return '';
+    }
+  }
+
+  private formatValue(value: unknown, modifier?: string): string {
+    if (value instanceof Date) {
+      if (Number.isNaN(value.getTime())) return '';
+      return modifier ? this.formatDate(value, modifier) : value.toISOString();
+    }
+    if (Array.isArray(value)) return value.join(', ');
+    if (value === undefined || value === null) return '';
+
+    const text = String(value);
+    if (modifier === 'quote') {
+      return text
+        .split('\n')
+        .map((line) => (line ? `> ${line}` : '>'))
+        .join('\n');
+    }
+    return text;
+  }
+
+  private isSet(value: unknown): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    return (
+      value !== undefined && value !== null && value !== false && value !== ''
+    );
+  }
+}
+
+// Export singleton instance and class
+export const templateEngine = new TemplateEngine();
+export default TemplateEngine;
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+
+import { formatTokenCount } from './token-count';
+
+describe('formatTokenCount', () => {
+  it('should mark estimated counts', () => {
+    expect(formatTokenCount({ tokens: 12345, estimated: false })).toBe(
+      '12,345 tokens'
+    );
+    expect(formatTokenCount({ tokens: 40, estimated: true })).toBe(
+      '~40 tokens'
+    );
+  });
+});
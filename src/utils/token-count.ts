@@ -0,0 +1,23 @@
+// Token count settings and display for Chrome Markdownify extension
+
+/**
+ * Tokenizer counts are made with: the BPE vocabularies of current (o200k)
+ * and earlier (cl100k) GPT models, or a quick estimate from character counts
+ */
+export type TokenEncoding = 'o200k' | 'cl100k' | 'estimate';
+
+export const DEFAULT_TOKEN_ENCODING: TokenEncoding = 'o200k';
+
+export const DEFAULT_TOKEN_BUDGET = 8000;
+
+export interface TokenCount {
+  tokens: number;
+  estimated: boolean; // Counted from characters rather than by a tokenizer
+}
+
+/**
+ * Format a token count for display, marking estimates with a tilde
+ */
+export function formatTokenCount({ tokens, estimated }: TokenCount): string {
+  return `${estimated ? '~' : ''}${tokens.toLocaleString('en-US')} tokens`;
+}
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import TokenCounter, { tokenCounter } from './tokens';
+
+describe('TokenCounter', () => {
+  let counter: TokenCounter;
+
+  beforeEach(() => {
+    counter = new TokenCounter();
+  });
+
+  describe('count', () => {
+    it('should count tokens with the o200k encoding by default', () => {
+      expect(counter.count('hello world')).toEqual({
+        tokens: 2,
+        estimated: false,
+      });
+    });
+
+    // The service worker can't load modules with import(), so a count that
+    // has to wait for its tokenizer would fall back to an estimate there
+    it('should count with the bundled tokenizers right away', () => {
+      (['o200k', 'cl100k'] as const).forEach((encoding) => {
+        const result = counter.count('hello world', encoding);
+        expect(result).not.toBeInstanceOf(Promise);
+        expect(result.estimated).toBe(false);
+      });
+    });
+
+    it('should count tokens with the cl100k encoding', () => {
+      expect(counter.count('hello world', 'cl100k')).toEqual({
+        tokens: 2,
+        estimated: false,
+      });
+    });
+
+    it('should count special tokens in page text as plain text', () => {
+      const { tokens, estimated } = counter.count('before <|endoftext|> after');
+      expect(estimated).toBe(false);
+      expect(tokens).toBeGreaterThan(3);
+    });
+
+    it('should estimate from characters when asked to', () => {
+      expect(counter.count('a'.repeat(40), 'estimate')).toEqual({
+        tokens: 10,
+        estimated: true,
+      });
+    });
+  });
+
+  describe('estimate', () => {
+    it('should count CJK characters as a token each', () => {
+      expect(counter.estimate('日本語 text')).toBe(3 + 2);
+    });
+  });
+
+  describe('split', () => {
+    const markdown = ['## One', '## Two', '## Three']
+      .map((heading) => `${heading}\n\n${'word '.repeat(60).trim()}`)
+      .join('\n\n');
+
+    it('should split into parts under the token budget', () => {
+      const parts = counter.split(markdown, 100);
+
+      expect(parts).toHaveLength(3);
+      expect(parts[1].startsWith('Part 2/3\n\n## Two')).toBe(true);
+      parts.forEach((part) =>
+        expect(counter.count(part).tokens).toBeLessThanOrEqual(100)
+      );
+    });
+
+    it('should repeat the end of each part at the start of the next', () => {
+      const text = ['First paragraph.', 'Second paragraph.', 'Third one.']
+        .map((paragraph) => `${paragraph} ${'more '.repeat(30).trim()}`)
+        .join('\n\n');
+
+      const parts = counter.split(text, 80, { overlap: 40, headers: false });
+
+      expect(parts.length).toBeGreaterThan(1);
+      const lastOfFirst = parts[0].split('\n\n').pop() as string;
+      expect(parts[1].startsWith(lastOfFirst)).toBe(true);
+    });
+
+    it('should add the title to part headers', () => {
+      const parts = counter.split(markdown, 100, { title: 'Guide' });
+      expect(parts[0].startsWith('Part 1/3 of Guide\n\n## One')).toBe(true);
+    });
+  });
+
+  describe('Singleton instance', () => {
+    it('should export a singleton instance', () => {
+      expect(tokenCounter).toBeInstanceOf(TokenCounter);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+// Token counting for Chrome Markdownify extension
+
+import type { ChunkOptions } from './chunking';
+import type { TokenCount, TokenEncoding } from './token-count';
+import { countTokens as countCl100k } from 'gpt-tokenizer/encoding/cl100k_base';
+import { countTokens as countO200k } from 'gpt-tokenizer/encoding/o200k_base';
+
+import MarkdownChunker from './chunking';
+import { DEFAULT_TOKEN_BUDGET, DEFAULT_TOKEN_ENCODING } from './token-count';
+
+export interface TokenChunkOptions extends ChunkOptions {
+  encoding?: TokenEncoding;
+}
+
+// The encodings are imported statically: the background service worker
+// does the counting, and service workers can't load modules with import().
+// The popup and options page only need ./token-count, so they don't carry
+// the vocabularies
+const COUNTERS: Record<
+  Exclude<TokenEncoding, 'estimate'>,
+  typeof countO200k
+> = {
+  o200k: countO200k,
+  cl100k: countCl100k,
+};
+
+// Page text may contain "<|endoftext|>" and the like; count it as plain text
+const PLAIN_TEXT = { disallowedSpecial: new Set<string>() };
+
+// Scripts with roughly one token per character
+const WIDE_CHARACTERS =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+
+// Characters per token in the estimate, for English prose and code
+const CHARACTERS_PER_TOKEN = 4;
+
+/**
+ * Count or estimate how many LLM tokens Markdown takes up, and split it
+ * into parts that fit a token budget
+ */
+class TokenCounter {
+  /**
+   * Count the tokens in text, estimating from characters if the encoding
+   * is 'estimate' or the tokenizer fails
+   */
+  count(
+    text: string,
+    encoding: TokenEncoding = DEFAULT_TOKEN_ENCODING
+  ): TokenCount {
+    if (encoding !== 'estimate') {
+      try {
+        const counter = COUNTERS[encoding] || countO200k;
+        return { tokens: counter(text, PLAIN_TEXT), estimated: false };
+      } catch (error) {
+        console.warn('Token counter: Tokenizer failed, estimating:', error);
+      }
+    }
+
+    return { tokens: this.estimate(text), estimated: true };
+  }
+
+  /**
+   * Estimate tokens from characters: one per CJK character and one per
+   * four of anything else
+   */
+  estimate(text: string): number {
+    const wide = text.match(WIDE_CHARACTERS)?.length || 0;
+    return wide + Math.ceil((text.length - wide) / CHARACTERS_PER_TOKEN);
+  }
+
+  /**
+   * Split Markdown into parts of at most budget tokens, optionally
+   * repeating the end of each part at the start of the next
+   */
+  split(
+    markdown: string,
+    budget: number = DEFAULT_TOKEN_BUDGET,
+    options: TokenChunkOptions = {}
+  ): string[] {
+    const { encoding, ...chunkOptions } = options;
+    const chunker = new MarkdownChunker(
+      (text) => this.count(text, encoding).tokens
+    );
+    return chunker.split(markdown, budget, chunkOptions);
+  }
+}
+
+// Export singleton instance and class
+export const tokenCounter = new TokenCounter();
+export default TokenCounter;
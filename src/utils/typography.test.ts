@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import TextNormalizer, { textNormalizer } from './typography';
+
+describe('TextNormalizer', () => {
+  let normalizer: TextNormalizer;
+
+  beforeEach(() => {
+    normalizer = new TextNormalizer();
+  });
+
+  describe('normalize', () => {
+    it('should compose characters to NFC', () => {
+      expect(normalizer.normalize('Cafe\u0301')).toBe('Café');
+    });
+
+    it('should leave punctuation alone by default', () => {
+      expect(normalizer.normalize('“quoted” — it’s')).toBe('“quoted” — it’s');
+    });
+
+    it('should skip disabled steps', () => {
+      const text = 'e\u0301\u00A0x\u200B';
+      expect(
+        normalizer.normalize(text, { unicode: false, invisibles: false })
+      ).toBe(text);
+    });
+
+    it('should fold punctuation when enabled', () => {
+      expect(
+        normalizer.normalize('“Wait…” – it’s 5′', {
+          asciiPunctuation: true,
+        })
+      ).toBe('"Wait..." - it\'s 5\'');
+    });
+  });
+
+  describe('removeInvisibles', () => {
+    it('should remove zero-width, soft hyphen and bidi characters', () => {
+      expect(
+        normalizer.removeInvisibles(
+          '\uFEFFzero\u200Bwidth co\u00ADop \u202Ertl\u202C \u200Eltr'
+        )
+      ).toBe('zerowidth coop rtl ltr');
+    });
+
+    it('should turn special spaces into plain spaces', () => {
+      expect(normalizer.removeInvisibles('10\u00A0km\u202F/\u2009h')).toBe(
+        '10 km / h'
+      );
+    });
+
+    it('should keep joiners inside emoji sequences only', () => {
+      const family = '\u{1F468}\u200D\u{1F469}\u200D\u{1F467}';
+      expect(normalizer.removeInvisibles(`a\u200Db ${family}`)).toBe(
+        `ab ${family}`
+      );
+    });
+
+    it('should keep zero-width non-joiners', () => {
+      expect(normalizer.removeInvisibles('می\u200Cخ')).toBe('می\u200Cخ');
+    });
+  });
+
+  describe('replaceEmojiImages', () => {
+    it('should replace images whose alt text is an emoji', () => {
+      const root = document.createElement('div');
+      root.innerHTML =
+        '<p>Hi <img class="emoji" alt="\u{1F44B}" src="1f44b.png"> <img alt="\u{1F1EB}\u{1F1F7}" src="fr.svg"> <img alt="1" src="one.png"></p>';
+      normalizer.replaceEmojiImages(root);
+      expect(root.innerHTML).toBe(
+        '<p>Hi \u{1F44B} \u{1F1EB}\u{1F1F7} <img alt="1" src="one.png"></p>'
+      );
+    });
+  });
+
+  describe('normalizeTree', () => {
+    it('should normalize text and alt text but not code', () => {
+      const root = new DOMParser().parseFromString(
+        '<p>\u201Ca\u200B\u201D <img alt="\u2018b\u2019"><code>\u201Cc\u201D</code></p>',
+        'text/html'
+      ).body;
+
+      normalizer.normalizeTree(root, { asciiPunctuation: true });
+
+      expect(root.innerHTML).toBe(
+        '<p>"a" <img alt="\'b\'"><code>\u201Cc\u201D</code></p>'
+      );
+    });
+  });
+
+  describe('Singleton instance', () => {
+    it('should export a singleton instance', () => {
+      expect(textNormalizer).toBeInstanceOf(TextNormalizer);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+// Unicode and typographic cleanup for Chrome Markdownify extension
+
+/**
+ * Cleanup steps that can be switched on and off
+ * - unicode: compose characters to NFC
+ * - invisibles: remove zero-width and bidi control characters and soft
+ *   hyphens, and turn non-breaking and other odd spaces into plain ones
+ * - asciiPunctuation: fold smart quotes, dashes and ellipses to ASCII
+ * - emojiImages: replace emoji images with the emoji in their alt text
+ */
+export type NormalizationStep =
+  | 'unicode'
+  | 'invisibles'
+  | 'asciiPunctuation'
+  | 'emojiImages';
+
+export const DEFAULT_NORMALIZATION: Record<NormalizationStep, boolean> = {
+  unicode: true,
+  invisibles: true,
+  asciiPunctuation: false,
+  emojiImages: true,
+};
+
+// Zero-width space, word joiner, BOM, soft hyphen and bidi controls.
+// Zero-width non-joiners are left alone: Persian and Indic scripts need them
+const INVISIBLE_CHARACTERS =
+  /[\u00AD\u061C\u200B\u200E\u200F\u202A-\u202E\u2060\u2066-\u2069\uFEFF]/g;
+
+// Zero-width joiners outside emoji sequences like 👨‍👩‍👧
+const STRAY_JOINERS =
+  /(?<!\p{Extended_Pictographic}|\uFE0F|\p{Emoji_Modifier})\u200D|\u200D(?!\p{Extended_Pictographic})/gu;
+
+// No-break, figure, thin, hair and other fixed-width spaces
+const SPECIAL_SPACES = /[\u00A0\u2000-\u200A\u202F\u205F]/g;
+
+const PUNCTUATION: Array<[RegExp, string]> = [
+  [/[\u2018\u2019\u201A\u201B\u2032]/g, "'"],
+  [/[\u201C\u201D\u201E\u201F\u2033]/g, '"'],
+  [/[\u2010\u2011\u2012\u2013\u2212]/g, '-'],
+  [/[\u2014\u2015]/g, '--'],
+  [/\u2026/g, '...'],
+];
+
+// Elements whose text is kept exactly: code, and the sources of math
+const VERBATIM_SELECTOR =
+  'pre, code, kbd, samp, script, style, textarea, math, annotation';
+
+// Attributes whose text ends up in the output
+const TEXT_ATTRIBUTES = ['alt', 'title'];
+
+const EMOJI_TEXT = /^[\p{Extended_Pictographic}\p{Emoji_Component}]+$/u;
+
+/**
+ * Normalize the characters in converted text so it diffs and tokenizes
+ * predictably
+ */
+class TextNormalizer {
+  /**
+   * Run the enabled text steps over a piece of text
+   */
+  public normalize(
+    text: string,
+    steps: Partial<Record<NormalizationStep, boolean>> = {}
+  ): string {
+    const enabled = { ...DEFAULT_NORMALIZATION, ...steps };
+    let result = text;
+
+    if (enabled.unicode) {
+      result = result.normalize('NFC');
+    }
+    if (enabled.invisibles) {
+      result = this.removeInvisibles(result);
+    }
+    if (enabled.asciiPunctuation) {
+      result = this.foldPunctuation(result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Run the enabled text steps over the text and alt/title attributes of a
+   * document, leaving code and math exactly as written
+   */
+  public normalizeTree(
+    root: Element,
+    steps: Partial<Record<NormalizationStep, boolean>> = {}
+  ): void {
+    const walker = root.ownerDocument.createTreeWalker(
+      root,
+      NodeFilter.SHOW_TEXT
+    );
+    const texts: Node[] = [];
+    while (walker.nextNode()) texts.push(walker.currentNode);
+
+    texts
+      .filter((text) => !text.parentElement?.closest(VERBATIM_SELECTOR))
+      .forEach((text) => {
+        text.nodeValue = this.normalize(text.nodeValue || '', steps);
+      });
+
+    TEXT_ATTRIBUTES.forEach((attribute) => {
+      root.querySelectorAll(`[${attribute}]`).forEach((element) => {
+        element.setAttribute(
+          attribute,
+          this.normalize(element.getAttribute(attribute) || '', steps)
+        );
+      });
+    });
+  }
+
+  /**
+   * Remove invisible formatting characters and make every space a plain one
+   */
+  public removeInvisibles(text: string): string {
+    return text
+      .replace(INVISIBLE_CHARACTERS, '')
+      .replace(STRAY_JOINERS, '')
+      .replace(SPECIAL_SPACES, ' ');
+  }
+
+  /**
+   * Fold curly quotes, primes, dashes and ellipses to their ASCII forms
+   */
+  public foldPunctuation(text: string): string {
+    return PUNCTUATION.reduce(
+      (result, [pattern, replacement]) => result.replace(pattern, replacement),
+      text
+    );
+  }
+
+  /**
+   * Replace images of emoji (Twemoji, WordPress smilies...) with the emoji
+   * their alt text spells
+   */
+  public replaceEmojiImages(root: Element): void {
+    root.querySelectorAll('img[alt]').forEach((img) => {
+      const alt = (img.getAttribute('alt') || '').trim();
+      if (
+        EMOJI_TEXT.test(alt) &&
+        /[\p{Extended_Pictographic}\p{Regional_Indicator}]/u.test(alt)
+      ) {
+        img.replaceWith(img.ownerDocument.createTextNode(alt));
+      }
+    });
+  }
+}
+
+// Export singleton instance and class
+export const textNormalizer = new TextNormalizer();
+export default TextNormalizer;
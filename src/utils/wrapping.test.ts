@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import LineWrapper, { lineWrapper } from './wrapping';
+
+describe('LineWrapper', () => {
+  let wrapper: LineWrapper;
+
+  beforeEach(() => {
+    wrapper = new LineWrapper();
+  });
+
+  describe('wrap', () => {
+    it('should leave the text alone in none mode', () => {
+      const markdown = 'A long line. Another sentence.';
+      expect(wrapper.wrap(markdown, 'none', 20)).toBe(markdown);
+    });
+
+    it('should reflow paragraphs to the width', () => {
+      expect(
+        wrapper.wrap(
+          'The quick brown fox jumps over the lazy dog and keeps on running.',
+          'width',
+          30
+        )
+      ).toBe(
+        'The quick brown fox jumps over\nthe lazy dog and keeps on\nrunning.'
+      );
+    });
+
+    it('should indent list item and definition continuations', () => {
+      const markdown = [
+        '-   First item with quite a few words in it',
+        '    -   Nested item with quite a few words',
+        ':   Description with quite a few words too',
+      ].join('\n');
+      expect(wrapper.wrap(markdown, 'width', 30)).toBe(
+        [
+          '-   First item with quite a',
+          '    few words in it',
+          '    -   Nested item with quite',
+          '        a few words',
+          ':   Description with quite a',
+          '    few words too',
+        ].join('\n')
+      );
+    });
+
+    it('should reflow blockquotes inside their markers', () => {
+      expect(
+        wrapper.wrap(
+          '> [!NOTE]\n> Quoted words that need to wrap onto a second line',
+          'width',
+          30
+        )
+      ).toBe(
+        '> [!NOTE]\n> Quoted words that need to\n> wrap onto a second line'
+      );
+    });
+
+    it('should not break links, inline code or inline HTML', () => {
+      expect(
+        wrapper.wrap(
+          'See [the full guide](https://e.com/a) or run `npm run build now` <abbr title="a b">AB</abbr>',
+          'width',
+          20
+        )
+      ).toBe(
+        'See\n[the full guide](https://e.com/a)\nor run\n`npm run build now`\n<abbr title="a b">AB</abbr>'
+      );
+    });
+
+    it('should keep code blocks, tables and headings as they are', () => {
+      const markdown = [
+        '## A heading that is longer than the width',
+        '',
+        '```',
+        'code that is longer than the width',
+        '```',
+        '',
+        '| Table | Row that is longer than the width |',
+      ].join('\n');
+      expect(wrapper.wrap(markdown, 'width', 20)).toBe(markdown);
+    });
+
+    it('should not start a line with a list or heading marker', () => {
+      expect(
+        wrapper.wrap('Scores went up by about 12345678 - then 2.', 'width', 30)
+      ).toBe('Scores went up by about\n12345678 - then 2.');
+    });
+
+    it('should put each sentence on its own line in sentence mode', () => {
+      expect(
+        wrapper.wrap(
+          'It works, e.g. on Linux. Dr. Smith said so! Really? "Yes."',
+          'sentence'
+        )
+      ).toBe('It works, e.g. on Linux.\nDr. Smith said so!\nReally?\n"Yes."');
+    });
+  });
+
+  describe('getWords', () => {
+    it('should keep images inside links as one word', () => {
+      expect(wrapper.getWords('a [![b c](d.png)](e) f')).toEqual([
+        'a',
+        '[![b c](d.png)](e)',
+        'f',
+      ]);
+    });
+  });
+
+  describe('Singleton instance', () => {
+    it('should export a singleton instance', () => {
+      expect(lineWrapper).toBeInstanceOf(LineWrapper);
+    });
+  });
+});
@@ -0,0 +1,264 @@
+// Line wrapping and reflow for Chrome Markdownify extension
+
+/**
+ * How paragraphs are laid out: left on one line each, wrapped to a column
+ * width, or broken after every sentence (semantic line breaks)
+ */
+export type WrapMode = 'none' | 'width' | 'sentence';
+
+export const DEFAULT_WRAP_WIDTH = 80;
+
+// Lines are never wrapped narrower than this, however deep the nesting
+const MIN_WIDTH = 20;
+
+const FENCE = /^(`{3,}|~{3,}|\$\$)/;
+const LIST_MARKER = /^(?:[-+*]|\d{1,9}[.)]|:)\s+/;
+const FOOTNOTE_MARKER = /^\[\^[^\]]+\]:\s+/;
+
+// Lines kept exactly as they are
+const VERBATIM_LINE =
+  /^(?:#{1,6}(?:\s|$)|\||(?:[-*_]\s*){3,}$|\[(?!\^)[^\]]+\]:\s|\[![\w-]+\])/;
+
+// Spans a line break must not fall inside: code, links and images,
+// wikilinks, autolinks and inline HTML, and inline math
+const ATOMIC_SPANS = new RegExp(
+  [
+    /(`+)(?:(?!\1)[\s\S])*?\1/.source,
+    /!?\[(?:[^[\]]|\[[^\]]*\])*\](?:\([^)]*\)|\[[^\]]*\])?/.source,
+    /\[\[[^\]]*\]\]/.source,
+    /<[^<>\n]+>/.source,
+    /\$[^$\n]+\$/.source,
+  ].join('|'),
+  'g'
+);
+
+// Words that would start a list, heading, quote or table at a line start
+const BLOCK_START = /^(?:[-+*]|\d{1,9}[.)]|#{1,6}|>.*|\|.*|=+|-+)$/;
+
+// Abbreviations a sentence doesn't end at
+const ABBREVIATIONS = new Set([
+  'e.g.',
+  'i.e.',
+  'etc.',
+  'vs.',
+  'cf.',
+  'approx.',
+  'mr.',
+  'mrs.',
+  'ms.',
+  'dr.',
+  'prof.',
+  'st.',
+  'no.',
+  'fig.',
+]);
+
+// Placeholder for spaces that must not become line breaks
+const NO_BREAK = '\u0000';
+
+/**
+ * Reflow the paragraphs, list items and blockquotes of Markdown output,
+ * leaving code blocks, tables, headings and HTML untouched
+ */
+class LineWrapper {
+  /**
+   * Reflow Markdown with the given mode
+   */
+  public wrap(
+    markdown: string,
+    mode: WrapMode,
+    width: number = DEFAULT_WRAP_WIDTH
+  ): string {
+    if (mode === 'none') return markdown;
+    return this.wrapLines(markdown.split('\n'), mode, width).join('\n');
+  }
+
+  /**
+   * Split paragraph text into the words a line can break between, keeping
+   * code, links and inline HTML whole
+   */
+  public getWords(text: string): string[] {
+    return text
+      .replace(ATOMIC_SPANS, (span) => span.replace(/\s+/g, NO_BREAK))
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((word) => word.split(NO_BREAK).join(' '));
+  }
+
+  /**
+   * Group words into sentences, not breaking after abbreviations or initials
+   */
+  public splitSentences(words: string[]): string[][] {
+    const sentences: string[][] = [[]];
+
+    words.forEach((word, index) => {
+      sentences[sentences.length - 1].push(word);
+      const next = words[index + 1];
+      if (next && this.endsSentence(word, next)) {
+        sentences.push([]);
+      }
+    });
+
+    return sentences;
+  }
+
+  private wrapLines(lines: string[], mode: WrapMode, width: number): string[] {
+    const output: string[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+      index = this.wrapBlock(lines, index, mode, width, output);
+    }
+
+    return output;
+  }
+
+  /**
+   * Write the block starting at a line to the output, returning the index
+   * of the line after it
+   */
+  private wrapBlock(
+    lines: string[],
+    start: number,
+    mode: WrapMode,
+    width: number,
+    output: string[]
+  ): number {
+    const line = lines[start];
+    const indent = line.match(/^ */)?.[0] || '';
+    const content = line.slice(indent.length);
+    let index = start + 1;
+
+    // Code fences and math blocks run to their closing fence; a one-line
+    // $$...$$ block has nothing more to skip
+    const fence = content.match(FENCE)?.[1];
+    if (fence) {
+      output.push(line);
+      let closed = content.slice(fence.length).includes(fence);
+      while (!closed && index < lines.length) {
+        output.push(lines[index]);
+        closed = lines[index].trim().startsWith(fence);
+        index++;
+      }
+      return index;
+    }
+
+    // Blockquotes are reflowed inside their markers
+    if (content.startsWith('>')) {
+      const quoted: string[] = [];
+      index = start;
+      while (index < lines.length && lines[index].startsWith(`${indent}>`)) {
+        quoted.push(lines[index].slice(indent.length + 1).replace(/^ /, ''));
+        index++;
+      }
+      const prefix = `${indent}> `;
+      this.wrapLines(quoted, mode, width - prefix.length).forEach(
+        (quotedLine) =>
+          output.push(quotedLine ? `${prefix}${quotedLine}` : `${indent}>`)
+      );
+      return index;
+    }
+
+    // HTML blocks run to the next blank line
+    if (content.startsWith('<')) {
+      output.push(line);
+      while (index < lines.length && lines[index].trim()) {
+        output.push(lines[index]);
+        index++;
+      }
+      return index;
+    }
+
+    if (!content || VERBATIM_LINE.test(content)) {
+      output.push(line);
+      return index;
+    }
+
+    // A paragraph or list item, with its continuation lines
+    const marker =
+      content.match(LIST_MARKER)?.[0] ||
+      content.match(FOOTNOTE_MARKER)?.[0] ||
+      '';
+    const continuation = ' '.repeat(
+      indent.length + (marker.startsWith('[^') ? 4 : marker.length)
+    );
+    const segments = [content.slice(marker.length)];
+    while (index < lines.length && this.continuesParagraph(lines[index])) {
+      const previous = segments[segments.length - 1];
+      const text = lines[index].trim();
+      // Backslash hard breaks stay line breaks
+      if (previous.endsWith('\\')) {
+        segments.push(text);
+      } else {
+        segments[segments.length - 1] = `${previous} ${text}`;
+      }
+      index++;
+    }
+
+    const available = Math.max(width - continuation.length, MIN_WIDTH);
+    segments
+      .flatMap((segment) => this.layout(segment, mode, available))
+      .forEach((text, lineIndex) =>
+        output.push(
+          lineIndex === 0
+            ? `${indent}${marker}${text}`
+            : `${continuation}${text}`
+        )
+      );
+    return index;
+  }
+
+  private continuesParagraph(line: string): boolean {
+    const content = line.trim();
+    return (
+      !!content &&
+      !FENCE.test(content) &&
+      !VERBATIM_LINE.test(content) &&
+      !LIST_MARKER.test(content) &&
+      !FOOTNOTE_MARKER.test(content) &&
+      !content.startsWith('>') &&
+      !content.startsWith('<')
+    );
+  }
+
+  private layout(text: string, mode: WrapMode, width: number): string[] {
+    const words = this.getWords(text);
+    if (mode === 'sentence') {
+      return this.splitSentences(words).map((sentence) => sentence.join(' '));
+    }
+
+    const lines: string[] = [];
+    let current = '';
+    words.forEach((word) => {
+      if (!current) {
+        current = word;
+      } else if (
+        current.length + 1 + word.length <= width ||
+        BLOCK_START.test(word)
+      ) {
+        current = `${current} ${word}`;
+      } else {
+        lines.push(current);
+        current = word;
+      }
+    });
+    if (current) lines.push(current);
+
+    return lines;
+  }
+
+  private endsSentence(word: string, next: string): boolean {
+    const bare = word.replace(/["')\]*_”’]+$/, '');
+    return (
+      /[.!?]$/.test(bare) &&
+      !ABBREVIATIONS.has(bare.toLowerCase()) &&
+      !/^\p{Lu}\.$/u.test(bare) &&
+      /^["'([*_`“‘\p{Lu}\d]/u.test(next) &&
+      !BLOCK_START.test(next)
+    );
+  }
+}
+
+// Export singleton instance and class
+export const lineWrapper = new LineWrapper();
+export default LineWrapper;
@@ -7,6 +7,12 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'happy-dom',
+    environmentOptions: {
+      happyDOM: {
+        // Embed tests parse iframes; don't let happy-dom fetch their pages
+        settings: { disableIframePageLoading: true },
+      },
+    },
     setupFiles: ['./src/test/setup.ts'],
   },
   resolve: {